@@ -2,6 +2,7 @@ import { defineConfig } from 'astro/config';
 import react from '@astrojs/react';
 import mdx from '@astrojs/mdx';
 import tailwind from '@astrojs/tailwind';
+import precacheManifest from './src/integrations/precacheManifest';
 
 // https://astro.build/config
 export default defineConfig({
@@ -24,6 +25,8 @@ export default defineConfig({
     tailwind({
       applyBaseStyles: false,
     }),
+    // Last, so it sees the finished build output
+    precacheManifest(),
   ],
 
   vite: {
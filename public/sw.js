@@ -1,50 +1,15 @@
 // Service Worker for Resilience Hub Toolkit
 // Provides offline functionality through caching strategies
 
-// IMPORTANT: Increment this version whenever you update CSS, JS, or design system
-const CACHE_VERSION = 'v5-full-precache';
-const CACHE_NAME = `resilience-hub-${CACHE_VERSION}`;
+// Filled in at build time by src/integrations/precacheManifest.ts: every
+// built page and asset with a hash of its content, and a version derived from
+// them (so any change to the site installs a new worker). Empty in development.
+const CACHE_VERSION = 'dev';
+const PRECACHE_MANIFEST = [];
 
-// Assets to cache immediately on install
-const PRECACHE_ASSETS = [
-  // Core pages
-  '/',
-  '/modules',
-  '/downloads',
-  '/about',
-  '/dashboard',
-  '/introduction',
-  '/library',
-  '/map',
-  '/downloads-and-templates',
-  '/support',
-  '/LICENSE',
-
-  // Module hub pages
-  '/modules/emergency-preparedness/',
-  '/modules/baseline-resilience/',
-  '/modules/knowing-your-community',
-
-  // Emergency Preparedness sub-modules (1-1 through 1-13)
-  '/modules/emergency-preparedness/1-1-kits',
-  '/modules/emergency-preparedness/1-2-food-water',
-  '/modules/emergency-preparedness/1-3-medical',
-  '/modules/emergency-preparedness/1-4-power',
-  '/modules/emergency-preparedness/1-5-shelter',
-  '/modules/emergency-preparedness/1-6-vehicles',
-  '/modules/emergency-preparedness/1-7-sanitation',
-  '/modules/emergency-preparedness/1-8-special-populations',
-  '/modules/emergency-preparedness/1-9-response-plans',
-  '/modules/emergency-preparedness/1-10-volunteers',
-  '/modules/emergency-preparedness/1-11-flood-recovery',
-  '/modules/emergency-preparedness/1-12-mutual-aid',
-  '/modules/emergency-preparedness/1-13-financial-resources',
-
-  // Baseline Resilience sub-modules (2-1 through 2-3)
-  '/modules/baseline-resilience/2-1-basic-needs',
-  '/modules/baseline-resilience/2-2-shared-tools',
-  '/modules/baseline-resilience/2-3-community-building',
-];
+const CACHE_NAME = `resilience-hub-${CACHE_VERSION}`;
+// Kept in the cache so the next version can tell which files changed
+const MANIFEST_URL = '/precache-manifest.json';
 
 // Cache strategies
 const CACHE_FIRST_PATTERNS = [
@@ -60,29 +25,90 @@ const NETWORK_FIRST_PATTERNS = [
 ];
 
 /**
- * Install event - cache core assets
+ * Install event - cache every built page and asset
+ *
+ * A new version then waits until every tab has closed, or until the page
+ * asks it to take over (SKIP_WAITING) once the household chooses to reload -
+ * see UpdateAvailableBanner.astro. Swapping versions under an open page
+ * could mix old and new assets mid-edit.
  */
 self.addEventListener('install', (event) => {
   event.waitUntil(
-    caches.open(CACHE_NAME).then((cache) => {
-      return cache.addAll(PRECACHE_ASSETS);
-    }).then(() => {
+    precache().then(() => {
       // Notify all clients that caching is complete
       return self.clients.matchAll().then((clients) => {
         clients.forEach((client) => {
           client.postMessage({
             type: 'CACHE_COMPLETE',
             timestamp: new Date().toISOString(),
-            cachedCount: PRECACHE_ASSETS.length
+            cachedCount: PRECACHE_MANIFEST.length
           });
         });
       });
-    }).then(() => {
-      return self.skipWaiting();
     })
   );
 });
 
+/**
+ * Cache the manifest's files, copying ones that haven't changed from the
+ * previous version's cache instead of downloading them again
+ */
+async function precache() {
+  const cache = await caches.open(CACHE_NAME);
+  const previousResponse = await caches.match(MANIFEST_URL);
+  const previous = new Map(
+    (previousResponse ? await previousResponse.json() : []).map((entry) => [entry.url, entry.revision])
+  );
+
+  await Promise.all(PRECACHE_MANIFEST.map(async ({ url, revision }) => {
+    if (previous.get(url) === revision) {
+      const cached = await caches.match(url);
+      if (cached) {
+        return cache.put(url, cached);
+      }
+    }
+    // Skip the HTTP cache so a changed file is never cached stale
+    const response = await fetch(url, { cache: 'no-cache' });
+    if (!response.ok) {
+      throw new Error(`Failed to precache ${url} (${response.status})`);
+    }
+    return cache.put(url, await withoutRedirect(response));
+  }));
+
+  await cache.put(MANIFEST_URL, new Response(JSON.stringify(PRECACHE_MANIFEST), {
+    headers: { 'Content-Type': 'application/json' },
+  }));
+}
+
+/**
+ * Copy of a response that followed a redirect (e.g. "/about/" to "/about"),
+ * which browsers refuse to use for page navigations
+ */
+async function withoutRedirect(response) {
+  if (!response.redirected) {
+    return response;
+  }
+  return new Response(await response.blob(), {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+/**
+ * Cached response for a request, including pages cached under their
+ * directory URL ("/dashboard/") when requested without the slash
+ */
+async function matchCache(cache, request) {
+  const cached = await cache.match(request);
+  if (cached || request.mode !== 'navigate') {
+    return cached;
+  }
+  const url = new URL(request.url);
+  url.pathname = url.pathname.endsWith('/') ? url.pathname.slice(0, -1) || '/' : `${url.pathname}/`;
+  return cache.match(url.href);
+}
+
 /**
  * Activate event - clean up old caches
  */
@@ -95,6 +121,8 @@ self.addEventListener('activate', (event) => {
           .map((name) => caches.delete(name))
       );
     }).then(() => {
+      // Control pages opened before the first install; pages open during an
+      // update see the controller change and offer to reload
       return self.clients.claim();
     })
   );
@@ -112,6 +140,11 @@ self.addEventListener('fetch', (event) => {
     return;
   }
 
+  // Team sync must reach the server or fail (never a cached response)
+  if (url.pathname.startsWith('/api/sync/')) {
+    return;
+  }
+
   // Determine strategy
   const isCacheFirst = CACHE_FIRST_PATTERNS.some((pattern) =>
     pattern.test(url.pathname)
@@ -172,7 +205,7 @@ async function networkFirst(request) {
     }
     return response;
   } catch (error) {
-    const cached = await cache.match(request);
+    const cached = await matchCache(cache, request);
     if (cached) {
       return cached;
     }
@@ -224,3 +257,202 @@ self.addEventListener('message', (event) => {
     }
   }
 });
+
+// ============================================================================
+// MAINTENANCE REMINDERS
+// ============================================================================
+// Opt-in notifications for scheduled checklist items, read straight from the
+// app's IndexedDB. Settings are written by src/lib/notifications.ts. Items
+// count as due like in the dashboard's Upcoming Maintenance list: unchecked
+// items with a due date, and repeating items whose next due date has come.
+// Every profile (src/lib/profiles.ts) has its own database and settings.
+
+const DB_NAME = 'resilience-toolkit';
+const PROFILE_KEY = 'profile';
+const NOTIFICATION_SETTINGS_KEY = 'notificationSettings';
+const NOTIFICATION_LOG_KEY = 'notificationLog';
+const CHECK_DUE_ITEMS_TAG = 'check-due-items';
+const LABELS_URL = '/todo-labels.json';
+
+/**
+ * Names of every profile's database (just the first profile's where the
+ * browser can't list databases)
+ */
+async function listProfileDatabases() {
+  if (typeof indexedDB.databases !== 'function') return [DB_NAME];
+  try {
+    const databases = await indexedDB.databases();
+    return databases
+      .map((database) => database.name)
+      .filter((name) => name === DB_NAME || (name && name.startsWith(`${DB_NAME}:`)));
+  } catch (error) {
+    return [DB_NAME];
+  }
+}
+
+/**
+ * Open a profile's database without creating or upgrading it
+ * Resolves null if the app has never stored anything there
+ */
+function openToolkitDB(name) {
+  return new Promise((resolve) => {
+    const request = indexedDB.open(name);
+
+    // Only the app's migrations may create the database
+    request.onupgradeneeded = () => request.transaction.abort();
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let the app upgrade the schema while this connection is open
+      db.onversionchange = () => db.close();
+      resolve(['todos', 'metadata'].every((name) => db.objectStoreNames.contains(name)) ? db : null);
+    };
+    request.onerror = () => resolve(null);
+    request.onblocked = () => resolve(null);
+  });
+}
+
+function idbRequest(request) {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function getMetadataValue(db, key) {
+  const record = await idbRequest(db.transaction('metadata').objectStore('metadata').get(key));
+  return record ? record.value : undefined;
+}
+
+function setMetadataValue(db, key, value) {
+  const store = db.transaction('metadata', 'readwrite').objectStore('metadata');
+  return idbRequest(store.put({ key, value, updatedAt: new Date().toISOString() }));
+}
+
+/**
+ * Local calendar date as "YYYY-MM-DD" (same format as `Todo.dueAt`)
+ */
+function toDateKey(date) {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+async function loadTodoLabels() {
+  try {
+    const response = (await caches.match(LABELS_URL)) || (await fetch(LABELS_URL));
+    return response.ok ? await response.json() : {};
+  } catch (error) {
+    return {};
+  }
+}
+
+function describeDue(dueAt, today) {
+  if (dueAt < today) return 'overdue';
+  if (dueAt === today) return 'due today';
+  const [year, month, day] = dueAt.split('-').map(Number);
+  return `due ${new Date(year, month - 1, day).toLocaleDateString(undefined, { dateStyle: 'medium' })}`;
+}
+
+/**
+ * Notify about one profile's items that have come due since the last check
+ *
+ * Each item is announced once per due date; the log only keeps items that
+ * are still due, so an item that repeats is announced again next time.
+ */
+async function checkProfileDueItems(name, labels, showProfileName) {
+  const db = await openToolkitDB(name);
+  if (!db) return;
+
+  try {
+    const settings = await getMetadataValue(db, NOTIFICATION_SETTINGS_KEY);
+    if (!settings || !settings.enabled) return;
+
+    const now = new Date();
+    const today = toDateKey(now);
+    const limit = toDateKey(
+      new Date(now.getFullYear(), now.getMonth(), now.getDate() + (settings.leadDays || 0))
+    );
+
+    const todos = await idbRequest(db.transaction('todos').objectStore('todos').getAll());
+    const due = todos
+      .filter((todo) => todo.dueAt && todo.dueAt <= limit && (!todo.completed || todo.recurrence))
+      .sort((a, b) => a.dueAt.localeCompare(b.dueAt));
+
+    const log = (await getMetadataValue(db, NOTIFICATION_LOG_KEY)) || { notified: [] };
+    const keys = due.map((todo) => `${todo.id}@${todo.dueAt}`);
+    const fresh = due.filter((_todo, index) => !log.notified.includes(keys[index]));
+    await setMetadataValue(db, NOTIFICATION_LOG_KEY, { notified: keys });
+
+    if (fresh.length === 0) return;
+
+    const itemLabels = await labels;
+    const lines = fresh.map(
+      (todo) => `${itemLabels[todo.id] || todo.todoId} (${describeDue(todo.dueAt, today)})`
+    );
+
+    const profile = showProfileName ? await getMetadataValue(db, PROFILE_KEY) : null;
+    const title = fresh.length === 1 ? 'Maintenance due' : `${fresh.length} maintenance items due`;
+
+    await self.registration.showNotification(
+      profile && profile.name ? `${title} - ${profile.name}` : title,
+      {
+        body: lines.slice(0, 3).join('\n') + (lines.length > 3 ? `\nand ${lines.length - 3} more` : ''),
+        tag: `due-maintenance:${name}`,
+        icon: '/icons/icon-192x192.png',
+        badge: '/icons/icon-72x72.png',
+        data: { url: '/dashboard' },
+      }
+    );
+  } catch (error) {
+    console.error('Maintenance reminder check failed:', error);
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Check every profile for due items (one notification per profile)
+ */
+async function checkDueItems() {
+  if (!self.Notification || Notification.permission !== 'granted') return;
+
+  const names = await listProfileDatabases();
+  const labels = loadTodoLabels();
+  for (const name of names) {
+    await checkProfileDueItems(name, labels, names.length > 1);
+  }
+}
+
+/**
+ * Periodic background sync (where supported and allowed)
+ */
+self.addEventListener('periodicsync', (event) => {
+  if (event.tag === CHECK_DUE_ITEMS_TAG) {
+    event.waitUntil(checkDueItems());
+  }
+});
+
+/**
+ * On-open fallback: pages ask for a check when they load
+ */
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'CHECK_DUE_ITEMS') {
+    event.waitUntil(checkDueItems());
+  }
+});
+
+/**
+ * Open the dashboard (with its upcoming maintenance list) from a reminder
+ */
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const path = (event.notification.data && event.notification.data.url) || '/';
+  const url = new URL(path, self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const existing = clients.find((client) => client.url === url);
+      return existing ? existing.focus() : self.clients.openWindow(url);
+    })
+  );
+});
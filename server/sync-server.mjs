@@ -0,0 +1,317 @@
+#!/usr/bin/env node
+/**
+ * Team Sync Server
+ *
+ * Reference server for the toolkit's optional team sync (src/lib/teamSync.ts).
+ * A hub runs it to let its team share one plan. It stores each team's changes
+ * in SQLite and hands them to the team's other devices; changes arrive
+ * encrypted with the team code, which the server never sees.
+ *
+ * Usage:
+ *   node sync-server.mjs                      Start the server
+ *   node sync-server.mjs create-space "Name"  Create a team's space and print its team code
+ *
+ * Environment:
+ *   PORT             Port to listen on (default 8787)
+ *   SYNC_DB_PATH     SQLite database file (default ./sync.db)
+ *   SYNC_STATIC_DIR  Also serve the built toolkit from this folder (e.g. ../dist),
+ *                    so the app and its sync server share one address
+ *
+ * Run it behind HTTPS (a reverse proxy or your host's TLS) - browsers only
+ * let the installed toolkit talk to secure servers.
+ */
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { createServer } from 'http';
+import { readFile, stat } from 'fs/promises';
+import { extname, join, resolve, sep } from 'path';
+import Database from 'better-sqlite3';
+
+const PORT = Number(process.env.PORT) || 8787;
+const DB_PATH = process.env.SYNC_DB_PATH || 'sync.db';
+const STATIC_DIR = process.env.SYNC_STATIC_DIR ? resolve(process.env.SYNC_STATIC_DIR) : null;
+
+const API_PREFIX = '/api/sync/v1/spaces/';
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+const MAX_PUSH_CHANGES = 500;
+const MAX_CHANGE_ID_LENGTH = 256;
+const MAX_PAYLOAD_LENGTH = 1024 * 1024;
+const DEFAULT_PULL_LIMIT = 500;
+const MAX_PULL_LIMIT = 1000;
+
+const CONTENT_TYPES = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.mjs': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.webmanifest': 'application/manifest+json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.ico': 'image/x-icon',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain; charset=utf-8',
+};
+
+// ============================================================================
+// DATABASE
+// ============================================================================
+
+const db = new Database(DB_PATH);
+db.pragma('journal_mode = WAL');
+db.exec(`
+  CREATE TABLE IF NOT EXISTS spaces (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    token_hash TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS changes (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    space_id TEXT NOT NULL REFERENCES spaces(id),
+    id TEXT NOT NULL,
+    origin TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    received_at TEXT NOT NULL,
+    UNIQUE (space_id, id)
+  );
+`);
+
+const statements = {
+  createSpace: db.prepare('INSERT INTO spaces (id, name, token_hash, created_at) VALUES (?, ?, ?, ?)'),
+  getSpace: db.prepare('SELECT id, name, token_hash, created_at FROM spaces WHERE id = ?'),
+  insertChange: db.prepare(
+    'INSERT OR IGNORE INTO changes (space_id, id, origin, payload, received_at) VALUES (?, ?, ?, ?, ?)'
+  ),
+  getChanges: db.prepare(
+    'SELECT seq, payload FROM changes WHERE space_id = ? AND seq > ? AND origin != ? ORDER BY seq LIMIT ?'
+  ),
+  getLastSeq: db.prepare('SELECT MAX(seq) AS seq FROM changes WHERE space_id = ?'),
+};
+
+const insertChanges = db.transaction((spaceId, origin, changes) => {
+  const receivedAt = new Date().toISOString();
+  return changes.reduce(
+    (inserted, change) =>
+      inserted + statements.insertChange.run(spaceId, change.id, origin, change.payload, receivedAt).changes,
+    0
+  );
+});
+
+const readChanges = db.transaction((spaceId, after, exclude, limit) => {
+  const rows = statements.getChanges.all(spaceId, after, exclude, limit + 1);
+  const more = rows.length > limit;
+  const changes = rows.slice(0, limit);
+  // With nothing more to send, skip past the puller's own changes too
+  const cursor = more
+    ? changes[changes.length - 1].seq
+    : Math.max(after, statements.getLastSeq.get(spaceId).seq ?? 0);
+  return { changes, cursor, more };
+});
+
+function sha256Hex(text) {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Create a team's space, returning the team code devices connect with
+ *
+ * The code is `<space id>.<secret>`. The server keeps only a hash of the
+ * token derived from the secret, so a lost code can't be recovered - create
+ * a new space instead.
+ */
+function createSpace(name) {
+  const id = randomBytes(9).toString('base64url');
+  const secret = randomBytes(32).toString('base64url');
+  const token = sha256Hex(`resilience-hub-sync:auth:${secret}`);
+  statements.createSpace.run(id, name, sha256Hex(token), new Date().toISOString());
+  return `${id}.${secret}`;
+}
+
+// ============================================================================
+// HTTP
+// ============================================================================
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+function send(response, status, body) {
+  response.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Cache-Control': 'no-store',
+  });
+  response.end(JSON.stringify(body));
+}
+
+function setCorsHeaders(response) {
+  // Requests carry a bearer token rather than cookies, so any origin may call
+  response.setHeader('Access-Control-Allow-Origin', '*');
+  response.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  response.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+  response.setHeader('Access-Control-Max-Age', '86400');
+}
+
+async function readJson(request) {
+  const chunks = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request too large');
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Request body is not JSON');
+  }
+}
+
+/**
+ * The space a request is for, if its bearer token matches
+ */
+function authorize(request, spaceId) {
+  const space = statements.getSpace.get(spaceId);
+  const [, token = ''] = /^Bearer (.+)$/.exec(request.headers.authorization ?? '') ?? [];
+  const expected = Buffer.from(space?.token_hash ?? sha256Hex(''), 'hex');
+  const actual = Buffer.from(sha256Hex(token), 'hex');
+  if (!space || !timingSafeEqual(expected, actual)) {
+    throw new HttpError(401, 'Unknown space or wrong team code');
+  }
+  return space;
+}
+
+function isValidChange(change) {
+  return (
+    typeof change === 'object' &&
+    change !== null &&
+    typeof change.id === 'string' &&
+    change.id.length > 0 &&
+    change.id.length <= MAX_CHANGE_ID_LENGTH &&
+    typeof change.payload === 'string' &&
+    change.payload.length <= MAX_PAYLOAD_LENGTH
+  );
+}
+
+async function handleApi(request, response, url) {
+  const [spaceId, resource, ...rest] = url.pathname.slice(API_PREFIX.length).split('/');
+  if (!spaceId || rest.length > 0 || (resource !== undefined && resource !== 'changes')) {
+    throw new HttpError(404, 'Not found');
+  }
+  const space = authorize(request, decodeURIComponent(spaceId));
+
+  if (resource === undefined && request.method === 'GET') {
+    send(response, 200, { name: space.name, createdAt: space.created_at });
+    return;
+  }
+
+  if (resource === 'changes' && request.method === 'POST') {
+    const { origin, changes } = await readJson(request);
+    if (typeof origin !== 'string' || !origin || !Array.isArray(changes) || !changes.every(isValidChange)) {
+      throw new HttpError(400, 'Expected { origin, changes: [{ id, payload }] }');
+    }
+    if (changes.length > MAX_PUSH_CHANGES) {
+      throw new HttpError(413, `Send at most ${MAX_PUSH_CHANGES} changes at a time`);
+    }
+    send(response, 200, { accepted: insertChanges(space.id, origin, changes) });
+    return;
+  }
+
+  if (resource === 'changes' && request.method === 'GET') {
+    const after = Math.max(0, Number(url.searchParams.get('after')) || 0);
+    const exclude = url.searchParams.get('exclude') ?? '';
+    const limit = Math.min(MAX_PULL_LIMIT, Number(url.searchParams.get('limit')) || DEFAULT_PULL_LIMIT);
+    send(response, 200, readChanges(space.id, after, exclude, Math.max(1, limit)));
+    return;
+  }
+
+  throw new HttpError(405, 'Method not allowed');
+}
+
+/**
+ * Serve the built toolkit (Astro's `dist/`), including its service worker
+ */
+async function handleStatic(request, response, url) {
+  if (request.method !== 'GET' && request.method !== 'HEAD') {
+    throw new HttpError(405, 'Method not allowed');
+  }
+  const path = resolve(STATIC_DIR, `.${decodeURIComponent(url.pathname)}`);
+  if (path !== STATIC_DIR && !path.startsWith(STATIC_DIR + sep)) {
+    throw new HttpError(404, 'Not found');
+  }
+
+  for (const candidate of [path, join(path, 'index.html'), `${path}.html`]) {
+    const info = await stat(candidate).catch(() => null);
+    if (!info?.isFile()) continue;
+    response.writeHead(200, {
+      'Content-Type': CONTENT_TYPES[extname(candidate)] ?? 'application/octet-stream',
+      'Content-Length': info.size,
+    });
+    response.end(request.method === 'HEAD' ? undefined : await readFile(candidate));
+    return;
+  }
+  throw new HttpError(404, 'Not found');
+}
+
+const server = createServer(async (request, response) => {
+  const url = new URL(request.url ?? '/', 'http://localhost');
+  try {
+    if (url.pathname.startsWith(API_PREFIX)) {
+      setCorsHeaders(response);
+      if (request.method === 'OPTIONS') {
+        response.writeHead(204);
+        response.end();
+        return;
+      }
+      await handleApi(request, response, url);
+    } else if (STATIC_DIR) {
+      await handleStatic(request, response, url);
+    } else {
+      throw new HttpError(404, 'Not found');
+    }
+  } catch (error) {
+    if (!(error instanceof HttpError)) {
+      console.error('[SyncServer] Request failed:', error);
+    }
+    if (!response.headersSent) {
+      send(response, error instanceof HttpError ? error.status : 500, {
+        error: error instanceof HttpError ? error.message : 'Server error',
+      });
+    } else {
+      response.end();
+    }
+  }
+});
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+const [command, ...args] = process.argv.slice(2);
+
+if (command === 'create-space') {
+  const name = args.join(' ').trim();
+  if (!name) {
+    console.error('Usage: node sync-server.mjs create-space "Team name"');
+    process.exit(1);
+  }
+  const teamCode = createSpace(name);
+  console.log(`Created "${name}". Share this team code with your team (it can't be shown again):\n`);
+  console.log(`  ${teamCode}\n`);
+  db.close();
+} else if (command) {
+  console.error(`Unknown command "${command}"`);
+  process.exit(1);
+} else {
+  server.listen(PORT, () => {
+    console.log(`[SyncServer] Listening on port ${PORT} (database: ${resolve(DB_PATH)})`);
+    if (STATIC_DIR) console.log(`[SyncServer] Serving the toolkit from ${STATIC_DIR}`);
+  });
+}
@@ -0,0 +1,232 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Archive, ArchiveRestore, X } from 'lucide-react';
+import {
+  JOURNAL_CHANGED_EVENT,
+  clearCompletedItems,
+  getArchivedItems,
+  getCompletedItemsSummary,
+  restoreArchivedItems,
+  type ArchivedTodo,
+  type CompletedItemsSummary,
+} from '@/lib/storage';
+
+interface ClearCompletedControlProps {
+  /** `moduleKey` values used by the section's checklist items */
+  moduleKeys: string[];
+}
+
+type DialogView = 'confirm' | 'archive';
+
+/**
+ * The checklist text for an archived item, if the item is on this page
+ */
+function itemLabel(item: ArchivedTodo): string {
+  const element = document.querySelector(
+    `[data-module-key="${CSS.escape(item.moduleKey)}"][data-todo-id="${CSS.escape(item.todoId)}"] .todo-text`
+  );
+  return element?.textContent?.trim() || item.todoId;
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Clear Completed Control
+ *
+ * "Clear completed" action for a section's checklist. Completed items are
+ * moved to an archive (with their notes and completion date) after a
+ * confirmation showing how many items and notes are affected, and can be
+ * restored from the "Archived" list at any time.
+ */
+function ClearCompletedControlInner({ moduleKeys }: ClearCompletedControlProps) {
+  const dialogRef = useRef<HTMLDialogElement>(null);
+  const [summary, setSummary] = useState<CompletedItemsSummary>({ items: 0, notes: 0 });
+  const [archived, setArchived] = useState<ArchivedTodo[]>([]);
+  const [view, setView] = useState<DialogView | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState('');
+  const moduleKeysKey = moduleKeys.join('|');
+
+  const refresh = useCallback(() => {
+    const keys = moduleKeysKey.split('|');
+    Promise.all([getCompletedItemsSummary(keys), getArchivedItems(keys)])
+      .then(([nextSummary, nextArchived]) => {
+        setSummary(nextSummary);
+        setArchived(nextArchived);
+      })
+      .catch((error) => console.error('Failed to load completed items:', error));
+  }, [moduleKeysKey]);
+
+  useEffect(() => {
+    refresh();
+    window.addEventListener(JOURNAL_CHANGED_EVENT, refresh);
+    return () => window.removeEventListener(JOURNAL_CHANGED_EVENT, refresh);
+  }, [refresh]);
+
+  useEffect(() => {
+    const dialog = dialogRef.current;
+    if (!dialog) return;
+
+    if (view && !dialog.open) {
+      dialog.showModal();
+    } else if (!view && dialog.open) {
+      dialog.close();
+    }
+  }, [view]);
+
+  async function handleClear() {
+    setIsBusy(true);
+    try {
+      const count = await clearCompletedItems(moduleKeys);
+      setMessage(`${plural(count, 'completed item')} moved to the archive`);
+      setView(null);
+    } catch (error) {
+      console.error('Failed to clear completed items:', error);
+      setMessage('Could not clear completed items');
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  async function handleRestore(ids: string[]) {
+    setIsBusy(true);
+    try {
+      const count = await restoreArchivedItems(ids);
+      setMessage(`${plural(count, 'item')} restored`);
+      if (count >= archived.length) setView(null);
+    } catch (error) {
+      console.error('Failed to restore archived items:', error);
+      setMessage('Could not restore archived items');
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  if (summary.items === 0 && archived.length === 0 && !message) {
+    return null;
+  }
+
+  const buttonClass =
+    'px-4 py-2 rounded-md bg-secondary text-secondary-foreground hover:bg-secondary/90 transition-colors text-sm font-medium inline-flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed';
+  const primaryClass =
+    'px-4 py-2 rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed';
+  const cancelClass =
+    'px-4 py-2 rounded-md border border-border text-sm font-medium text-foreground hover:bg-muted transition-colors';
+
+  return (
+    <>
+      {summary.items > 0 && (
+        <button type="button" onClick={() => setView('confirm')} className={buttonClass}>
+          <Archive size={18} />
+          Clear completed ({summary.items})
+        </button>
+      )}
+      {archived.length > 0 && (
+        <button type="button" onClick={() => setView('archive')} className={buttonClass}>
+          <ArchiveRestore size={18} />
+          Archived ({archived.length})
+        </button>
+      )}
+      <p role="status" className={message ? 'self-center text-sm text-text-secondary' : 'sr-only'}>
+        {message}
+      </p>
+
+      <dialog
+        ref={dialogRef}
+        onCancel={(event) => {
+          event.preventDefault();
+          setView(null);
+        }}
+        aria-labelledby="clear-completed-title"
+        className="backdrop:bg-black backdrop:opacity-50 p-0 border-0 max-w-[520px] w-full rounded-lg shadow-modal"
+      >
+        <div className="bg-card border border-border rounded-lg overflow-hidden">
+          <div className="flex items-start justify-between gap-4 p-lg border-b border-border">
+            <h2 id="clear-completed-title" className="text-title font-medium text-foreground">
+              {view === 'archive' ? 'Archived items' : 'Clear completed items?'}
+            </h2>
+            <button
+              type="button"
+              onClick={() => setView(null)}
+              className="text-muted-foreground hover:text-foreground transition-colors"
+              aria-label="Close"
+            >
+              <X size={20} />
+            </button>
+          </div>
+
+          {view === 'confirm' && (
+            <>
+              <div className="p-lg space-y-2 text-body text-foreground">
+                <p>
+                  {plural(summary.items, 'completed item')}
+                  {summary.notes > 0 && <> ({plural(summary.notes, 'note')} attached)</>} will be
+                  moved to the archive.
+                </p>
+                <p className="text-body-small text-text-secondary">
+                  Notes and completion dates are kept. You can restore archived items from the
+                  "Archived" list at any time.
+                </p>
+              </div>
+              <div className="flex justify-end gap-2 p-lg border-t border-border">
+                <button type="button" onClick={() => setView(null)} className={cancelClass}>
+                  Cancel
+                </button>
+                <button type="button" onClick={handleClear} disabled={isBusy} className={primaryClass}>
+                  {isBusy ? 'Archiving…' : `Archive ${plural(summary.items, 'item')}`}
+                </button>
+              </div>
+            </>
+          )}
+
+          {view === 'archive' && (
+            <>
+              <ul className="max-h-80 overflow-y-auto divide-y divide-border">
+                {archived.map((item) => (
+                  <li key={item.id} className="flex items-start gap-3 px-lg py-sm">
+                    <div className="flex-1 min-w-0 text-body-small">
+                      <p className="text-foreground break-words">{itemLabel(item)}</p>
+                      <p className="text-text-muted">
+                        Archived {new Date(item.archivedAt).toLocaleDateString()}
+                        {item.notes?.trim() && ' · has notes'}
+                      </p>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => handleRestore([item.id])}
+                      disabled={isBusy}
+                      className={cancelClass}
+                    >
+                      Restore
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              <div className="flex justify-end gap-2 p-lg border-t border-border">
+                <button type="button" onClick={() => setView(null)} className={cancelClass}>
+                  Close
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleRestore(archived.map((item) => item.id))}
+                  disabled={isBusy}
+                  className={primaryClass}
+                >
+                  Restore all
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </dialog>
+    </>
+  );
+}
+
+/**
+ * Wrapper to prevent Astro's renderer probe from invoking hooks directly.
+ */
+export default function ClearCompletedControl(props: ClearCompletedControlProps) {
+  return <ClearCompletedControlInner {...props} />;
+}
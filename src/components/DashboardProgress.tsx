@@ -0,0 +1,150 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ArrowRight, BarChart3, Clock } from 'lucide-react';
+import { JOURNAL_CHANGED_EVENT } from '@/lib/storage';
+import {
+  formatLastWorkedOn,
+  getContinueSection,
+  loadProgress,
+  type ModuleProgress,
+  type ProgressStats,
+} from '@/lib/progress';
+import type { TodoManifest } from '@/lib/todoManifest';
+import ProgressBar from './ProgressBar';
+
+interface DashboardProgressProps {
+  /** Every checklist item per section, from `getTodoManifest()` at build time */
+  manifest: TodoManifest;
+}
+
+function countLabel(stats: ProgressStats): string {
+  return stats.total > 0 ? `${stats.completed}/${stats.total}` : 'No checklist';
+}
+
+/**
+ * Dashboard Progress
+ *
+ * Per-module and per-section checklist completion, when each section was last
+ * worked on, and a "Continue where you left off" link to the most recently
+ * edited unfinished section. Totals come from the build-time manifest, so
+ * items nobody has touched yet still count; updates live as data changes.
+ */
+function DashboardProgressInner({ manifest }: DashboardProgressProps) {
+  const [modules, setModules] = useState<ModuleProgress[] | null>(null);
+
+  const refresh = useCallback(() => {
+    loadProgress(manifest)
+      .then(setModules)
+      .catch((error) => console.error('Failed to load progress:', error));
+  }, [manifest]);
+
+  useEffect(() => {
+    refresh();
+    window.addEventListener(JOURNAL_CHANGED_EVENT, refresh);
+    return () => window.removeEventListener(JOURNAL_CHANGED_EVENT, refresh);
+  }, [refresh]);
+
+  const cardClass =
+    'bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6';
+  const continueSection = modules && getContinueSection(modules);
+
+  return (
+    <>
+      {continueSection && (
+        <section className={cardClass}>
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white flex items-center gap-2 mb-4">
+            <Clock className="w-5 h-5" />
+            Continue where you left off
+          </h2>
+          <a
+            href={continueSection.section.path}
+            className="block border border-gray-200 dark:border-gray-700 rounded-lg p-4 hover:border-primary hover:shadow-md transition-all group"
+          >
+            <div className="flex items-start justify-between gap-3 mb-3">
+              <div>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  Section {continueSection.section.number}
+                </p>
+                <h3 className="font-medium text-gray-900 dark:text-white group-hover:text-primary transition-colors">
+                  {continueSection.section.title}
+                </h3>
+              </div>
+              <ArrowRight className="w-5 h-5 text-gray-400 group-hover:text-primary transition-colors" />
+            </div>
+            {continueSection.total > 0 && (
+              <ProgressBar stats={continueSection} label={`${continueSection.section.title} progress`} />
+            )}
+            <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+              {[
+                continueSection.total > 0 && `${countLabel(continueSection)} items checked`,
+                continueSection.lastWorkedOn &&
+                  `Last worked on ${formatLastWorkedOn(continueSection.lastWorkedOn)}`,
+              ]
+                .filter(Boolean)
+                .join(' · ')}
+            </p>
+          </a>
+        </section>
+      )}
+
+      <section className={cardClass}>
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white flex items-center gap-2 mb-4">
+          <BarChart3 className="w-5 h-5" />
+          Your Progress
+        </h2>
+
+        {!modules ? (
+          <p className="text-sm text-gray-600 dark:text-gray-400">Loading progress…</p>
+        ) : (
+          <div className="space-y-6">
+            {modules.map((module) => (
+              <div key={module.module}>
+                <div className="flex items-baseline justify-between gap-3 mb-2">
+                  <h3 className="font-medium text-gray-900 dark:text-white">{module.title}</h3>
+                  <span className="text-sm text-gray-600 dark:text-gray-400 tabular-nums">
+                    {module.percentage}% · {countLabel(module)}
+                  </span>
+                </div>
+                <ProgressBar stats={module} label={`${module.title} progress`} />
+
+                <ul className="mt-3 divide-y divide-gray-100 dark:divide-gray-700">
+                  {module.sections.map((progress) => (
+                    <li key={progress.section.number} className="py-2">
+                      <div className="flex items-baseline justify-between gap-3">
+                        <a
+                          href={progress.section.path}
+                          className="text-sm text-gray-700 dark:text-gray-300 hover:text-primary transition-colors"
+                        >
+                          {progress.section.number} {progress.section.title}
+                        </a>
+                        <span className="shrink-0 text-xs text-gray-600 dark:text-gray-400 tabular-nums">
+                          {countLabel(progress)}
+                        </span>
+                      </div>
+                      {progress.total > 0 && (
+                        <div className="mt-1">
+                          <ProgressBar stats={progress} label={`${progress.section.title} progress`} />
+                        </div>
+                      )}
+                      <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                        {progress.lastWorkedOn
+                          ? `Last worked on ${formatLastWorkedOn(progress.lastWorkedOn)}`
+                          : 'Not started'}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+    </>
+  );
+}
+
+/**
+ * Wrapper to prevent Astro's renderer probe from invoking hooks directly.
+ */
+export default function DashboardProgress(props: DashboardProgressProps) {
+  return <DashboardProgressInner {...props} />;
+}
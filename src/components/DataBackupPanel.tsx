@@ -0,0 +1,333 @@
+import { useEffect, useRef, useState } from 'react';
+import { Download, Lock, Upload } from 'lucide-react';
+import {
+  exportAllData,
+  importAllData,
+  previewImport,
+  protectBackup,
+  validateExportedData,
+  type ExportedData,
+  type ImportMode,
+  type ImportStoreSummary,
+  type ImportSummary,
+} from '@/lib/storage';
+import { dateStamp, downloadFile, toFileSlug } from '@/lib/download';
+import { decryptBackup, isEncryptedBackup, type EncryptedBackup } from '@/lib/encryption';
+import { getActiveProfile, type Profile } from '@/lib/profiles';
+
+const STORE_LABELS: Record<'todos' | 'tables' | 'annotations' | 'archive' | 'metadata', string> = {
+  todos: 'Checklist items',
+  tables: 'Table rows',
+  annotations: 'Table notes',
+  archive: 'Archived checklist items',
+  metadata: 'Settings',
+};
+
+/**
+ * Data Backup Panel
+ *
+ * Lets a household move their toolkit data to a new device:
+ * - "Download backup" saves everything from IndexedDB as a JSON file
+ * - "Restore from backup" validates a file, previews what will change
+ *   per store, and imports it in merge or replace mode
+ *
+ * The import runs in a single IndexedDB transaction, so a bad file never
+ * leaves the database half-written. Both only touch the active profile.
+ * While the passphrase lock is on, backups are encrypted with the passphrase,
+ * which is asked for again when restoring one.
+ */
+function DataBackupPanelInner() {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [backup, setBackup] = useState<{ name: string; data: ExportedData } | null>(null);
+  const [encrypted, setEncrypted] = useState<{ name: string; backup: EncryptedBackup } | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [preview, setPreview] = useState<ImportSummary | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [status, setStatus] = useState<'idle' | 'importing' | 'done'>('idle');
+  const [profile, setProfile] = useState<Profile | null>(null);
+
+  useEffect(() => {
+    setProfile(getActiveProfile());
+  }, []);
+
+  async function handleExport() {
+    try {
+      const data = await exportAllData();
+      const payload = { ...data, exportedAt: new Date().toISOString() };
+      const slug = toFileSlug(getActiveProfile().name);
+      downloadFile(
+        `resilience-toolkit-backup-${slug ? `${slug}-` : ''}${dateStamp()}.json`,
+        await protectBackup(JSON.stringify(payload, null, 2)),
+        'application/json'
+      );
+    } catch (error) {
+      console.error('Failed to export data:', error);
+      setErrors(['Could not read your data for export']);
+    }
+  }
+
+  async function loadPreview(data: ExportedData, nextMode: ImportMode) {
+    try {
+      setPreview(await previewImport(data, nextMode));
+    } catch (error) {
+      console.error('Failed to preview import:', error);
+      setErrors(['Could not compare the backup with your current data']);
+    }
+  }
+
+  async function handleFileChange(event: React.ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow re-selecting the same file
+    if (!file) return;
+
+    setStatus('idle');
+    setErrors([]);
+    setPreview(null);
+    setBackup(null);
+    setEncrypted(null);
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await file.text());
+    } catch {
+      setErrors(['This file is not valid JSON']);
+      return;
+    }
+
+    if (isEncryptedBackup(parsed)) {
+      setEncrypted({ name: file.name, backup: parsed });
+      return;
+    }
+    await loadBackup(file.name, parsed);
+  }
+
+  async function loadBackup(name: string, parsed: unknown) {
+    const result = validateExportedData(parsed);
+    if (!result.data) {
+      setErrors(result.errors);
+      return;
+    }
+
+    setBackup({ name, data: result.data });
+    await loadPreview(result.data, mode);
+  }
+
+  async function handleDecrypt(event: React.FormEvent) {
+    event.preventDefault();
+    if (!encrypted) return;
+
+    const json = await decryptBackup(encrypted.backup, passphrase);
+    if (json === null) {
+      setErrors(['Wrong passphrase for this backup']);
+      return;
+    }
+
+    setErrors([]);
+    setPassphrase('');
+    setEncrypted(null);
+    await loadBackup(encrypted.name, JSON.parse(json));
+  }
+
+  async function handleModeChange(nextMode: ImportMode) {
+    setMode(nextMode);
+    if (backup) {
+      await loadPreview(backup.data, nextMode);
+    }
+  }
+
+  async function handleImport() {
+    if (!backup) return;
+
+    setStatus('importing');
+    try {
+      setPreview(await importAllData(backup.data, mode));
+      setStatus('done');
+      setBackup(null);
+    } catch (error) {
+      console.error('Failed to import backup:', error);
+      setErrors(['Import failed - your existing data was left unchanged']);
+      setStatus('idle');
+    }
+  }
+
+  function handleCancel() {
+    setBackup(null);
+    setEncrypted(null);
+    setPassphrase('');
+    setPreview(null);
+    setErrors([]);
+  }
+
+  function describe(summary: ImportStoreSummary): string {
+    const parts = [
+      `${summary.added} new`,
+      `${summary.overwritten} ${mode === 'merge' ? 'updated' : 'overwritten'}`,
+      `${summary.unchanged} unchanged`,
+    ];
+    if (summary.removed > 0) parts.push(`${summary.removed} removed`);
+    return parts.join(', ');
+  }
+
+  return (
+    <section className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">Backup &amp; Restore</h3>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Save a copy of your checklists and tables, or restore one on a new device.
+        {profile && ` Backups and restores only include the "${profile.name}" profile.`}
+      </p>
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={handleExport}
+          className="inline-flex items-center gap-2 px-4 py-2 rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors text-sm font-medium"
+        >
+          <Download className="w-4 h-4" />
+          Download backup
+        </button>
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          className="inline-flex items-center gap-2 px-4 py-2 rounded-md bg-secondary text-secondary-foreground hover:bg-secondary/90 transition-colors text-sm font-medium"
+        >
+          <Upload className="w-4 h-4" />
+          Restore from backup
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+      </div>
+
+      {errors.length > 0 && (
+        <div role="alert" className="mt-4 text-sm text-red-700 dark:text-red-300">
+          <ul className="list-disc pl-5 space-y-1">
+            {errors.map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {encrypted && (
+        <form onSubmit={handleDecrypt} className="mt-4 border border-border rounded-lg p-4 space-y-3">
+          <p className="flex items-center gap-2 text-sm font-medium text-gray-900 dark:text-white">
+            <Lock className="w-4 h-4 shrink-0" />
+            <span>
+              <span className="break-all">{encrypted.name}</span> is protected with a passphrase
+            </span>
+          </p>
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(event) => setPassphrase(event.target.value)}
+            placeholder="Passphrase"
+            aria-label="Backup passphrase"
+            autoComplete="current-password"
+            autoFocus
+            className="w-full px-3 py-2 rounded-md border border-border bg-white dark:bg-gray-900 text-sm text-gray-900 dark:text-white"
+          />
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={!passphrase}
+              className="px-4 py-2 rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Open backup
+            </button>
+            <button
+              type="button"
+              onClick={handleCancel}
+              className="px-4 py-2 rounded-md border border-border text-sm font-medium text-foreground hover:bg-muted transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {backup && preview && (
+        <div className="mt-4 border border-border rounded-lg p-4 space-y-3">
+          <p className="text-sm font-medium text-gray-900 dark:text-white">
+            Restoring <span className="break-all">{backup.name}</span>
+          </p>
+
+          <fieldset className="space-y-1 text-sm text-gray-700 dark:text-gray-300">
+            <legend className="sr-only">Import mode</legend>
+            <label className="flex items-start gap-2">
+              <input
+                type="radio"
+                name="import-mode"
+                checked={mode === 'merge'}
+                onChange={() => handleModeChange('merge')}
+                className="mt-1"
+              />
+              <span>
+                <strong>Merge</strong> - add the backup to what's on this device, keeping the
+                newer version of anything changed in both
+              </span>
+            </label>
+            <label className="flex items-start gap-2">
+              <input
+                type="radio"
+                name="import-mode"
+                checked={mode === 'replace'}
+                onChange={() => handleModeChange('replace')}
+                className="mt-1"
+              />
+              <span>
+                <strong>Replace</strong> - erase this device's data and use only the backup
+              </span>
+            </label>
+          </fieldset>
+
+          <dl className="text-sm space-y-1">
+            {(Object.keys(STORE_LABELS) as Array<keyof typeof STORE_LABELS>).map((store) => (
+              <div key={store} className="flex flex-wrap gap-x-2">
+                <dt className="font-medium text-gray-900 dark:text-white">{STORE_LABELS[store]}:</dt>
+                <dd className="text-gray-600 dark:text-gray-400">{describe(preview[store])}</dd>
+              </div>
+            ))}
+          </dl>
+
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={status === 'importing'}
+              className="px-4 py-2 rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {status === 'importing' ? 'Restoring…' : 'Restore'}
+            </button>
+            <button
+              type="button"
+              onClick={handleCancel}
+              disabled={status === 'importing'}
+              className="px-4 py-2 rounded-md border border-border text-sm font-medium text-foreground hover:bg-muted transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {status === 'done' && preview && (
+        <p role="status" className="mt-4 text-sm text-gray-700 dark:text-gray-300">
+          Backup restored. {describe(preview.todos)} checklist items;{' '}
+          {describe(preview.tables)} table rows.
+        </p>
+      )}
+    </section>
+  );
+}
+
+/**
+ * Wrapper to prevent Astro's renderer probe from invoking hooks directly.
+ */
+export default function DataBackupPanel() {
+  return <DataBackupPanelInner />;
+}
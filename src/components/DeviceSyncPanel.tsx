@@ -0,0 +1,458 @@
+import { Suspense, lazy, useCallback, useEffect, useRef, useState } from 'react';
+import { AlertTriangle, FileDown, FileUp, QrCode, RefreshCw, ScanLine, X } from 'lucide-react';
+import {
+  applySync,
+  canUseQrTransfer,
+  createSyncBundle,
+  getSyncCode,
+  isSyncBundle,
+  openSyncBundle,
+  planSync,
+  readSyncSender,
+  toQrFrames,
+  type ConflictChoices,
+  type SyncBundle,
+  type SyncData,
+  type SyncPlan,
+  type SyncSender,
+} from '@/lib/sync';
+import { getLockState } from '@/lib/storage';
+import { dateStamp, downloadFile, toFileSlug } from '@/lib/download';
+import { formatChangeTime } from '@/lib/changeHistory';
+import { getActiveProfile } from '@/lib/profiles';
+import type { TodoLabels } from '@/lib/todoManifest';
+import SyncConflictReview from './SyncConflictReview';
+
+// The QR encoder and decoder load after the rest of the dashboard
+const loadQrCodes = () => import('./SyncQrCodes');
+const loadQrScanner = () => import('./SyncQrScanner');
+const SyncQrCodes = lazy(loadQrCodes);
+const SyncQrScanner = lazy(loadQrScanner);
+
+interface DeviceSyncPanelProps {
+  /** Checklist item text, from `getTodoLabels()` at build time */
+  labels: TodoLabels;
+}
+
+type Step =
+  | { name: 'idle' }
+  | { name: 'showing'; frames: string[] }
+  | { name: 'scanning' }
+  | { name: 'passphrase'; bundle: SyncBundle; sender: SyncSender }
+  | { name: 'review'; sender: SyncSender; data: SyncData; plan: SyncPlan };
+
+/**
+ * Dialog used for every step of a sync (full screen on phones)
+ */
+function SyncDialog({
+  title,
+  onClose,
+  children,
+}: {
+  title: string;
+  onClose: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="device-sync-title"
+        onClick={(event) => event.stopPropagation()}
+        className="w-full max-w-[640px] max-h-full overflow-y-auto bg-card border border-border rounded-lg shadow-modal p-6 space-y-4"
+      >
+        <div className="flex items-start justify-between gap-4">
+          <h2 id="device-sync-title" className="text-lg font-semibold text-foreground">
+            {title}
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="Close"
+            className="p-1 rounded-md text-muted-foreground hover:bg-muted"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        {children}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Device Sync Panel
+ *
+ * Copies the active profile between a household's devices with no server:
+ * "Send" shows a loop of QR codes (or saves a sync file), "Receive" scans
+ * them (or opens the file), then shows what will change - with a review of
+ * items edited on both devices - before merging. See sync.ts.
+ */
+function DeviceSyncPanelInner({ labels }: DeviceSyncPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [syncCode, setSyncCode] = useState('');
+  const [isLockOn, setIsLockOn] = useState(false);
+  const [canUseQr, setCanUseQr] = useState(false);
+  const [transferPassphrase, setTransferPassphrase] = useState('');
+  const [bundlePassphrase, setBundlePassphrase] = useState('');
+  const [step, setStep] = useState<Step>({ name: 'idle' });
+  const [choices, setChoices] = useState<ConflictChoices>({});
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState('');
+
+  useEffect(() => {
+    const qrSupported = canUseQrTransfer() && Boolean(navigator.mediaDevices?.getUserMedia);
+    setCanUseQr(qrSupported);
+    if (qrSupported) {
+      // Fetched now (and cached by the service worker) so QR sync works offline later
+      Promise.all([loadQrCodes(), loadQrScanner()]).catch(() => {});
+    }
+    getSyncCode()
+      .then(setSyncCode)
+      .catch((codeError) => console.error('Failed to read sync code:', codeError));
+    getLockState()
+      .then((state) => setIsLockOn(state.status !== 'off'))
+      .catch((stateError) => console.error('Failed to read lock state:', stateError));
+  }, []);
+
+  function close() {
+    setStep({ name: 'idle' });
+    setBundlePassphrase('');
+    setChoices({});
+    setError(null);
+  }
+
+  async function buildBundle(): Promise<SyncBundle | null> {
+    setError(null);
+    setStatus('');
+    try {
+      return await createSyncBundle(transferPassphrase || undefined);
+    } catch (buildError) {
+      console.error('Failed to create sync bundle:', buildError);
+      setError(buildError instanceof Error ? buildError.message : 'Could not prepare your data');
+      return null;
+    }
+  }
+
+  async function handleShowCodes() {
+    setIsBusy(true);
+    const bundle = await buildBundle();
+    if (bundle) {
+      try {
+        setStep({ name: 'showing', frames: await toQrFrames(bundle) });
+      } catch (qrError) {
+        console.error('Failed to create sync codes:', qrError);
+        setError('Could not create QR codes - save a sync file instead');
+      }
+    }
+    setIsBusy(false);
+  }
+
+  async function handleDownload() {
+    setIsBusy(true);
+    const bundle = await buildBundle();
+    if (bundle) {
+      const slug = toFileSlug(getActiveProfile().name);
+      downloadFile(
+        `resilience-toolkit-sync-${slug ? `${slug}-` : ''}${dateStamp()}.json`,
+        JSON.stringify(bundle),
+        'application/json'
+      );
+    }
+    setIsBusy(false);
+  }
+
+  async function review(bundle: SyncBundle, sender: SyncSender, passphrase?: string) {
+    const data = await openSyncBundle(bundle, passphrase);
+    if (!data) {
+      setError('Wrong transfer passphrase');
+      return;
+    }
+    setError(null);
+    setChoices({});
+    setStep({ name: 'review', sender, data, plan: await planSync(data, sender) });
+  }
+
+  const handleReceived = useCallback(async (payload: unknown) => {
+    setError(null);
+    setStatus('');
+    if (!isSyncBundle(payload)) {
+      setStep({ name: 'idle' });
+      setError('This is not a sync file. Backup files are restored under Backup & Restore.');
+      return;
+    }
+
+    try {
+      const sender = await readSyncSender(payload);
+      if (sender.encrypted) {
+        setStep({ name: 'passphrase', bundle: payload, sender });
+      } else {
+        await review(payload, sender);
+      }
+    } catch (receiveError) {
+      console.error('Failed to read sync bundle:', receiveError);
+      setStep({ name: 'idle' });
+      setError(receiveError instanceof Error ? receiveError.message : 'Could not read the sync data');
+    }
+  }, []);
+
+  const handleScanError = useCallback((message: string) => {
+    setStep({ name: 'idle' });
+    setError(message);
+  }, []);
+
+  async function handleFileChange(event: React.ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow re-selecting the same file
+    if (!file) return;
+
+    try {
+      await handleReceived(JSON.parse(await file.text()));
+    } catch {
+      setError('This file is not valid JSON');
+    }
+  }
+
+  async function handleUnlockBundle(event: React.FormEvent) {
+    event.preventDefault();
+    if (step.name !== 'passphrase') return;
+
+    setIsBusy(true);
+    try {
+      await review(step.bundle, step.sender, bundlePassphrase);
+    } catch (openError) {
+      console.error('Failed to open sync bundle:', openError);
+      setError(openError instanceof Error ? openError.message : 'Could not open the sync data');
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  async function handleMerge() {
+    if (step.name !== 'review') return;
+
+    setIsBusy(true);
+    try {
+      const summary = await applySync(step.data, step.sender, choices);
+      const changed =
+        summary.todos.added + summary.todos.overwritten + summary.tables.added + summary.tables.overwritten;
+      close();
+      setStatus(
+        changed > 0
+          ? `Synced from "${step.sender.profileName}": ${summary.todos.added + summary.todos.overwritten} checklist items and ${summary.tables.added + summary.tables.overwritten} table rows updated. Use Undo to reverse it.`
+          : `Already up to date with "${step.sender.profileName}"`
+      );
+    } catch (mergeError) {
+      console.error('Failed to merge sync bundle:', mergeError);
+      setError('Sync failed - your data was left unchanged');
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  const buttonClass =
+    'inline-flex items-center gap-2 px-4 py-2 rounded-md border border-border text-sm font-medium text-foreground hover:bg-muted transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+  const primaryButtonClass =
+    'inline-flex items-center gap-2 px-4 py-2 rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed';
+  const inputClass =
+    'w-full px-3 py-2 rounded-md border border-border bg-white dark:bg-gray-900 text-sm text-gray-900 dark:text-white';
+
+  return (
+    <section className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+      <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900 dark:text-white mb-2">
+        <RefreshCw className="w-4 h-4" />
+        Sync Devices
+      </h3>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Keep this profile the same on two devices - no internet or account needed. Send from one
+        device, receive on the other, then swap to sync both ways.
+      </p>
+      {syncCode && (
+        <p className="text-sm text-gray-700 dark:text-gray-300 mb-4">
+          This device's code: <span className="font-mono font-medium">{syncCode}</span>
+        </p>
+      )}
+
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-gray-900 dark:text-white">Send</h4>
+          <input
+            type="password"
+            value={transferPassphrase}
+            onChange={(event) => setTransferPassphrase(event.target.value)}
+            placeholder={isLockOn ? 'Transfer passphrase (required)' : 'Transfer passphrase (optional)'}
+            aria-label="Transfer passphrase"
+            autoComplete="new-password"
+            className={inputClass}
+          />
+          <p className="text-xs text-gray-600 dark:text-gray-400">
+            {isLockOn
+              ? 'Your data is passphrase-locked, so what you send is encrypted too. Share the transfer passphrase in person.'
+              : 'Set one to encrypt what you send, for example when emailing a sync file.'}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {canUseQr && (
+              <button type="button" onClick={handleShowCodes} disabled={isBusy} className={primaryButtonClass}>
+                <QrCode className="w-4 h-4" />
+                Show QR codes
+              </button>
+            )}
+            <button type="button" onClick={handleDownload} disabled={isBusy} className={buttonClass}>
+              <FileDown className="w-4 h-4" />
+              Save sync file
+            </button>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-gray-900 dark:text-white">Receive</h4>
+          <div className="flex flex-wrap gap-2">
+            {canUseQr && (
+              <button
+                type="button"
+                onClick={() => {
+                  setError(null);
+                  setStatus('');
+                  setStep({ name: 'scanning' });
+                }}
+                className={primaryButtonClass}
+              >
+                <ScanLine className="w-4 h-4" />
+                Scan QR codes
+              </button>
+            )}
+            <button type="button" onClick={() => fileInputRef.current?.click()} className={buttonClass}>
+              <FileUp className="w-4 h-4" />
+              Open sync file
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+          </div>
+        </div>
+      </div>
+
+      {step.name === 'idle' && error && (
+        <p role="alert" className="mt-3 text-sm text-red-700 dark:text-red-300">
+          {error}
+        </p>
+      )}
+      <p role="status" className="mt-3 text-sm text-gray-700 dark:text-gray-300">
+        {status}
+      </p>
+
+      {step.name === 'showing' && (
+        <SyncDialog title="Send to another device" onClose={close}>
+          <p className="text-sm text-muted-foreground">
+            On the other device, open the Dashboard and choose <strong>Scan QR codes</strong>. Keep
+            this screen in view until it has read every code.
+          </p>
+          <Suspense fallback={<p className="text-sm text-muted-foreground">Preparing codes…</p>}>
+            <SyncQrCodes frames={step.frames} />
+          </Suspense>
+        </SyncDialog>
+      )}
+
+      {step.name === 'scanning' && (
+        <SyncDialog title="Receive from another device" onClose={close}>
+          <Suspense fallback={<p className="text-sm text-muted-foreground">Starting camera…</p>}>
+            <SyncQrScanner onComplete={handleReceived} onError={handleScanError} />
+          </Suspense>
+        </SyncDialog>
+      )}
+
+      {step.name === 'passphrase' && (
+        <SyncDialog title="Encrypted sync data" onClose={close}>
+          <form onSubmit={handleUnlockBundle} className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              Enter the transfer passphrase set on the device that sent it.
+            </p>
+            <input
+              type="password"
+              value={bundlePassphrase}
+              onChange={(event) => setBundlePassphrase(event.target.value)}
+              placeholder="Transfer passphrase"
+              aria-label="Transfer passphrase"
+              autoComplete="off"
+              autoFocus
+              className={inputClass}
+            />
+            {error && (
+              <p role="alert" className="text-sm text-red-700 dark:text-red-300">
+                {error}
+              </p>
+            )}
+            <button type="submit" disabled={!bundlePassphrase || isBusy} className={primaryButtonClass}>
+              {isBusy ? 'Opening…' : 'Open'}
+            </button>
+          </form>
+        </SyncDialog>
+      )}
+
+      {step.name === 'review' && (
+        <SyncDialog title={`Sync from "${step.sender.profileName}"`} onClose={close}>
+          <p className="text-sm text-muted-foreground">
+            Sent {formatChangeTime(step.sender.createdAt)} by the device with code{' '}
+            <span className="font-mono font-medium text-foreground">{step.sender.fingerprint}</span>.
+            It will be merged into "{getActiveProfile().name}".
+          </p>
+
+          {step.sender.trust !== 'known' && (
+            <p className="flex items-start gap-2 p-3 rounded-md bg-amber-50 dark:bg-amber-900/30 text-sm text-amber-900 dark:text-amber-100">
+              <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+              {step.sender.trust === 'new'
+                ? 'First sync with this device. Check the code above matches the one shown on it.'
+                : "This device's code has changed since the last sync. Only continue if the toolkit was reset or reinstalled there."}
+            </p>
+          )}
+
+          <ul className="text-sm text-foreground list-disc pl-5 space-y-1">
+            <li>{step.plan.added} new</li>
+            <li>{step.plan.updated} updated with changes from the other device</li>
+            <li>{step.plan.kept} kept as they are here (newer on this device)</li>
+            <li>{step.plan.unchanged} already the same</li>
+            {step.plan.settings > 0 && <li>{step.plan.settings} settings updated</li>}
+          </ul>
+
+          {step.plan.conflicts.length > 0 && (
+            <SyncConflictReview
+              conflicts={step.plan.conflicts}
+              choices={choices}
+              onChange={setChoices}
+              senderName={step.sender.profileName}
+              labels={labels}
+            />
+          )}
+
+          {error && (
+            <p role="alert" className="text-sm text-red-700 dark:text-red-300">
+              {error}
+            </p>
+          )}
+
+          <div className="flex gap-2">
+            <button type="button" onClick={handleMerge} disabled={isBusy} className={primaryButtonClass}>
+              {isBusy ? 'Merging…' : 'Merge'}
+            </button>
+            <button type="button" onClick={close} disabled={isBusy} className={buttonClass}>
+              Cancel
+            </button>
+          </div>
+        </SyncDialog>
+      )}
+    </section>
+  );
+}
+
+/**
+ * Wrapper to prevent Astro's renderer probe from invoking hooks directly.
+ */
+export default function DeviceSyncPanel(props: DeviceSyncPanelProps) {
+  return <DeviceSyncPanelInner {...props} />;
+}
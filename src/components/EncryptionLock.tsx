@@ -0,0 +1,150 @@
+import { useEffect, useState } from 'react';
+import { Lock } from 'lucide-react';
+import { ENCRYPTION_SIGNAL_KEY, getLockState, unlockStorage, type LockState } from '@/lib/storage';
+import { endSession, extendSession, getSessionLockAt } from '@/lib/encryption';
+import { getActiveProfile } from '@/lib/profiles';
+import ProfileSwitcher from './ProfileSwitcher';
+
+/** Activity pushes the auto-lock back at most this often */
+const ACTIVITY_THROTTLE_MS = 30 * 1000;
+const LOCK_CHECK_INTERVAL_MS = 30 * 1000;
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'scroll'] as const;
+
+/**
+ * Encryption Lock
+ *
+ * Covers the page with a passphrase prompt while the active profile's
+ * passphrase lock is on and this tab is locked. While unlocked it tracks
+ * activity for the auto-lock and reloads the page once it locks, so nothing
+ * decrypted stays on screen. Locking in one tab (or changing the passphrase)
+ * locks every other tab too.
+ */
+function EncryptionLockInner() {
+  const [lockState, setLockState] = useState<LockState | null>(null);
+  const [profileName, setProfileName] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  useEffect(() => {
+    setProfileName(getActiveProfile().name);
+    getLockState()
+      .then(setLockState)
+      .catch((stateError) => console.error('Failed to read lock state:', stateError));
+
+    function handleStorage(event: StorageEvent) {
+      if (event.key === ENCRYPTION_SIGNAL_KEY) {
+        endSession();
+        window.location.reload();
+      }
+    }
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  // Auto-lock after inactivity
+  useEffect(() => {
+    if (lockState?.status !== 'unlocked') return;
+    const { autoLockMinutes } = lockState;
+
+    let lastActivity = 0;
+    function handleActivity() {
+      if (Date.now() - lastActivity < ACTIVITY_THROTTLE_MS) return;
+      lastActivity = Date.now();
+      extendSession(autoLockMinutes);
+    }
+
+    function checkLock() {
+      const lockAt = getSessionLockAt();
+      if (lockAt === null || (lockAt > 0 && Date.now() > lockAt)) {
+        endSession();
+        window.location.reload();
+      }
+    }
+
+    ACTIVITY_EVENTS.forEach((type) => window.addEventListener(type, handleActivity, { passive: true }));
+    const interval = window.setInterval(checkLock, LOCK_CHECK_INTERVAL_MS);
+    return () => {
+      ACTIVITY_EVENTS.forEach((type) => window.removeEventListener(type, handleActivity));
+      window.clearInterval(interval);
+    };
+  }, [lockState]);
+
+  async function handleUnlock(event: React.FormEvent) {
+    event.preventDefault();
+    setIsChecking(true);
+    try {
+      if (await unlockStorage(passphrase)) {
+        window.location.reload();
+        return;
+      }
+      setError('Wrong passphrase');
+    } catch (unlockError) {
+      console.error('Failed to unlock storage:', unlockError);
+      setError('Could not unlock');
+    }
+    setIsChecking(false);
+  }
+
+  if (lockState?.status !== 'locked') return null;
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="encryption-lock-title"
+      className="fixed inset-0 z-[100] flex items-center justify-center bg-background/95 backdrop-blur-sm p-4"
+    >
+      <div className="w-full max-w-sm bg-card border border-border rounded-lg shadow-raised p-6 space-y-4">
+        <div className="flex items-center gap-2">
+          <Lock className="w-5 h-5 text-primary" />
+          <h2 id="encryption-lock-title" className="text-lg font-semibold text-foreground">
+            Locked
+          </h2>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Notes and table answers for "{profileName}" are encrypted on this device. Enter the
+          passphrase to see them.
+        </p>
+
+        <form onSubmit={handleUnlock} className="space-y-3">
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(event) => setPassphrase(event.target.value)}
+            placeholder="Passphrase"
+            aria-label="Passphrase"
+            autoComplete="current-password"
+            autoFocus
+            className="w-full px-3 py-2 rounded-md border border-border bg-background text-sm text-foreground"
+          />
+          {error && (
+            <p role="alert" className="text-sm text-red-700 dark:text-red-300">
+              {error}
+            </p>
+          )}
+          <button
+            type="submit"
+            disabled={!passphrase || isChecking}
+            className="w-full px-4 py-2 rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isChecking ? 'Unlocking…' : 'Unlock'}
+          </button>
+        </form>
+
+        <div className="flex items-center justify-between gap-2 border-t border-border pt-4 text-sm text-muted-foreground">
+          <span>Switch profile</span>
+          <ProfileSwitcher />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Wrapper to prevent Astro's renderer probe from invoking hooks directly.
+ */
+export default function EncryptionLock() {
+  return <EncryptionLockInner />;
+}
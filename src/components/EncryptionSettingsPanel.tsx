@@ -0,0 +1,261 @@
+import { useEffect, useState } from 'react';
+import { Lock } from 'lucide-react';
+import {
+  changePassphrase,
+  disableEncryption,
+  enableEncryption,
+  getLockState,
+  lockStorage,
+  setAutoLockMinutes,
+  type LockState,
+} from '@/lib/storage';
+import { AUTO_LOCK_OPTIONS, MIN_PASSPHRASE_LENGTH } from '@/lib/encryption';
+
+type FormMode = 'enable' | 'change' | 'disable';
+
+const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+function autoLockLabel(minutes: number): string {
+  if (minutes === 0) return 'Only when the tab is closed';
+  return minutes < 60 ? `After ${minutes} minutes` : `After ${minutes / 60} hour`;
+}
+
+/**
+ * Encryption Settings Panel
+ *
+ * Turns the passphrase lock on or off for the active profile. While it's on,
+ * notes and table answers (medications, contacts, access needs...) are
+ * encrypted on this device and backups are encrypted too; checklist progress
+ * and due dates stay readable so reminders keep working.
+ */
+function EncryptionSettingsPanelInner() {
+  const [lockState, setLockState] = useState<LockState | null>(null);
+  const [form, setForm] = useState<FormMode | null>(null);
+  const [current, setCurrent] = useState('');
+  const [next, setNext] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [autoLockMinutes, setAutoLock] = useState(DEFAULT_AUTO_LOCK_MINUTES);
+  const [isBusy, setIsBusy] = useState(false);
+  const [status, setStatus] = useState('');
+
+  async function refresh() {
+    const state = await getLockState();
+    setLockState(state);
+    if (state.status !== 'off') setAutoLock(state.autoLockMinutes);
+  }
+
+  useEffect(() => {
+    refresh().catch((error) => console.error('Failed to load lock settings:', error));
+  }, []);
+
+  function openForm(mode: FormMode | null) {
+    setForm(mode);
+    setCurrent('');
+    setNext('');
+    setConfirmation('');
+    setStatus('');
+  }
+
+  async function handleSubmit(event: React.FormEvent) {
+    event.preventDefault();
+    if (!form) return;
+
+    if (form !== 'disable' && next !== confirmation) {
+      setStatus("The passphrases don't match");
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      if (form === 'enable') {
+        await enableEncryption(next, autoLockMinutes);
+        setStatus('Passphrase lock is on');
+      } else if (form === 'change') {
+        if (!(await changePassphrase(current, next))) {
+          setStatus('Current passphrase is wrong');
+          return;
+        }
+        setStatus('Passphrase changed');
+      } else {
+        if (!(await disableEncryption(current))) {
+          setStatus('Passphrase is wrong');
+          return;
+        }
+        setStatus('Passphrase lock is off');
+      }
+      setForm(null);
+      await refresh();
+    } catch (error) {
+      console.error('Failed to update passphrase lock:', error);
+      setStatus(error instanceof Error ? error.message : 'Could not update the passphrase lock');
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  async function handleAutoLockChange(minutes: number) {
+    setAutoLock(minutes);
+    if (lockState?.status !== 'unlocked') return;
+    try {
+      await setAutoLockMinutes(minutes);
+      setStatus('Auto-lock saved. It applies from the next page load.');
+    } catch (error) {
+      console.error('Failed to save auto-lock:', error);
+      setStatus('Could not save auto-lock');
+    }
+  }
+
+  function handleLockNow() {
+    lockStorage();
+    window.location.reload();
+  }
+
+  const inputClass =
+    'w-full px-3 py-2 rounded-md border border-border bg-white dark:bg-gray-900 text-sm text-gray-900 dark:text-white';
+  const isOn = lockState !== null && lockState.status !== 'off';
+
+  return (
+    <section className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+      <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900 dark:text-white mb-2">
+        <Lock className="w-4 h-4" />
+        Passphrase Lock
+      </h3>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Encrypt notes and table answers - medications, contacts, access needs - so a shared or lost
+        device doesn't reveal them. Backups are encrypted with the same passphrase.
+      </p>
+
+      {lockState && (
+        <div className="space-y-3">
+          <label className="block text-sm text-gray-700 dark:text-gray-300">
+            <span className="block mb-1 font-medium">Lock automatically</span>
+            <select
+              value={autoLockMinutes}
+              disabled={lockState.status === 'locked'}
+              onChange={(event) => handleAutoLockChange(Number(event.target.value))}
+              className={`${inputClass} disabled:opacity-50`}
+            >
+              {AUTO_LOCK_OPTIONS.map((minutes) => (
+                <option key={minutes} value={minutes}>
+                  {autoLockLabel(minutes)}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {form ? (
+            <form onSubmit={handleSubmit} className="space-y-2">
+              {form !== 'enable' && (
+                <input
+                  type="password"
+                  value={current}
+                  onChange={(event) => setCurrent(event.target.value)}
+                  placeholder={form === 'change' ? 'Current passphrase' : 'Passphrase'}
+                  aria-label={form === 'change' ? 'Current passphrase' : 'Passphrase'}
+                  autoComplete="current-password"
+                  required
+                  className={inputClass}
+                />
+              )}
+              {form !== 'disable' && (
+                <>
+                  <input
+                    type="password"
+                    value={next}
+                    onChange={(event) => setNext(event.target.value)}
+                    placeholder={`New passphrase (at least ${MIN_PASSPHRASE_LENGTH} characters)`}
+                    aria-label="New passphrase"
+                    autoComplete="new-password"
+                    minLength={MIN_PASSPHRASE_LENGTH}
+                    required
+                    className={inputClass}
+                  />
+                  <input
+                    type="password"
+                    value={confirmation}
+                    onChange={(event) => setConfirmation(event.target.value)}
+                    placeholder="Repeat new passphrase"
+                    aria-label="Repeat new passphrase"
+                    autoComplete="new-password"
+                    required
+                    className={inputClass}
+                  />
+                  <p className="text-xs text-gray-600 dark:text-gray-400">
+                    There is no way to recover a forgotten passphrase. Without it, encrypted notes
+                    and backups can't be opened.
+                  </p>
+                </>
+              )}
+              <div className="flex gap-2">
+                <button
+                  type="submit"
+                  disabled={isBusy}
+                  className="px-4 py-2 rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isBusy
+                    ? 'Working…'
+                    : form === 'enable'
+                      ? 'Turn on'
+                      : form === 'change'
+                        ? 'Change passphrase'
+                        : 'Turn off and decrypt'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => openForm(null)}
+                  disabled={isBusy}
+                  className="px-4 py-2 rounded-md border border-border text-sm font-medium text-foreground hover:bg-muted transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          ) : isOn ? (
+            <div className="flex flex-wrap gap-2">
+              <button
+                type="button"
+                onClick={handleLockNow}
+                className="px-4 py-2 rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors text-sm font-medium"
+              >
+                Lock now
+              </button>
+              <button
+                type="button"
+                onClick={() => openForm('change')}
+                className="px-4 py-2 rounded-md border border-border text-sm font-medium text-foreground hover:bg-muted transition-colors"
+              >
+                Change passphrase
+              </button>
+              <button
+                type="button"
+                onClick={() => openForm('disable')}
+                className="px-4 py-2 rounded-md border border-border text-sm font-medium text-foreground hover:bg-muted transition-colors"
+              >
+                Turn off
+              </button>
+            </div>
+          ) : (
+            <button
+              type="button"
+              onClick={() => openForm('enable')}
+              className="px-4 py-2 rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors text-sm font-medium"
+            >
+              Set a passphrase
+            </button>
+          )}
+        </div>
+      )}
+
+      <p role="status" className="mt-3 text-sm text-gray-700 dark:text-gray-300">
+        {status}
+      </p>
+    </section>
+  );
+}
+
+/**
+ * Wrapper to prevent Astro's renderer probe from invoking hooks directly.
+ */
+export default function EncryptionSettingsPanel() {
+  return <EncryptionSettingsPanelInner />;
+}
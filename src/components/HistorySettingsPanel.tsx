@@ -0,0 +1,122 @@
+import { useEffect, useState } from 'react';
+import { History } from 'lucide-react';
+import {
+  DEFAULT_JOURNAL_RETENTION,
+  clearJournal,
+  getJournalRetention,
+  setJournalRetention,
+  type JournalRetention,
+} from '@/lib/storage';
+
+const MAX_ENTRIES_OPTIONS = [100, 500, 1000, 5000];
+const MAX_AGE_OPTIONS = [
+  { days: 7, label: '1 week' },
+  { days: 30, label: '1 month' },
+  { days: 90, label: '3 months' },
+  { days: 365, label: '1 year' },
+];
+
+/**
+ * History Settings Panel
+ *
+ * Controls how much change history (the undo/redo journal and the per-item
+ * "History" views) is kept on this device, and lets the household clear it.
+ */
+function HistorySettingsPanelInner() {
+  const [retention, setRetention] = useState<JournalRetention>(DEFAULT_JOURNAL_RETENTION);
+  const [status, setStatus] = useState('');
+
+  useEffect(() => {
+    getJournalRetention()
+      .then(setRetention)
+      .catch((error) => console.error('Failed to load history settings:', error));
+  }, []);
+
+  async function handleChange(next: JournalRetention) {
+    setRetention(next);
+    try {
+      await setJournalRetention(next);
+      setStatus('History settings saved');
+    } catch (error) {
+      console.error('Failed to save history settings:', error);
+      setStatus('Could not save history settings');
+    }
+  }
+
+  async function handleClear() {
+    if (!window.confirm('Delete all change history on this device? Undo will no longer be available for past changes.')) {
+      return;
+    }
+    try {
+      await clearJournal();
+      setStatus('Change history cleared');
+    } catch (error) {
+      console.error('Failed to clear history:', error);
+      setStatus('Could not clear change history');
+    }
+  }
+
+  const selectClass =
+    'w-full px-3 py-2 rounded-md border border-border bg-white dark:bg-gray-900 text-sm text-gray-900 dark:text-white';
+
+  return (
+    <section className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+      <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900 dark:text-white mb-2">
+        <History className="w-4 h-4" />
+        Change History
+      </h3>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Edits to checklists and tables are recorded so you can undo them and see what changed.
+      </p>
+
+      <div className="space-y-3">
+        <label className="block text-sm text-gray-700 dark:text-gray-300">
+          <span className="block mb-1 font-medium">Keep up to</span>
+          <select
+            value={retention.maxEntries}
+            onChange={(event) => handleChange({ ...retention, maxEntries: Number(event.target.value) })}
+            className={selectClass}
+          >
+            {MAX_ENTRIES_OPTIONS.map((count) => (
+              <option key={count} value={count}>
+                {count.toLocaleString()} changes
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block text-sm text-gray-700 dark:text-gray-300">
+          <span className="block mb-1 font-medium">For at most</span>
+          <select
+            value={retention.maxAgeDays}
+            onChange={(event) => handleChange({ ...retention, maxAgeDays: Number(event.target.value) })}
+            className={selectClass}
+          >
+            {MAX_AGE_OPTIONS.map((option) => (
+              <option key={option.days} value={option.days}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          type="button"
+          onClick={handleClear}
+          className="px-4 py-2 rounded-md border border-border text-sm font-medium text-foreground hover:bg-muted transition-colors"
+        >
+          Clear history
+        </button>
+      </div>
+
+      <p role="status" className="mt-3 text-sm text-gray-700 dark:text-gray-300">
+        {status}
+      </p>
+    </section>
+  );
+}
+
+/**
+ * Wrapper to prevent Astro's renderer probe from invoking hooks directly.
+ */
+export default function HistorySettingsPanel() {
+  return <HistorySettingsPanelInner />;
+}
@@ -0,0 +1,129 @@
+import { useEffect, useState } from 'react';
+import { Bell } from 'lucide-react';
+import {
+  DEFAULT_NOTIFICATION_SETTINGS,
+  getNotificationSettings,
+  getReminderPermission,
+  setNotificationSettings,
+  type NotificationSettings,
+  type ReminderPermission,
+} from '@/lib/notifications';
+
+const LEAD_TIME_OPTIONS = [
+  { days: 0, label: 'On the due date' },
+  { days: 1, label: '1 day before' },
+  { days: 3, label: '3 days before' },
+  { days: 7, label: '1 week before' },
+];
+
+/**
+ * Notification Settings Panel
+ *
+ * Opt-in reminders for scheduled checklist items (stored water, batteries,
+ * medications...). Notifications are shown by this device's service worker
+ * from local data only.
+ */
+function NotificationSettingsPanelInner() {
+  const [settings, setSettings] = useState<NotificationSettings>(DEFAULT_NOTIFICATION_SETTINGS);
+  const [permission, setPermission] = useState<ReminderPermission>('default');
+  const [status, setStatus] = useState('');
+
+  useEffect(() => {
+    setPermission(getReminderPermission());
+    getNotificationSettings()
+      .then(setSettings)
+      .catch((error) => console.error('Failed to load reminder settings:', error));
+  }, []);
+
+  async function handleChange(next: NotificationSettings) {
+    setSettings(next);
+    try {
+      const result = await setNotificationSettings(next);
+      setPermission(result.permission);
+
+      if (next.enabled && result.permission !== 'granted') {
+        setSettings({ ...next, enabled: false });
+        setStatus(
+          result.permission === 'denied'
+            ? 'Notifications are blocked for this site. Allow them in your browser settings to turn on reminders.'
+            : 'Reminders need permission to show notifications'
+        );
+      } else if (!next.enabled) {
+        setStatus('Reminders turned off');
+      } else if (result.periodic) {
+        setStatus('Reminders are on. This device checks for due items in the background.');
+      } else {
+        setStatus('Reminders are on. Due items are checked whenever you open the toolkit.');
+      }
+    } catch (error) {
+      console.error('Failed to save reminder settings:', error);
+      setStatus('Could not save reminder settings');
+    }
+  }
+
+  const selectClass =
+    'w-full px-3 py-2 rounded-md border border-border bg-white dark:bg-gray-900 text-sm text-gray-900 dark:text-white disabled:opacity-50';
+
+  return (
+    <section className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+      <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900 dark:text-white mb-2">
+        <Bell className="w-4 h-4" />
+        Maintenance Reminders
+      </h3>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Get a notification on this device when checklist items with a due date - like rotating
+        stored water or refilling prescriptions - come due. Works offline.
+      </p>
+
+      {permission === 'unsupported' ? (
+        <p className="text-sm text-gray-700 dark:text-gray-300">
+          This browser can't show notifications.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={settings.enabled}
+              onChange={(event) => handleChange({ ...settings, enabled: event.target.checked })}
+              className="h-4 w-4"
+            />
+            Remind me when items are due
+          </label>
+          <label className="block text-sm text-gray-700 dark:text-gray-300">
+            <span className="block mb-1 font-medium">When</span>
+            <select
+              value={settings.leadDays}
+              disabled={!settings.enabled}
+              onChange={(event) => handleChange({ ...settings, leadDays: Number(event.target.value) })}
+              className={selectClass}
+            >
+              {LEAD_TIME_OPTIONS.map((option) => (
+                <option key={option.days} value={option.days}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          {permission === 'denied' && !status && (
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              Notifications are blocked for this site. Allow them in your browser settings to turn on
+              reminders.
+            </p>
+          )}
+        </div>
+      )}
+
+      <p role="status" className="mt-3 text-sm text-gray-700 dark:text-gray-300">
+        {status}
+      </p>
+    </section>
+  );
+}
+
+/**
+ * Wrapper to prevent Astro's renderer probe from invoking hooks directly.
+ */
+export default function NotificationSettingsPanel() {
+  return <NotificationSettingsPanelInner />;
+}
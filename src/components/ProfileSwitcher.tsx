@@ -0,0 +1,292 @@
+import { useEffect, useRef, useState } from 'react';
+import { Building2, Check, ChevronDown, Home, Pencil, Plus, Trash2, Users } from 'lucide-react';
+import {
+  ACTIVE_PROFILE_KEY,
+  PROFILES_KEY,
+  PROFILE_TYPE_LABELS,
+  createProfile,
+  deleteProfile,
+  getActiveProfile,
+  getProfiles,
+  setActiveProfile,
+  updateProfile,
+  type Profile,
+  type ProfileType,
+} from '@/lib/profiles';
+import { flushPendingWrites } from '@/lib/storage';
+
+interface ProfileSwitcherProps {
+  /** Which edge of the button the menu lines up with */
+  align?: 'left' | 'right';
+}
+
+const PROFILE_ICONS: Record<ProfileType, typeof Home> = {
+  household: Home,
+  hub: Building2,
+  organization: Users,
+};
+
+const PROFILE_TYPES = Object.keys(PROFILE_TYPE_LABELS) as ProfileType[];
+
+/**
+ * Let this tab's pending saves finish in the profile they were made in
+ */
+async function finishSaving(): Promise<void> {
+  try {
+    await flushPendingWrites();
+  } catch (error) {
+    console.error('Failed to finish saving before switching profiles:', error);
+  }
+}
+
+/**
+ * Profile Switcher
+ *
+ * Header menu for choosing whose data the toolkit shows - a household, a
+ * community hub or an organization - and for adding, renaming and deleting
+ * profiles. Switching reloads the page (and any other open tabs) so every
+ * component reads from the newly active profile.
+ */
+function ProfileSwitcherInner({ align = 'right' }: ProfileSwitcherProps) {
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [active, setActive] = useState<Profile | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [form, setForm] = useState<{ mode: 'create' | 'rename'; name: string; type: ProfileType } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  function refresh() {
+    setProfiles(getProfiles());
+    setActive(getActiveProfile());
+  }
+
+  useEffect(() => {
+    refresh();
+
+    // Follow profile changes made in other tabs
+    function handleStorage(event: StorageEvent) {
+      if (event.key === ACTIVE_PROFILE_KEY) {
+        finishSaving().then(() => window.location.reload());
+      } else if (event.key === null || event.key === PROFILES_KEY) {
+        refresh();
+      }
+    }
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  // Close when clicking outside the menu or pressing Escape
+  useEffect(() => {
+    if (!isOpen) return;
+
+    function handleClick(event: MouseEvent) {
+      if (!menuRef.current?.contains(event.target as Node)) setIsOpen(false);
+    }
+    function handleKeyDown(event: KeyboardEvent) {
+      if (event.key === 'Escape') setIsOpen(false);
+    }
+
+    document.addEventListener('mousedown', handleClick);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleClick);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  async function handleSwitch(profile: Profile) {
+    if (profile.id === active?.id) {
+      setIsOpen(false);
+      return;
+    }
+    await finishSaving();
+    setActiveProfile(profile.id);
+    window.location.reload();
+  }
+
+  async function handleSubmit(event: React.FormEvent) {
+    event.preventDefault();
+    if (!form || !active) return;
+
+    try {
+      if (form.mode === 'create') {
+        const profile = createProfile(form.name, form.type);
+        await finishSaving();
+        setActiveProfile(profile.id);
+        window.location.reload();
+        return;
+      }
+      updateProfile(active.id, { name: form.name, type: form.type });
+      setForm(null);
+      setError(null);
+      refresh();
+    } catch (submitError) {
+      setError(submitError instanceof Error ? submitError.message : 'Could not save profile');
+    }
+  }
+
+  async function handleDelete(profile: Profile) {
+    if (
+      !window.confirm(
+        `Delete "${profile.name}" and all of its checklists, tables and notes from this device? This can't be undone.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await deleteProfile(profile.id);
+      setError(null);
+      refresh();
+    } catch (deleteError) {
+      console.error('Failed to delete profile:', deleteError);
+      setError('Could not delete the profile');
+    }
+  }
+
+  const ActiveIcon = active ? PROFILE_ICONS[active.type] : Home;
+  const inputClass =
+    'w-full px-2 py-1.5 rounded-md border border-border bg-background text-sm text-foreground';
+
+  return (
+    <div ref={menuRef} className="relative inline-block">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        aria-label={active ? `Profile: ${active.name}` : 'Profile'}
+        className="inline-flex items-center gap-1.5 max-w-[12rem] px-3 py-1.5 rounded-full border border-border text-sm font-medium text-foreground hover:bg-muted transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+      >
+        <ActiveIcon className="w-4 h-4 shrink-0" strokeWidth={1.5} />
+        <span className="truncate">{active?.name ?? 'Profile'}</span>
+        <ChevronDown className="w-4 h-4 shrink-0" strokeWidth={1.5} />
+      </button>
+
+      {isOpen && active && (
+        <div
+          role="menu"
+          className={`absolute ${align === 'right' ? 'right-0' : 'left-0'} z-50 mt-2 w-72 rounded-md border border-border bg-card shadow-raised py-1`}
+        >
+          <p className="px-4 pt-2 pb-1 text-xs font-medium text-muted-foreground">
+            Each profile keeps its own checklists, tables and notes
+          </p>
+          {profiles.map((profile) => {
+            const Icon = PROFILE_ICONS[profile.type];
+            const isActive = profile.id === active.id;
+            return (
+              <div key={profile.id} className="flex items-center hover:bg-muted transition-colors">
+                <button
+                  type="button"
+                  role="menuitemradio"
+                  aria-checked={isActive}
+                  onClick={() => handleSwitch(profile)}
+                  className="flex-1 min-w-0 flex items-center gap-2 px-4 py-2 text-left text-sm text-foreground"
+                >
+                  <Icon className="w-4 h-4 shrink-0" strokeWidth={1.5} />
+                  <span className="min-w-0">
+                    <span className="block truncate font-medium">{profile.name}</span>
+                    <span className="block text-xs text-muted-foreground">
+                      {PROFILE_TYPE_LABELS[profile.type]}
+                    </span>
+                  </span>
+                  {isActive && <Check className="w-4 h-4 ml-auto shrink-0 text-primary" />}
+                </button>
+                {isActive ? (
+                  <button
+                    type="button"
+                    onClick={() => setForm({ mode: 'rename', name: profile.name, type: profile.type })}
+                    aria-label={`Rename ${profile.name}`}
+                    title="Rename"
+                    className="p-2 mr-2 rounded-md text-muted-foreground hover:text-foreground"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(profile)}
+                    aria-label={`Delete ${profile.name}`}
+                    title="Delete"
+                    className="p-2 mr-2 rounded-md text-muted-foreground hover:text-destructive"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            );
+          })}
+
+          <div className="border-t border-border mt-1 pt-1">
+            {form ? (
+              <form onSubmit={handleSubmit} className="px-4 py-2 space-y-2">
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(event) => setForm({ ...form, name: event.target.value })}
+                  placeholder="Profile name"
+                  aria-label="Profile name"
+                  autoFocus
+                  className={inputClass}
+                />
+                <select
+                  value={form.type}
+                  onChange={(event) => setForm({ ...form, type: event.target.value as ProfileType })}
+                  aria-label="Profile type"
+                  className={inputClass}
+                >
+                  {PROFILE_TYPES.map((type) => (
+                    <option key={type} value={type}>
+                      {PROFILE_TYPE_LABELS[type]}
+                    </option>
+                  ))}
+                </select>
+                <div className="flex gap-2">
+                  <button
+                    type="submit"
+                    className="px-3 py-1.5 rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors text-sm font-medium"
+                  >
+                    {form.mode === 'create' ? 'Create and switch' : 'Save'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setForm(null);
+                      setError(null);
+                    }}
+                    className="px-3 py-1.5 rounded-md border border-border text-sm font-medium text-foreground hover:bg-muted transition-colors"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </form>
+            ) : (
+              <button
+                type="button"
+                role="menuitem"
+                onClick={() => setForm({ mode: 'create', name: '', type: 'household' })}
+                className="flex w-full items-center gap-2 px-4 py-2 text-left text-sm text-foreground hover:bg-muted transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+                New profile
+              </button>
+            )}
+            {error && (
+              <p role="alert" className="px-4 pb-2 text-xs text-red-700 dark:text-red-300">
+                {error}
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Wrapper to prevent Astro's renderer probe from invoking hooks directly.
+ */
+export default function ProfileSwitcher(props: ProfileSwitcherProps) {
+  return <ProfileSwitcherInner {...props} />;
+}
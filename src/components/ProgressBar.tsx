@@ -0,0 +1,31 @@
+import type { ProgressStats } from '@/lib/progress';
+
+interface ProgressBarProps {
+  stats: Pick<ProgressStats, 'total' | 'completed' | 'percentage'>;
+  label: string;
+  className?: string;
+}
+
+/**
+ * Progress Bar
+ *
+ * Checklist completion bar used by the dashboard and section pages.
+ */
+export default function ProgressBar({ stats, label, className = '' }: ProgressBarProps) {
+  return (
+    <div
+      role="progressbar"
+      aria-label={label}
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={stats.percentage}
+      aria-valuetext={`${stats.completed} of ${stats.total} items checked`}
+      className={`h-2 w-full rounded-full bg-gray-100 dark:bg-gray-700 overflow-hidden ${className}`}
+    >
+      <div
+        className="h-full rounded-full bg-primary transition-[width]"
+        style={{ width: `${stats.percentage}%` }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { useEffect, useRef, useState } from 'react';
+import { ChevronDown, Download } from 'lucide-react';
+import {
+  EXPORT_FORMATS,
+  buildSectionWorksheet,
+  collectOutline,
+  serializeWorksheet,
+  worksheetFilename,
+  type ExportFormat,
+  type SectionInfo,
+} from '@/lib/sectionExport';
+import { dateStamp, downloadFile } from '@/lib/download';
+
+interface SectionExportMenuProps {
+  section: SectionInfo;
+}
+
+/**
+ * Section Export Menu
+ *
+ * "Export local data" button for ModuleLayout. Offers the current section's
+ * checklist, table answers and notes as JSON, CSV, Markdown or a printable
+ * HTML worksheet that follows the page's own headings and prompts.
+ */
+function SectionExportMenuInner({ section }: SectionExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking outside the menu or pressing Escape
+  useEffect(() => {
+    if (!isOpen) return;
+
+    function handleClick(event: MouseEvent) {
+      if (!menuRef.current?.contains(event.target as Node)) setIsOpen(false);
+    }
+    function handleKeyDown(event: KeyboardEvent) {
+      if (event.key === 'Escape') setIsOpen(false);
+    }
+
+    document.addEventListener('mousedown', handleClick);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleClick);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  async function handleExport(format: ExportFormat) {
+    setIsOpen(false);
+    setIsExporting(true);
+    setError(null);
+
+    try {
+      const content = document.querySelector('[data-section-content]') ?? document.body;
+      const worksheet = await buildSectionWorksheet(section, collectOutline(content));
+      downloadFile(
+        worksheetFilename(section, format, dateStamp()),
+        serializeWorksheet(worksheet, format),
+        EXPORT_FORMATS[format].mimeType
+      );
+    } catch (exportError) {
+      console.error('Failed to export section data:', exportError);
+      setError('Export failed. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  }
+
+  return (
+    <div ref={menuRef} className="relative inline-block">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={isExporting}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        className="px-4 py-2 rounded-md bg-secondary text-secondary-foreground hover:bg-secondary/90 transition-colors text-sm font-medium inline-flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Download size={16} />
+        <span>{isExporting ? 'Exporting…' : 'Export local data'}</span>
+        <ChevronDown size={16} />
+      </button>
+
+      {isOpen && (
+        <div
+          role="menu"
+          className="absolute left-0 z-30 mt-2 w-64 rounded-md border border-border bg-card shadow-raised py-1"
+        >
+          {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+            <button
+              key={format}
+              type="button"
+              role="menuitem"
+              onClick={() => handleExport(format)}
+              className="block w-full text-left px-4 py-2 text-sm text-foreground hover:bg-muted transition-colors"
+            >
+              {EXPORT_FORMATS[format].label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <p role="alert" className="mt-1 text-xs text-red-700 dark:text-red-300">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Wrapper to prevent Astro's renderer probe from invoking hooks directly.
+ */
+export default function SectionExportMenu(props: SectionExportMenuProps) {
+  return <SectionExportMenuInner {...props} />;
+}
@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useState } from 'react';
+import { JOURNAL_CHANGED_EVENT } from '@/lib/storage';
+import { getSectionStorage } from '@/lib/sectionLookup';
+import { loadSectionProgress, type SectionProgress } from '@/lib/progress';
+import ProgressBar from './ProgressBar';
+
+interface SectionProgressMeterProps {
+  /** Section number from `SectionData.number` (e.g., "1.1") */
+  sectionNumber: string;
+  /** The section's entry in the build-time checklist manifest */
+  todos: Record<string, string[]>;
+}
+
+/**
+ * Section Progress Meter
+ *
+ * Sticky "N of M items checked" bar under the site header on section pages.
+ * The total comes from the build-time manifest, so the server render has the
+ * same size as the loaded meter and nothing shifts when it hydrates.
+ */
+function SectionProgressMeterInner({ sectionNumber, todos }: SectionProgressMeterProps) {
+  const [progress, setProgress] = useState<SectionProgress | null>(null);
+  const total = Object.values(todos).reduce((sum, ids) => sum + ids.length, 0);
+
+  const refresh = useCallback(() => {
+    const section = getSectionStorage(sectionNumber);
+    if (!section) return;
+
+    loadSectionProgress(section, todos)
+      .then(setProgress)
+      .catch((error) => console.error('Failed to load section progress:', error));
+  }, [sectionNumber, todos]);
+
+  useEffect(() => {
+    refresh();
+    window.addEventListener(JOURNAL_CHANGED_EVENT, refresh);
+    return () => window.removeEventListener(JOURNAL_CHANGED_EVENT, refresh);
+  }, [refresh]);
+
+  const stats = progress ?? { total, completed: 0, percentage: 0 };
+
+  return (
+    <div className="no-print sticky top-12 z-40 -mx-4 mb-8 px-4 py-sm bg-background/95 backdrop-blur border-b border-border">
+      <div className="flex items-baseline justify-between gap-3 mb-xs text-body-small">
+        <span className="font-medium text-foreground">Section progress</span>
+        <span className="text-text-secondary tabular-nums">
+          {progress ? `${stats.completed} of ${stats.total}` : `– of ${total}`} items checked
+        </span>
+      </div>
+      <ProgressBar stats={stats} label={`Section ${sectionNumber} progress`} />
+    </div>
+  );
+}
+
+/**
+ * Wrapper to prevent Astro's renderer probe from invoking hooks directly.
+ */
+export default function SectionProgressMeter(props: SectionProgressMeterProps) {
+  return <SectionProgressMeterInner {...props} />;
+}
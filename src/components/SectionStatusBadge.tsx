@@ -0,0 +1,69 @@
+import { useCallback, useEffect, useState } from 'react';
+import { JOURNAL_CHANGED_EVENT } from '@/lib/storage';
+import { getSectionStorage } from '@/lib/sectionLookup';
+import { getSectionStatus, loadSectionProgress, type SectionStatus } from '@/lib/progress';
+
+interface SectionStatusBadgeProps {
+  /** Section number from `SectionData.number` (e.g., "1.1") */
+  sectionNumber: string;
+  /** The section's entry in the build-time checklist manifest */
+  todos: Record<string, string[]>;
+}
+
+const STATUS_LABELS: Record<SectionStatus, string> = {
+  'not-started': 'Not started',
+  'in-progress': 'In progress',
+  complete: 'Complete',
+};
+
+// Same variants as Badge.astro (neutral / warning / success)
+const STATUS_STYLES: Record<SectionStatus, string> = {
+  'not-started': 'bg-muted text-muted-foreground border border-border shadow-ambient',
+  'in-progress':
+    'bg-amber-100 text-amber-900 dark:bg-amber-900/20 dark:text-amber-400 border border-amber-200 dark:border-amber-900/30 shadow-ambient',
+  complete: 'bg-primary/20 text-primary border border-primary/30 shadow-ambient',
+};
+
+/**
+ * Section Status Badge
+ *
+ * "Not started" / "In progress" / "Complete" pill for a section card on a
+ * module overview page. Renders an invisible placeholder of the same size
+ * until the status is loaded, so the card doesn't shift when it hydrates.
+ */
+function SectionStatusBadgeInner({ sectionNumber, todos }: SectionStatusBadgeProps) {
+  const [status, setStatus] = useState<SectionStatus | null>(null);
+
+  const refresh = useCallback(() => {
+    const section = getSectionStorage(sectionNumber);
+    if (!section) return;
+
+    loadSectionProgress(section, todos)
+      .then((progress) => setStatus(getSectionStatus(progress)))
+      .catch((error) => console.error('Failed to load section status:', error));
+  }, [sectionNumber, todos]);
+
+  useEffect(() => {
+    refresh();
+    window.addEventListener(JOURNAL_CHANGED_EVENT, refresh);
+    return () => window.removeEventListener(JOURNAL_CHANGED_EVENT, refresh);
+  }, [refresh]);
+
+  return (
+    <span
+      className={`inline-flex items-center justify-center min-w-[7.5rem] px-2.5 py-0.5 rounded-full text-uppercase-accent uppercase font-medium whitespace-nowrap transition-colors duration-default ease-default ${
+        STATUS_STYLES[status ?? 'not-started']
+      } ${status ? '' : 'invisible'}`}
+      aria-hidden={status ? undefined : true}
+    >
+      {STATUS_LABELS[status ?? 'not-started']}
+    </span>
+  );
+}
+
+/**
+ * Wrapper to prevent Astro's renderer probe from invoking hooks directly.
+ */
+export default function SectionStatusBadge(props: SectionStatusBadgeProps) {
+  return <SectionStatusBadgeInner {...props} />;
+}
@@ -0,0 +1,115 @@
+import { describeField, formatChangeTime } from '@/lib/changeHistory';
+import { getSectionForModuleKey } from '@/lib/sectionLookup';
+import type { ConflictChoices, SyncConflict, SyncSide } from '@/lib/sync';
+import type { Todo } from '@/lib/storage';
+import type { TodoLabels } from '@/lib/todoManifest';
+
+interface SyncConflictReviewProps {
+  conflicts: SyncConflict[];
+  choices: ConflictChoices;
+  onChange: (choices: ConflictChoices) => void;
+  /** Name of the profile on the other device */
+  senderName: string;
+  /** Checklist item text, from `getTodoLabels()` at build time */
+  labels: TodoLabels;
+}
+
+const STORE_NAMES: Record<SyncConflict['store'], string> = {
+  todos: 'Checklist item',
+  tables: 'Table row',
+  annotations: 'Table note',
+};
+
+function conflictTitle(conflict: SyncConflict, labels: TodoLabels): string {
+  const { moduleKey } = conflict.incoming;
+  const section = getSectionForModuleKey(moduleKey);
+  const name =
+    conflict.store === 'todos'
+      ? (labels[conflict.incoming.id] ?? (conflict.incoming as Todo).todoId)
+      : STORE_NAMES[conflict.store];
+  return section ? `${name} (${section.number} ${section.title})` : name;
+}
+
+function changedTime(at: string): string {
+  return at ? `changed ${formatChangeTime(at)}` : 'no change time';
+}
+
+/**
+ * Sync Conflict Review
+ *
+ * Lists fields (a checkbox, a note, a table cell) changed on both devices
+ * since they last synced, with each version side by side, and lets the
+ * household keep one per field. The version changed last is picked to start
+ * with.
+ */
+export default function SyncConflictReview({
+  conflicts,
+  choices,
+  onChange,
+  senderName,
+  labels,
+}: SyncConflictReviewProps) {
+  function chooseAll(side: SyncSide) {
+    onChange(Object.fromEntries(conflicts.map((conflict) => [conflict.key, side])));
+  }
+
+  const optionClass =
+    'flex items-start gap-2 p-2 rounded-md border border-border text-sm text-foreground cursor-pointer has-[:checked]:border-primary has-[:checked]:bg-primary/5';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm font-medium text-foreground">
+          {conflicts.length === 1 ? '1 entry was' : `${conflicts.length} entries were`} changed on
+          both devices
+        </p>
+        <div className="flex gap-2 text-sm">
+          <button type="button" onClick={() => chooseAll('local')} className="underline text-primary">
+            Keep all from this device
+          </button>
+          <button type="button" onClick={() => chooseAll('incoming')} className="underline text-primary">
+            Take all from "{senderName}"
+          </button>
+        </div>
+      </div>
+
+      <ul className="space-y-3">
+        {conflicts.map((conflict) => {
+          const choice = choices[conflict.key] ?? conflict.suggested;
+          return (
+            <li key={conflict.key}>
+              <fieldset className="space-y-1">
+                <legend className="text-sm font-medium text-foreground mb-1">
+                  {conflictTitle(conflict, labels)}
+                </legend>
+                {(['local', 'incoming'] as const).map((side) => (
+                  <label key={side} className={optionClass}>
+                    <input
+                      type="radio"
+                      name={conflict.key}
+                      checked={choice === side}
+                      onChange={() => onChange({ ...choices, [conflict.key]: side })}
+                      className="mt-1"
+                    />
+                    <span className="min-w-0">
+                      <span className="block font-medium">
+                        {side === 'local' ? 'This device' : `"${senderName}"`}
+                        <span className="font-normal text-muted-foreground">
+                          {' '}
+                          · {changedTime(side === 'local' ? conflict.localAt : conflict.incomingAt)}
+                        </span>
+                      </span>
+                      <span className="block break-words text-muted-foreground">
+                        {describeField(conflict.store, conflict.field, conflict[side])}
+                      </span>
+                    </span>
+                  </label>
+                ))}
+              </fieldset>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { useEffect, useState } from 'react';
+import { toDataURL } from 'qrcode';
+
+interface SyncQrCodesProps {
+  /** QR code texts from `toQrFrames()` */
+  frames: string[];
+}
+
+/** How long each code stays up; slow enough for a phone camera to catch every one */
+const FRAME_INTERVAL_MS = 600;
+
+/**
+ * Sync QR Codes
+ *
+ * Shows a sync bundle as a loop of QR codes for another device's
+ * `SyncQrScanner` to read. The loop repeats until the dialog is closed, so
+ * codes the scanner missed come round again.
+ */
+export default function SyncQrCodes({ frames }: SyncQrCodesProps) {
+  const [images, setImages] = useState<string[]>([]);
+  const [index, setIndex] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(
+      frames.map((frame) => toDataURL(frame, { errorCorrectionLevel: 'L', margin: 2, width: 320 }))
+    )
+      .then((urls) => {
+        if (!cancelled) setImages(urls);
+      })
+      .catch((error) => console.error('Failed to draw QR codes:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [frames]);
+
+  useEffect(() => {
+    if (images.length < 2) return;
+    const interval = window.setInterval(
+      () => setIndex((current) => (current + 1) % images.length),
+      FRAME_INTERVAL_MS
+    );
+    return () => window.clearInterval(interval);
+  }, [images]);
+
+  if (images.length === 0) {
+    return <p className="text-sm text-muted-foreground">Preparing codes…</p>;
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <img
+        src={images[index]}
+        alt={`Sync code ${index + 1} of ${images.length}`}
+        width={320}
+        height={320}
+        className="w-full max-w-[320px] h-auto rounded-md bg-white"
+      />
+      <p className="text-sm text-muted-foreground" aria-live="off">
+        Code {index + 1} of {images.length}
+      </p>
+    </div>
+  );
+}
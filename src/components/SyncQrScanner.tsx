@@ -0,0 +1,115 @@
+import { useEffect, useRef, useState } from 'react';
+import jsQR from 'jsqr';
+import { fromQrFrames, parseQrFrame, type QrFrame } from '@/lib/sync';
+
+interface SyncQrScannerProps {
+  /** Called once with the bundle's parsed JSON when every code has been read */
+  onComplete: (payload: unknown) => void;
+  onError: (message: string) => void;
+}
+
+/** How often a camera frame is checked for a code */
+const SCAN_INTERVAL_MS = 150;
+/** Camera frames are scaled down to this width before decoding */
+const SCAN_WIDTH = 640;
+
+/**
+ * Sync QR Scanner
+ *
+ * Reads the looping QR codes shown by `SyncQrCodes` with the device camera,
+ * in any order, until it has all of them.
+ */
+export default function SyncQrScanner({ onComplete, onError }: SyncQrScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [progress, setProgress] = useState<{ received: number; total: number } | null>(null);
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let frameRequest = 0;
+    let lastScan = 0;
+    let done = false;
+    const frames = new Map<number, QrFrame>();
+    let transferId: string | null = null;
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+
+    function stop() {
+      done = true;
+      cancelAnimationFrame(frameRequest);
+      stream?.getTracks().forEach((track) => track.stop());
+    }
+
+    function scan(time: number) {
+      if (done) return;
+      frameRequest = requestAnimationFrame(scan);
+
+      const video = videoRef.current;
+      if (!video || !context || video.readyState < video.HAVE_CURRENT_DATA || time - lastScan < SCAN_INTERVAL_MS) {
+        return;
+      }
+      lastScan = time;
+
+      const scale = Math.min(1, SCAN_WIDTH / video.videoWidth);
+      canvas.width = Math.round(video.videoWidth * scale);
+      canvas.height = Math.round(video.videoHeight * scale);
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+      const image = context.getImageData(0, 0, canvas.width, canvas.height);
+      const code = jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' });
+      const frame = code && parseQrFrame(code.data);
+      if (!frame) return;
+
+      // The other device started over with a new bundle
+      if (frame.id !== transferId) {
+        transferId = frame.id;
+        frames.clear();
+      }
+      frames.set(frame.index, frame);
+      setProgress({ received: frames.size, total: frame.total });
+
+      if (frames.size === frame.total) {
+        stop();
+        fromQrFrames([...frames.values()])
+          .then(onComplete)
+          .catch((error) => {
+            console.error('Failed to read sync codes:', error);
+            onError('Could not read the sync codes - try again');
+          });
+      }
+    }
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment' }, audio: false })
+      .then(async (mediaStream) => {
+        stream = mediaStream;
+        if (done || !videoRef.current) {
+          stop();
+          return;
+        }
+        videoRef.current.srcObject = mediaStream;
+        await videoRef.current.play();
+        frameRequest = requestAnimationFrame(scan);
+      })
+      .catch((error) => {
+        console.error('Failed to start camera:', error);
+        onError('Could not use the camera. Allow camera access, or use a sync file instead.');
+      });
+
+    return stop;
+  }, [onComplete, onError]);
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <video
+        ref={videoRef}
+        muted
+        playsInline
+        className="w-full max-w-[320px] aspect-square object-cover rounded-md bg-black"
+      />
+      <p role="status" className="text-sm text-muted-foreground">
+        {progress
+          ? `Read ${progress.received} of ${progress.total} codes`
+          : 'Point the camera at the codes on the other device'}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import { useEffect, useState } from 'react';
+import { CloudOff, RefreshCw, Users } from 'lucide-react';
+import {
+  TEAM_SYNC_EVENT,
+  TEAM_SYNC_ORIGIN,
+  connectTeamSync,
+  disconnectTeamSync,
+  getTeamSyncStatus,
+  syncWithTeam,
+  type TeamSyncStatus,
+} from '@/lib/teamSync';
+import { formatChangeTime } from '@/lib/changeHistory';
+import { getActiveProfile } from '@/lib/profiles';
+
+/**
+ * Team Sync Panel
+ *
+ * Connects this profile to a sync server the hub runs itself, using the
+ * server address and team code from the hub coordinator. Once connected,
+ * changes sync in the background (see teamSync.ts); this shows how the last
+ * sync went and can sync now or disconnect.
+ */
+function TeamSyncPanelInner() {
+  const [connection, setConnection] = useState<TeamSyncStatus | null>(null);
+  const [serverAddress, setServerAddress] = useState(TEAM_SYNC_ORIGIN ?? '');
+  const [teamCode, setTeamCode] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState('');
+
+  useEffect(() => {
+    const refresh = () =>
+      getTeamSyncStatus()
+        .then(setConnection)
+        .catch((statusError) => console.error('Failed to read team sync status:', statusError));
+    refresh();
+    window.addEventListener(TEAM_SYNC_EVENT, refresh);
+    return () => window.removeEventListener(TEAM_SYNC_EVENT, refresh);
+  }, []);
+
+  async function handleConnect(event: React.FormEvent) {
+    event.preventDefault();
+    setIsBusy(true);
+    setError(null);
+    setStatus('');
+    try {
+      await connectTeamSync(serverAddress, teamCode);
+      setTeamCode('');
+      setStatus('Connected. Changes now sync whenever this device is online.');
+    } catch (connectError) {
+      setError(connectError instanceof Error ? connectError.message : 'Could not connect');
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  async function handleSyncNow() {
+    setIsBusy(true);
+    setStatus('');
+    try {
+      const result = await syncWithTeam();
+      if (result) {
+        setStatus(`Synced: ${result.pushed} changes sent, ${result.pulled} received`);
+      } else {
+        setStatus('Unlock your data to sync');
+      }
+    } catch {
+      // The status line shows why
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  async function handleDisconnect() {
+    if (
+      !window.confirm(
+        `Stop syncing "${getActiveProfile().name}" with ${connection?.spaceName}? Everything stays on this device.`
+      )
+    ) {
+      return;
+    }
+    try {
+      await disconnectTeamSync();
+      setStatus('Disconnected');
+    } catch (disconnectError) {
+      console.error('Failed to disconnect team sync:', disconnectError);
+      setStatus('Could not disconnect');
+    }
+  }
+
+  const buttonClass =
+    'inline-flex items-center gap-2 px-4 py-2 rounded-md border border-border text-sm font-medium text-foreground hover:bg-muted transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+  const primaryButtonClass =
+    'inline-flex items-center gap-2 px-4 py-2 rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed';
+  const inputClass =
+    'w-full px-3 py-2 rounded-md border border-border bg-white dark:bg-gray-900 text-sm text-gray-900 dark:text-white';
+
+  return (
+    <section className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+      <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900 dark:text-white mb-2">
+        <Users className="w-4 h-4" />
+        Team Sync
+      </h3>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        For hubs that run their own sync server: share this profile's checklists and tables with
+        your team. Everything is encrypted with your team code before it leaves this device.
+      </p>
+
+      {connection ? (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-700 dark:text-gray-300">
+            Syncing with <span className="font-medium">{connection.spaceName}</span> on{' '}
+            <span className="break-all">{connection.serverUrl}</span>
+          </p>
+          {connection.lastError ? (
+            <p className="flex items-start gap-2 text-sm text-red-700 dark:text-red-300">
+              <CloudOff className="w-4 h-4 mt-0.5 shrink-0" />
+              {connection.lastError}. Changes are kept and sent once the server can be reached.
+            </p>
+          ) : (
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {connection.lastSyncedAt
+                ? `Last synced ${formatChangeTime(connection.lastSyncedAt)}`
+                : 'Not synced yet'}
+            </p>
+          )}
+          <div className="flex flex-wrap gap-2">
+            <button type="button" onClick={handleSyncNow} disabled={isBusy} className={primaryButtonClass}>
+              <RefreshCw className="w-4 h-4" />
+              {isBusy ? 'Syncing…' : 'Sync now'}
+            </button>
+            <button type="button" onClick={handleDisconnect} disabled={isBusy} className={buttonClass}>
+              Disconnect
+            </button>
+          </div>
+        </div>
+      ) : (
+        <form onSubmit={handleConnect} className="space-y-2">
+          <input
+            type="url"
+            value={serverAddress}
+            onChange={(event) => setServerAddress(event.target.value)}
+            placeholder="Server address, e.g. https://hub.example.org"
+            aria-label="Sync server address"
+            required
+            className={inputClass}
+          />
+          <input
+            type="password"
+            value={teamCode}
+            onChange={(event) => setTeamCode(event.target.value)}
+            placeholder="Team code"
+            aria-label="Team code"
+            autoComplete="off"
+            required
+            className={inputClass}
+          />
+          <p className="text-xs text-gray-600 dark:text-gray-400">
+            Ask your hub coordinator for both. Anyone with the team code can read and change what
+            the team shares.
+          </p>
+          {error && (
+            <p role="alert" className="text-sm text-red-700 dark:text-red-300">
+              {error}
+            </p>
+          )}
+          <button type="submit" disabled={isBusy} className={primaryButtonClass}>
+            {isBusy ? 'Connecting…' : 'Connect'}
+          </button>
+        </form>
+      )}
+
+      <p role="status" className="mt-3 text-sm text-gray-700 dark:text-gray-300">
+        {status}
+      </p>
+    </section>
+  );
+}
+
+/**
+ * Wrapper to prevent Astro's renderer probe from invoking hooks directly.
+ */
+export default function TeamSyncPanel() {
+  return <TeamSyncPanelInner />;
+}
@@ -0,0 +1,138 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Redo2, Undo2 } from 'lucide-react';
+import {
+  JOURNAL_CHANGED_EVENT,
+  getUndoRedoState,
+  redoLastChange,
+  undoLastChange,
+  type ChangeSummary,
+} from '@/lib/storage';
+
+/** Focus targets where Ctrl+Z should keep undoing typed text instead */
+function isTextEditingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+/**
+ * Undo/Redo Bar
+ *
+ * App-wide undo and redo for checklist, table and note changes, backed by the
+ * change journal in storage.ts (so it works across pages and reloads).
+ * Appears in the bottom-left corner once there is something to undo.
+ *
+ * Shortcuts: Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z or Ctrl+Y to redo - except
+ * while typing in a field, where the browser's own text undo applies.
+ */
+function UndoRedoBarInner() {
+  const [undo, setUndo] = useState<ChangeSummary | null>(null);
+  const [redo, setRedo] = useState<ChangeSummary | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const refresh = useCallback(() => {
+    getUndoRedoState()
+      .then((state) => {
+        setUndo(state.undo);
+        setRedo(state.redo);
+      })
+      .catch((error) => console.error('Failed to read undo history:', error));
+  }, []);
+
+  const step = useCallback(async (direction: 'undo' | 'redo') => {
+    setIsBusy(true);
+    try {
+      const change = direction === 'undo' ? await undoLastChange() : await redoLastChange();
+      if (change) {
+        setMessage(`${direction === 'undo' ? 'Undid' : 'Redid'}: ${change.label}`);
+      }
+    } catch (error) {
+      console.error(`Failed to ${direction}:`, error);
+      setMessage(`Could not ${direction} the last change`);
+    } finally {
+      setIsBusy(false);
+      refresh();
+    }
+  }, [refresh]);
+
+  useEffect(() => {
+    refresh();
+    window.addEventListener(JOURNAL_CHANGED_EVENT, refresh);
+    window.addEventListener('focus', refresh);
+    return () => {
+      window.removeEventListener(JOURNAL_CHANGED_EVENT, refresh);
+      window.removeEventListener('focus', refresh);
+    };
+  }, [refresh]);
+
+  useEffect(() => {
+    function handleKeyDown(event: KeyboardEvent) {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || isTextEditingTarget(event.target)) {
+        return;
+      }
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey && undo) {
+        event.preventDefault();
+        step('undo');
+      } else if (((key === 'z' && event.shiftKey) || key === 'y') && redo) {
+        event.preventDefault();
+        step('redo');
+      }
+    }
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo, step]);
+
+  // Clear the status message after a few seconds
+  useEffect(() => {
+    if (!message) return;
+    const timeoutId = setTimeout(() => setMessage(''), 4000);
+    return () => clearTimeout(timeoutId);
+  }, [message]);
+
+  const buttonClass =
+    'inline-flex items-center gap-xs px-md py-xs rounded-full text-body-small font-medium text-foreground hover:bg-muted transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <div className="no-print fixed bottom-md left-md z-40 flex flex-col items-start gap-xs">
+      <p role="status" className={message ? 'px-md py-xs rounded-lg bg-card border border-border shadow-raised text-body-small' : 'sr-only'}>
+        {message}
+      </p>
+      {(undo || redo) && (
+        <div className="flex items-center gap-xs p-xs rounded-full bg-card border border-border shadow-raised">
+          <button
+            type="button"
+            onClick={() => step('undo')}
+            disabled={!undo || isBusy}
+            className={buttonClass}
+            title={undo ? `Undo: ${undo.label} (Ctrl+Z)` : 'Nothing to undo'}
+            aria-label={undo ? `Undo: ${undo.label}` : 'Nothing to undo'}
+          >
+            <Undo2 size={16} aria-hidden="true" />
+            Undo
+          </button>
+          <button
+            type="button"
+            onClick={() => step('redo')}
+            disabled={!redo || isBusy}
+            className={buttonClass}
+            title={redo ? `Redo: ${redo.label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+            aria-label={redo ? `Redo: ${redo.label}` : 'Nothing to redo'}
+          >
+            <Redo2 size={16} aria-hidden="true" />
+            Redo
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Wrapper to prevent Astro's renderer probe from invoking hooks directly.
+ */
+export default function UndoRedoBar() {
+  return <UndoRedoBarInner />;
+}
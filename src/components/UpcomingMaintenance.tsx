@@ -0,0 +1,125 @@
+import { useCallback, useEffect, useState } from 'react';
+import { CalendarClock, Check } from 'lucide-react';
+import {
+  JOURNAL_CHANGED_EVENT,
+  getScheduledItems,
+  toggleTodo,
+  type ScheduledTodo,
+} from '@/lib/storage';
+import { getSectionForModuleKey } from '@/lib/sectionLookup';
+import { daysUntil, describeDueIn, describeRecurrence, formatDueDate } from '@/lib/recurrence';
+import type { TodoLabels } from '@/lib/todoManifest';
+
+interface UpcomingMaintenanceProps {
+  /** Checklist item text, from `getTodoLabels()` at build time */
+  labels: TodoLabels;
+}
+
+/** How many items to list before "N more scheduled" */
+const MAX_ITEMS = 8;
+
+/**
+ * Upcoming Maintenance
+ *
+ * Dashboard list of checklist items with a due date - overdue first, then
+ * soonest - across every section. Checked repeating items are listed with
+ * their next due date; items that are due can be marked done from here.
+ */
+function UpcomingMaintenanceInner({ labels }: UpcomingMaintenanceProps) {
+  const [items, setItems] = useState<ScheduledTodo[] | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const refresh = useCallback(() => {
+    getScheduledItems()
+      .then((scheduled) => setItems(scheduled.filter((todo) => !todo.completed || todo.recurrence)))
+      .catch((error) => console.error('Failed to load scheduled items:', error));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    window.addEventListener(JOURNAL_CHANGED_EVENT, refresh);
+    return () => window.removeEventListener(JOURNAL_CHANGED_EVENT, refresh);
+  }, [refresh]);
+
+  async function handleDone(todo: ScheduledTodo) {
+    setBusyId(todo.id);
+    try {
+      await toggleTodo(todo.moduleKey, todo.todoId);
+    } catch (error) {
+      console.error('Failed to mark item done:', error);
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <section className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+      <h2 className="text-xl font-semibold text-gray-900 dark:text-white flex items-center gap-2 mb-4">
+        <CalendarClock className="w-5 h-5" />
+        Upcoming Maintenance
+      </h2>
+
+      {!items ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400">Loading…</p>
+      ) : items.length === 0 ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Nothing scheduled. Use the calendar button on any checklist item to give it a due date or
+          repeat it - for example, rotating stored water every 6 months.
+        </p>
+      ) : (
+        <>
+          <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+            {items.slice(0, MAX_ITEMS).map((todo) => {
+              const { dueAt } = todo;
+              const section = getSectionForModuleKey(todo.moduleKey);
+              const isDue = !todo.completed && daysUntil(dueAt) <= 0;
+
+              return (
+                <li key={todo.id} className="flex items-start gap-3 py-3">
+                  <div className="flex-1 min-w-0">
+                    <a
+                      href={section?.path}
+                      className="text-sm font-medium text-gray-900 dark:text-white hover:text-primary transition-colors"
+                    >
+                      {labels[todo.id] ?? todo.todoId}
+                    </a>
+                    <p className="mt-0.5 text-xs text-gray-600 dark:text-gray-400">
+                      <span className={isDue ? 'text-destructive font-medium' : undefined}>
+                        {todo.completed ? `Next due ${formatDueDate(dueAt)}` : describeDueIn(dueAt)}
+                      </span>
+                      {todo.recurrence && ` · ${describeRecurrence(todo.recurrence)}`}
+                      {section && ` · ${section.number} ${section.title}`}
+                    </p>
+                  </div>
+                  {isDue && (
+                    <button
+                      type="button"
+                      onClick={() => handleDone(todo)}
+                      disabled={busyId === todo.id}
+                      className="shrink-0 inline-flex items-center gap-1 px-3 py-1.5 rounded-md border border-border text-sm font-medium text-foreground hover:bg-muted transition-colors disabled:opacity-50"
+                    >
+                      <Check className="w-4 h-4" />
+                      Done
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+          {items.length > MAX_ITEMS && (
+            <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+              {items.length - MAX_ITEMS} more scheduled
+            </p>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
+
+/**
+ * Wrapper to prevent Astro's renderer probe from invoking hooks directly.
+ */
+export default function UpcomingMaintenance(props: UpcomingMaintenanceProps) {
+  return <UpcomingMaintenanceInner {...props} />;
+}
@@ -0,0 +1,190 @@
+/**
+ * Section Storage Registry
+ *
+ * Maps every toolkit section (by `SectionData.number`) to the IndexedDB keys
+ * its interactive blocks actually use. Pages pick their own `moduleKey` values
+ * (e.g. "emergency-preparedness-kits" on 1.1), so these cannot be derived from
+ * the URL - keep this file in sync when adding a `<Todo>` or `<EditableTable>`
+ * with a new `moduleKey` or `tableId`.
+ *
+ * Client-safe: no Node-only imports (unlike downloads.ts).
+ */
+
+export type ModuleId = 'knowing-your-community' | 'emergency-preparedness' | 'baseline-resilience';
+
+export interface SectionTableRef {
+  moduleKey: string;
+  tableId: string;
+}
+
+export interface SectionStorage {
+  number: string;           // "0.1", "1.1", "2.3" (matches SectionData.number)
+  title: string;            // "Emergency preparedness kits"
+  module: ModuleId;         // Parent module
+  path: string;             // "/modules/emergency-preparedness/1-1-kits"
+  moduleKeys: string[];     // `moduleKey` values used by Todos/tables on the page
+  tables: SectionTableRef[]; // Every EditableTable on the page
+}
+
+export const moduleTitles: Record<ModuleId, string> = {
+  'knowing-your-community': 'Knowing Your Community',
+  'emergency-preparedness': 'Emergency Preparedness and Response',
+  'baseline-resilience': 'Baseline Resilience',
+};
+
+export const sectionRegistry: SectionStorage[] = [
+  // Section 0: Knowing Your Community
+  {
+    number: '0.1',
+    title: 'Knowing Your Community',
+    module: 'knowing-your-community',
+    path: '/modules/knowing-your-community',
+    moduleKeys: ['knowing-community', 'bringing-people-together'],
+    tables: [
+      { moduleKey: 'knowing-community', tableId: 'place-characteristics' },
+      { moduleKey: 'knowing-community', tableId: 'community-roles' },
+      { moduleKey: 'knowing-community', tableId: 'community-dynamics' },
+      { moduleKey: 'knowing-community', tableId: 'systems' },
+      { moduleKey: 'knowing-community', tableId: 'ecosystem' },
+      { moduleKey: 'knowing-community', tableId: 'going-deeper' },
+    ],
+  },
+
+  // Section 1: Emergency Preparedness and Response
+  {
+    number: '1.1',
+    title: 'Emergency preparedness kits',
+    module: 'emergency-preparedness',
+    path: '/modules/emergency-preparedness/1-1-kits',
+    moduleKeys: ['emergency-preparedness-kits'],
+    tables: [],
+  },
+  {
+    number: '1.2',
+    title: 'Food and water',
+    module: 'emergency-preparedness',
+    path: '/modules/emergency-preparedness/1-2-food-water',
+    moduleKeys: ['food-and-water'],
+    tables: [],
+  },
+  {
+    number: '1.3',
+    title: 'First aid and medical',
+    module: 'emergency-preparedness',
+    path: '/modules/emergency-preparedness/1-3-medical',
+    moduleKeys: ['first-aid-medical'],
+    tables: [],
+  },
+  {
+    number: '1.4',
+    title: 'Power supply',
+    module: 'emergency-preparedness',
+    path: '/modules/emergency-preparedness/1-4-power',
+    moduleKeys: ['power-supply'],
+    tables: [],
+  },
+  {
+    number: '1.5',
+    title: 'Warming/Cooling/Emergency Shelter',
+    module: 'emergency-preparedness',
+    path: '/modules/emergency-preparedness/1-5-shelter',
+    moduleKeys: ['warming-cooling-shelter'],
+    tables: [],
+  },
+  {
+    number: '1.6',
+    title: 'Vehicles and Equipment',
+    module: 'emergency-preparedness',
+    path: '/modules/emergency-preparedness/1-6-vehicles',
+    moduleKeys: ['vehicles-equipment'],
+    tables: [],
+  },
+  {
+    number: '1.7',
+    title: 'Sanitation and Hygiene',
+    module: 'emergency-preparedness',
+    path: '/modules/emergency-preparedness/1-7-sanitation',
+    moduleKeys: ['sanitation-hygiene'],
+    tables: [],
+  },
+  {
+    number: '1.8',
+    title: 'Populations with Specific Needs',
+    module: 'emergency-preparedness',
+    path: '/modules/emergency-preparedness/1-8-special-populations',
+    moduleKeys: [
+      'children-disaster',
+      'senior-citizens',
+      'people-with-disabilities',
+      'lep-populations',
+      'farm-animals',
+    ],
+    tables: [],
+  },
+  {
+    number: '1.9',
+    title: 'Community Emergency Response Plans',
+    module: 'emergency-preparedness',
+    path: '/modules/emergency-preparedness/1-9-response-plans',
+    moduleKeys: [],
+    tables: [],
+  },
+  {
+    number: '1.10',
+    title: 'Volunteer Management',
+    module: 'emergency-preparedness',
+    path: '/modules/emergency-preparedness/1-10-volunteers',
+    moduleKeys: [],
+    tables: [],
+  },
+  {
+    number: '1.11',
+    title: 'Flood Recovery Supplies and Work',
+    module: 'emergency-preparedness',
+    path: '/modules/emergency-preparedness/1-11-flood-recovery',
+    moduleKeys: ['flood-recovery'],
+    tables: [],
+  },
+  {
+    number: '1.12',
+    title: 'Mutual Aid/Neighbor to Neighbor (N2N)',
+    module: 'emergency-preparedness',
+    path: '/modules/emergency-preparedness/1-12-mutual-aid',
+    moduleKeys: ['mutual-aid'],
+    tables: [],
+  },
+  {
+    number: '1.13',
+    title: 'Financial Resources',
+    module: 'emergency-preparedness',
+    path: '/modules/emergency-preparedness/1-13-financial-resources',
+    moduleKeys: [],
+    tables: [],
+  },
+
+  // Section 2: Baseline Resilience
+  {
+    number: '2.1',
+    title: 'Basic Needs',
+    module: 'baseline-resilience',
+    path: '/modules/baseline-resilience/2-1-basic-needs',
+    moduleKeys: ['basic-needs'],
+    tables: [],
+  },
+  {
+    number: '2.2',
+    title: 'Shared Tools',
+    module: 'baseline-resilience',
+    path: '/modules/baseline-resilience/2-2-shared-tools',
+    moduleKeys: ['shared-tools'],
+    tables: [],
+  },
+  {
+    number: '2.3',
+    title: 'Community Building',
+    module: 'baseline-resilience',
+    path: '/modules/baseline-resilience/2-3-community-building',
+    moduleKeys: ['community-building'],
+    tables: [],
+  },
+];
@@ -0,0 +1,69 @@
+import { useEffect, useState } from 'react';
+import { JOURNAL_CHANGED_EVENT, type JournalEntry } from '@/lib/storage';
+import { describeDevice, describeEntry, formatChangeTime } from '@/lib/changeHistory';
+
+interface ChangeHistoryListProps {
+  /** Reads the entries to show, newest first */
+  load: () => Promise<JournalEntry[]>;
+  /** Optional prefix per entry, e.g. which table row it belongs to */
+  context?: (entry: JournalEntry) => string | null;
+  title: string;
+}
+
+/**
+ * ChangeHistoryList - "History" panel for a checklist item or table
+ *
+ * Lists change journal entries (when, which device, what changed) and
+ * refreshes whenever a new change is journaled.
+ */
+export default function ChangeHistoryList({ load, context, title }: ChangeHistoryListProps) {
+  const [entries, setEntries] = useState<JournalEntry[] | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+
+    function refresh() {
+      load()
+        .then((result) => {
+          if (mounted) setEntries(result);
+        })
+        .catch((error) => console.error('Failed to load history:', error));
+    }
+
+    refresh();
+    window.addEventListener(JOURNAL_CHANGED_EVENT, refresh);
+    return () => {
+      mounted = false;
+      window.removeEventListener(JOURNAL_CHANGED_EVENT, refresh);
+    };
+  }, [load]);
+
+  return (
+    <div className="no-print border border-border rounded-lg shadow-card bg-card p-md">
+      <p className="text-body-small font-medium text-text-secondary mb-xs">{title}</p>
+      {entries === null ? (
+        <p className="text-body-small text-text-muted">Loading…</p>
+      ) : entries.length === 0 ? (
+        <p className="text-body-small text-text-muted">No changes recorded yet.</p>
+      ) : (
+        <ol className="max-h-64 overflow-y-auto divide-y divide-border text-body-small">
+          {entries.map((entry) => {
+            const prefix = context?.(entry);
+            return (
+              <li key={entry.seq} className="py-xs">
+                <div className="text-text-muted">
+                  <time dateTime={entry.at}>{formatChangeTime(entry.at)}</time> ·{' '}
+                  {describeDevice(entry.deviceId)}
+                </div>
+                <div className="text-text-primary break-words">
+                  {prefix && <span className="font-medium">{prefix}: </span>}
+                  {describeEntry(entry)}
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
-import { useEffect, useState } from 'react';
-import { getTodo, toggleTodo } from '@/lib/storage';
+import { toggleTodo } from '@/lib/storage';
+import { useTodo } from '@/lib/storageHooks';
 
 interface ChecklistRowProps {
   id: string;
@@ -31,34 +31,12 @@ export default function ChecklistRow({
   children,
   metadata,
 }: ChecklistRowProps) {
-  const [completed, setCompleted] = useState(false);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    async function loadState() {
-      try {
-        const todo = await getTodo(moduleKey, id);
-        setCompleted(todo?.completed ?? false);
-      } catch (error) {
-        console.error('Failed to load checklist row state:', error);
-      } finally {
-        setLoading(false);
-      }
-    }
-
-    loadState();
-  }, [id, moduleKey]);
+  const { todo, loading } = useTodo(moduleKey, id);
+  const completed = todo?.completed ?? false;
 
   async function handleToggle() {
     try {
-      const newCompleted = await toggleTodo(moduleKey, id);
-      setCompleted(newCompleted);
-
-      window.dispatchEvent(
-        new CustomEvent('todo-changed', {
-          detail: { moduleKey, id, completed: newCompleted },
-        })
-      );
+      await toggleTodo(moduleKey, id);
     } catch (error) {
       console.error('Failed to toggle checklist row:', error);
     }
@@ -87,6 +65,8 @@ export default function ChecklistRow({
     <div
       role="checkbox"
       aria-checked={completed}
+      data-module-key={moduleKey}
+      data-todo-id={id}
       tabIndex={0}
       onClick={handleToggle}
       onKeyDown={handleKeyDown}
@@ -1,10 +1,13 @@
-import React, { type ReactNode } from 'react';
+import React, { useRef, useState, type ReactNode } from 'react';
+import { batchUpdateChecklistItems } from '@/lib/storage';
 
 interface ChecklistSectionProps {
   title?: string;
   description?: ReactNode;
   children: ReactNode;
   className?: string;
+  /** Show "Check all" / "Uncheck all" for the items in this section */
+  bulkActions?: boolean;
 }
 
 /**
@@ -12,36 +15,101 @@ interface ChecklistSectionProps {
  *
  * Part of the Interactive Table design system. Used to organize checklist
  * items into logical sections with titles and descriptions.
+ *
+ * "Check all" / "Uncheck all" update every `Todo` or `ChecklistRow` inside
+ * the section in a single transaction (one undo step); the items reload
+ * themselves from the change event.
  */
 export default function ChecklistSection({
   title,
   description,
   children,
   className = '',
+  bulkActions = true,
 }: ChecklistSectionProps) {
+  const groupRef = useRef<HTMLDivElement>(null);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [announcement, setAnnouncement] = useState('');
+
+  async function setAllCompleted(completed: boolean) {
+    const items = new Map<string, { moduleKey: string; todoId: string; completed: boolean }>();
+    groupRef.current
+      ?.querySelectorAll<HTMLElement>('[data-module-key][data-todo-id]')
+      .forEach(({ dataset }) => {
+        const { moduleKey = '', todoId = '' } = dataset;
+        items.set(`${moduleKey}-${todoId}`, { moduleKey, todoId, completed });
+      });
+    if (items.size === 0) return;
+
+    setIsUpdating(true);
+    try {
+      const changed = await batchUpdateChecklistItems([...items.values()], {
+        label: completed ? 'Check all items' : 'Uncheck all items',
+      });
+      setAnnouncement(
+        changed === 0
+          ? `All items are already ${completed ? 'checked' : 'unchecked'}`
+          : `${completed ? 'Checked' : 'Unchecked'} ${changed} item${changed === 1 ? '' : 's'}`
+      );
+    } catch (error) {
+      console.error('Failed to update checklist section:', error);
+      setAnnouncement('Could not update these items. Nothing was changed.');
+    } finally {
+      setIsUpdating(false);
+    }
+  }
+
+  const bulkButtonClass =
+    'text-sm font-medium underline-offset-2 hover:underline disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus-visible:ring-2 focus-visible:ring-[var(--table-focus-ring)] rounded';
+
   return (
     <div className={`checklist-section ${className}`}>
-      {(title || description) && (
-        <div className="mb-3">
-          {title && (
-            <h4
-              className="font-semibold text-base mb-1"
-              style={{ color: 'var(--table-heading)' }}
-            >
-              {title}
-            </h4>
-          )}
-          {description && (
-            <div
-              className="text-sm"
-              style={{ color: 'var(--table-text-muted)' }}
-            >
-              {description}
+      {(title || description || bulkActions) && (
+        <div className="mb-3 flex flex-wrap items-start justify-between gap-x-4 gap-y-1">
+          <div>
+            {title && (
+              <h4
+                className="font-semibold text-base mb-1"
+                style={{ color: 'var(--table-heading)' }}
+              >
+                {title}
+              </h4>
+            )}
+            {description && (
+              <div
+                className="text-sm"
+                style={{ color: 'var(--table-text-muted)' }}
+              >
+                {description}
+              </div>
+            )}
+          </div>
+          {bulkActions && (
+            <div className="no-print flex gap-3" style={{ color: 'var(--table-accent)' }}>
+              <button
+                type="button"
+                onClick={() => setAllCompleted(true)}
+                disabled={isUpdating}
+                className={bulkButtonClass}
+                aria-label={title ? `Check all in ${title}` : undefined}
+              >
+                Check all
+              </button>
+              <button
+                type="button"
+                onClick={() => setAllCompleted(false)}
+                disabled={isUpdating}
+                className={bulkButtonClass}
+                aria-label={title ? `Uncheck all in ${title}` : undefined}
+              >
+                Uncheck all
+              </button>
             </div>
           )}
         </div>
       )}
       <div
+        ref={groupRef}
         className="flex flex-col"
         style={{ gap: 'var(--table-checklist-gap)' }}
         role="group"
@@ -49,6 +117,9 @@ export default function ChecklistSection({
       >
         {children}
       </div>
+      <p role="status" className="sr-only">
+        {announcement}
+      </p>
     </div>
   );
 }
@@ -1,10 +1,154 @@
-import { useEffect, useState } from 'react';
-import { getTableRows, saveTableRow, type TableRow } from '@/lib/storage';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  ArrowDown,
+  ArrowUp,
+  ArrowUpDown,
+  Download,
+  GripVertical,
+  History,
+  Plus,
+  Trash2,
+  Upload,
+} from 'lucide-react';
+import {
+  batchSaveTableRows,
+  deleteTableRow,
+  getAnnotation,
+  getTableHistory,
+  initializeTableRows,
+  reorderTableRows,
+  saveAnnotation,
+  saveTableRow,
+  subscribe,
+  type JournalEntry,
+  type TableRow,
+} from '@/lib/storage';
+import { useTableRows } from '@/lib/storageHooks';
+import ChangeHistoryList from './ChangeHistoryList';
+import {
+  formatCellValue,
+  parseCellInput,
+  resolveColumns,
+  validateCell,
+  type ColumnSpec,
+  type ResolvedColumn,
+} from './tableColumns';
+import { planTableImport, tableToCsv, type TableImportPlan } from './tableCsv';
+import {
+  DEFAULT_TABLE_VIEW,
+  applyTableView,
+  isDefaultView,
+  loadTableView,
+  nextSort,
+  saveTableView,
+  type TableView,
+} from './tableView';
+import { dateStamp, downloadFile } from '@/lib/download';
+
+/** How long the "Row deleted - Undo" prompt stays available */
+const UNDO_TIMEOUT_MS = 8000;
+
+/**
+ * Assign `order` from array position
+ */
+function withOrder(rows: TableRow[]): TableRow[] {
+  return rows.map((row, order) => (row.order === order ? row : { ...row, order }));
+}
+
+const ACTION_BUTTON_CLASS =
+  'px-lg py-sm text-body-small font-medium rounded-full bg-secondary text-secondary-foreground shadow-sm hover:shadow-raised hover:bg-secondary/90 transition-all duration-default ease-default active:translate-y-px focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 inline-flex items-center gap-xs disabled:opacity-50 disabled:cursor-not-allowed';
+
+const INPUT_CLASS =
+  'w-full px-sm py-xs border rounded-lg focus:outline-none focus:ring-2 focus:ring-ring focus:border-ring bg-input text-body text-foreground transition-all duration-default ease-default shadow-ambient';
+
+interface CellEditorProps {
+  column: ResolvedColumn;
+  value: unknown;
+  invalid: boolean;
+  describedBy?: string;
+  onChange: (input: string) => void;
+  onDone: () => void;
+  onKeyDown: (event: React.KeyboardEvent) => void;
+}
+
+/**
+ * Input for a cell being edited, chosen by the column type
+ */
+function CellEditor({ column, value, invalid, describedBy, onChange, onDone, onKeyDown }: CellEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const text = value === undefined || value === null ? '' : String(value);
+  const shared = {
+    'aria-label': column.label,
+    'aria-invalid': invalid || undefined,
+    'aria-describedby': describedBy,
+    'aria-required': column.required || undefined,
+    onBlur: onDone,
+    onKeyDown,
+    autoFocus: true,
+  };
+  const className = `${INPUT_CLASS} ${invalid ? 'border-red-600' : 'border-border'}`;
+
+  // Grow the textarea to fit its content
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    textarea.style.height = 'auto';
+    textarea.style.height = `${textarea.scrollHeight}px`;
+  }, [text]);
+
+  if (column.type === 'multiline') {
+    return (
+      <textarea
+        {...shared}
+        ref={textareaRef}
+        rows={2}
+        value={text}
+        placeholder={column.placeholder}
+        onChange={(e) => onChange(e.target.value)}
+        className={`${className} resize-none overflow-hidden`}
+      />
+    );
+  }
+
+  if (column.type === 'select') {
+    return (
+      <select
+        {...shared}
+        value={text}
+        onChange={(e) => onChange(e.target.value)}
+        className={`${className} h-10`}
+      >
+        <option value="">{column.placeholder ?? 'Choose…'}</option>
+        {column.options?.map((option) => (
+          <option key={option} value={option}>
+            {option}
+          </option>
+        ))}
+      </select>
+    );
+  }
+
+  return (
+    <input
+      {...shared}
+      type={column.type}
+      inputMode={column.type === 'number' ? 'decimal' : undefined}
+      autoComplete={column.type === 'tel' ? 'tel' : column.type === 'email' ? 'email' : undefined}
+      value={text}
+      placeholder={column.placeholder}
+      min={column.min}
+      max={column.max}
+      onChange={(e) => onChange(e.target.value)}
+      className={`${className} h-10`}
+    />
+  );
+}
 
 interface EditableTableProps {
   moduleKey: string;
   tableId: string;
-  columns: string[];
+  /** Column names, or definitions with an input type and validation (see tableColumns.ts) */
+  columns: ColumnSpec[];
   initialData?: Record<string, any>[];
   children?: React.ReactNode;
 }
@@ -15,11 +159,66 @@ export default function EditableTable({
   columns,
   initialData = [],
 }: EditableTableProps) {
-  const [rows, setRows] = useState<TableRow[]>([]);
-  const [loading, setLoading] = useState(true);
+  // Live from storage: follows undo/redo, backup restores and other tabs
+  const { rows, setRows, loading } = useTableRows(moduleKey, tableId);
   const [editingCell, setEditingCell] = useState<{ rowId: string; column: string } | null>(null);
+  const [activeCell, setActiveCell] = useState<{ rowId: string; col: number } | null>(null);
+  const editStartValueRef = useRef<unknown>(undefined);
+  const tableRef = useRef<HTMLTableElement>(null);
   const [note, setNote] = useState('');
   const [isNoteExpanded, setIsNoteExpanded] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [deletedRow, setDeletedRow] = useState<{ row: TableRow; index: number } | null>(null);
+  const [dragRowId, setDragRowId] = useState<string | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+  const [touchedCells, setTouchedCells] = useState<Set<string>>(() => new Set());
+  const [csvImport, setCsvImport] = useState<{ fileName: string; plan: TableImportPlan } | null>(null);
+  const [csvError, setCsvError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const csvInputRef = useRef<HTMLInputElement>(null);
+  const [view, setView] = useState<TableView>(DEFAULT_TABLE_VIEW);
+  const viewLoadedRef = useRef(false);
+  const frozenRowIdsRef = useRef<string[] | null>(null);
+  const undoTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Drop the undo prompt's timer on unmount
+  useEffect(() => {
+    return () => {
+      if (undoTimerRef.current) clearTimeout(undoTimerRef.current);
+    };
+  }, []);
+
+  const columnDefs = useMemo(() => resolveColumns(columns), [columns]);
+  const promptKey = columnDefs[0]?.key;
+  const loadHistory = useCallback(() => getTableHistory(moduleKey, tableId), [moduleKey, tableId]);
+
+  // Restore this table's sort/filter (localStorage isn't available during SSR)
+  useEffect(() => {
+    setView(loadTableView(moduleKey, tableId));
+    viewLoadedRef.current = true;
+  }, [moduleKey, tableId]);
+
+  useEffect(() => {
+    if (viewLoadedRef.current) saveTableView(moduleKey, tableId, view);
+  }, [moduleKey, tableId, view]);
+
+  const isViewActive = !isDefaultView(view);
+
+  // Rows keep their place while a cell is being edited so a row doesn't jump
+  // away (or get filtered out) mid-typing; the view re-applies when editing ends.
+  const visibleRows = useMemo(() => {
+    const frozenIds = frozenRowIdsRef.current;
+    if (editingCell && frozenIds) {
+      const byId = new Map(rows.map((row) => [row.rowId, row]));
+      const ids = frozenIds.includes(editingCell.rowId) ? frozenIds : [...frozenIds, editingCell.rowId];
+      return ids.map((id) => byId.get(id)).filter((row): row is TableRow => Boolean(row));
+    }
+
+    const next = applyTableView(columnDefs, rows, view);
+    frozenRowIdsRef.current = next.map((row) => row.rowId);
+    return next;
+  }, [columnDefs, rows, view, editingCell]);
 
   // Helper function to check if a row is from initial data
   const isInitialRow = (rowId: string): boolean => {
@@ -33,66 +232,74 @@ export default function EditableTable({
     return num < 1000; // Safe threshold to distinguish
   };
 
-  // Load note from localStorage
+  // Load table note from IndexedDB, then follow changes made elsewhere
+  // (undo/redo, other tabs); this table's own note edits are already shown
   useEffect(() => {
-    const noteKey = `table-note-${moduleKey}-${tableId}`;
-    const savedNote = localStorage.getItem(noteKey);
-    if (savedNote) {
-      setNote(savedNote);
-      setIsNoteExpanded(true); // Auto-expand if there's a saved note
-    }
+    let mounted = true;
+
+    getAnnotation(moduleKey, tableId)
+      .then((annotation) => {
+        if (!mounted) return;
+        setNote(annotation?.text ?? '');
+        if (annotation?.text) {
+          setIsNoteExpanded(true); // Auto-expand if there's a saved note
+        }
+      })
+      .catch((error) => console.error('Failed to load table note:', error));
+
+    const unsubscribe = subscribe('annotations', { moduleKey, blockId: tableId }, (change) => {
+      if (mounted && (!change.local || change.kind !== 'edit')) {
+        setNote(change.after?.text ?? '');
+      }
+    });
+
+    return () => {
+      mounted = false;
+      unsubscribe();
+    };
   }, [moduleKey, tableId]);
 
-  // Save note to localStorage
-  useEffect(() => {
-    const noteKey = `table-note-${moduleKey}-${tableId}`;
-    if (note) {
-      localStorage.setItem(noteKey, note);
+  async function handleNoteChange(newNote: string) {
+    try {
+      setNote(newNote);
+      await saveAnnotation(moduleKey, tableId, 'table', newNote);
+    } catch (error) {
+      console.error('Failed to update table note:', error);
     }
-  }, [note, moduleKey, tableId]);
+  }
+
+  // The page's default rows are written the first time this table is shown
+  const needsSeeding = !loading && rows.length === 0 && initialData.length > 0;
 
   useEffect(() => {
-    async function loadData() {
-      try {
-        const savedRows = await getTableRows(moduleKey, tableId);
-
-        if (savedRows.length === 0 && initialData.length > 0) {
-          // Initialize with default data
-          const newRows: TableRow[] = initialData.map((data, index) => ({
-            id: `${moduleKey}-${tableId}-${index}`,
-            moduleKey,
-            tableId,
-            rowId: `row-${index}`,
-            data,
-            updatedAt: new Date().toISOString(),
-          }));
-
-          // Save initial data
-          for (const row of newRows) {
-            await saveTableRow(row);
-          }
-
-          setRows(newRows);
-        } else {
-          setRows(savedRows);
-        }
-      } catch (error) {
-        console.error('Failed to load table data:', error);
-      } finally {
-        setLoading(false);
-      }
-    }
+    if (!needsSeeding) return;
 
-    loadData();
-  }, [moduleKey, tableId, initialData]);
+    const newRows: TableRow[] = initialData.map((data, index) => ({
+      id: `${moduleKey}-${tableId}-row-${index}`,
+      moduleKey,
+      tableId,
+      rowId: `row-${index}`,
+      data,
+      order: index,
+      updatedAt: '', // Not edited yet
+    }));
+
+    initializeTableRows(moduleKey, tableId, newRows)
+      .then(setRows)
+      .catch((error) => console.error('Failed to initialize table data:', error));
+  }, [needsSeeding, moduleKey, tableId, initialData, setRows]);
+
+  function handleCellChange(rowId: string, column: ResolvedColumn, input: string) {
+    return writeCell(rowId, column, parseCellInput(column, input));
+  }
 
-  async function handleCellChange(rowId: string, column: string, value: string) {
+  async function writeCell(rowId: string, column: ResolvedColumn, value: unknown) {
     try {
       const row = rows.find((r) => r.rowId === rowId);
       if (!row) return;
 
       // Prevent editing first column of initial rows
-      if (isInitialRow(rowId) && column === columns[0]) {
+      if (isInitialRow(rowId) && column.key === promptKey) {
         console.warn('Cannot edit prompts in pre-populated rows');
         return;
       }
@@ -101,29 +308,384 @@ export default function EditableTable({
         ...row,
         data: {
           ...row.data,
-          [column]: value,
+          [column.key]: value,
         },
       };
 
       await saveTableRow(updatedRow);
 
       setRows((prev) => prev.map((r) => (r.rowId === rowId ? updatedRow : r)));
-
-      // Dispatch event for potential sync
-      window.dispatchEvent(
-        new CustomEvent('table-changed', {
-          detail: { moduleKey, tableId, rowId },
-        })
-      );
     } catch (error) {
       console.error('Failed to update cell:', error);
     }
   }
 
+  function isPromptCell(rowId: string, column: ResolvedColumn): boolean {
+    return isInitialRow(rowId) && column.key === promptKey;
+  }
+
+  /**
+   * Validation message for a cell. Empty required cells only complain once
+   * they have been edited, so a fresh table isn't covered in errors.
+   */
+  function cellError(row: TableRow, column: ResolvedColumn): string | null {
+    if (isPromptCell(row.rowId, column)) return null;
+    const value = row.data[column.key];
+    const error = validateCell(column, value);
+    if (error && validateCell({ ...column, required: false }, value) === null) {
+      return touchedCells.has(`${row.rowId}:${column.key}`) ? error : null;
+    }
+    return error;
+  }
+
+  function handleCellDone(rowId: string, column: ResolvedColumn) {
+    setTouchedCells((prev) => new Set(prev).add(`${rowId}:${column.key}`));
+    setEditingCell(null);
+  }
+
+  function rowLabel(row: TableRow, index: number): string {
+    const firstValue = String(row.data[promptKey] ?? '').trim();
+    return firstValue ? `row ${index + 1} (${firstValue.slice(0, 40)})` : `row ${index + 1}`;
+  }
+
+  /**
+   * Which row (or the note) a history entry belongs to
+   */
+  function historyContext(entry: JournalEntry): string {
+    if (entry.store === 'annotations') return 'Table note';
+    const record = (entry.after ?? entry.before) as TableRow | null;
+    const index = rows.findIndex((row) => row.rowId === record?.rowId);
+    const prompt = String(record?.data[promptKey] ?? '').trim();
+    const position = index === -1 ? 'Deleted row' : `Row ${index + 1}`;
+    return prompt ? `${position} (${prompt.length > 40 ? `${prompt.slice(0, 40)}…` : prompt})` : position;
+  }
+
+  /**
+   * Save `nextRows` as the table's order (also gives legacy rows an `order`)
+   */
+  async function persistOrder(nextRows: TableRow[]) {
+    const ordered = withOrder(nextRows);
+    setRows(ordered);
+    await reorderTableRows(moduleKey, tableId, ordered.map((row) => row.rowId));
+    return ordered;
+  }
+
+  async function handleAddRow() {
+    try {
+      const newRow: TableRow = {
+        id: '',
+        moduleKey,
+        tableId,
+        rowId: `row-${Date.now()}`,
+        data: Object.fromEntries(columnDefs.map((column) => [column.key, ''])),
+        order: rows.length,
+        updatedAt: new Date().toISOString(),
+      };
+      newRow.id = `${moduleKey}-${tableId}-${newRow.rowId}`;
+
+      const ordered = withOrder([...rows, newRow]);
+      await batchSaveTableRows(ordered, { label: 'Add table row' });
+      setRows(ordered);
+      editStartValueRef.current = '';
+      setActiveCell({ rowId: newRow.rowId, col: 1 });
+      setEditingCell({ rowId: newRow.rowId, column: promptKey });
+      setAnnouncement(`Added row ${rows.length + 1}`);
+    } catch (error) {
+      console.error('Failed to add row:', error);
+    }
+  }
+
+  async function handleDeleteRow(rowId: string) {
+    const index = rows.findIndex((row) => row.rowId === rowId);
+    if (index === -1 || isInitialRow(rowId)) return;
+
+    try {
+      const row = rows[index];
+      await deleteTableRow(moduleKey, tableId, rowId);
+      setRows((prev) => prev.filter((r) => r.rowId !== rowId));
+
+      setDeletedRow({ row, index });
+      if (undoTimerRef.current) clearTimeout(undoTimerRef.current);
+      undoTimerRef.current = setTimeout(() => setDeletedRow(null), UNDO_TIMEOUT_MS);
+
+      setAnnouncement(`Deleted ${rowLabel(row, index)}. Undo is available.`);
+    } catch (error) {
+      console.error('Failed to delete row:', error);
+    }
+  }
+
+  async function handleUndoDelete() {
+    if (!deletedRow) return;
+    const { row, index } = deletedRow;
+
+    try {
+      if (undoTimerRef.current) clearTimeout(undoTimerRef.current);
+      setDeletedRow(null);
+
+      const restored = [...rows];
+      restored.splice(Math.min(index, restored.length), 0, row);
+
+      const ordered = withOrder(restored);
+      await batchSaveTableRows(ordered, { label: 'Restore table row' });
+      setRows(ordered);
+      setAnnouncement(`Restored ${rowLabel(row, index)}`);
+    } catch (error) {
+      console.error('Failed to restore row:', error);
+    }
+  }
+
+  async function moveRow(rowId: string, toIndex: number) {
+    const fromIndex = rows.findIndex((row) => row.rowId === rowId);
+    if (fromIndex === -1 || toIndex < 0 || toIndex >= rows.length || toIndex === fromIndex) {
+      return;
+    }
+
+    try {
+      const next = [...rows];
+      const [moved] = next.splice(fromIndex, 1);
+      next.splice(toIndex, 0, moved);
+
+      await persistOrder(next);
+      setAnnouncement(`Moved to position ${toIndex + 1} of ${rows.length}`);
+    } catch (error) {
+      console.error('Failed to reorder rows:', error);
+    }
+  }
+
+  function handleDownloadCsv() {
+    downloadFile(`${moduleKey}-${tableId}-${dateStamp()}.csv`, tableToCsv(columnDefs, rows), 'text/csv');
+  }
+
+  async function handleCsvFileChange(event: React.ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow re-selecting the same file
+    if (!file) return;
+
+    setCsvImport(null);
+    setCsvError(null);
+
+    try {
+      const plan = planTableImport(columnDefs, rows, await file.text(), isInitialRow);
+      if (plan.updates.length === 0 && plan.additions.length === 0) {
+        setCsvError(`${file.name} has no changes for this table`);
+        return;
+      }
+      setCsvImport({ fileName: file.name, plan });
+    } catch (error) {
+      console.error('Failed to read CSV:', error);
+      setCsvError(error instanceof Error ? error.message : 'Could not read this CSV file');
+    }
+  }
+
+  async function handleApplyCsv() {
+    if (!csvImport) return;
+    const { plan } = csvImport;
+    setIsImporting(true);
+
+    try {
+      const updated = new Map(plan.updates.map(({ row, data }) => [row.rowId, { ...row, data }]));
+
+      const baseId = Date.now();
+      const added: TableRow[] = plan.additions.map((data, index) => {
+        const rowId = `row-${baseId + index}`;
+        return {
+          id: `${moduleKey}-${tableId}-${rowId}`,
+          moduleKey,
+          tableId,
+          rowId,
+          data,
+          updatedAt: new Date().toISOString(),
+        };
+      });
+
+      // Updates, new rows and their order are saved together as one undo step
+      const ordered = withOrder([...rows.map((row) => updated.get(row.rowId) ?? row), ...added]);
+      await batchSaveTableRows(ordered, { label: 'Import CSV' });
+      setRows(ordered);
+      setAnnouncement(`Imported ${plan.updates.length} updated and ${added.length} new rows`);
+      setCsvImport(null);
+    } catch (error) {
+      console.error('Failed to import CSV:', error);
+      setCsvError('Import failed. No rows were changed.');
+    } finally {
+      setIsImporting(false);
+    }
+  }
+
+  // ==========================================================================
+  // GRID KEYBOARD NAVIGATION
+  // Grid columns: 0 = reorder handle, 1..n = data columns, n + 1 = actions.
+  // One cell is in the tab order at a time (roving tabindex).
+  // ==========================================================================
 
-  if (loading) {
+  const lastGridCol = columnDefs.length + 1;
+
+  function gridCellKey(rowId: string, col: number): string {
+    return `${rowId}:${col}`;
+  }
+
+  function focusCell(rowId: string, col: number) {
+    setActiveCell({ rowId, col });
+    tableRef.current
+      ?.querySelector<HTMLElement>(`[data-grid-cell="${CSS.escape(gridCellKey(rowId, col))}"]`)
+      ?.focus();
+  }
+
+  /** The cell that currently holds tabindex=0 */
+  const tabStop =
+    activeCell && visibleRows.some((row) => row.rowId === activeCell.rowId)
+      ? activeCell
+      : visibleRows[0]
+        ? { rowId: visibleRows[0].rowId, col: 1 }
+        : null;
+
+  function startEditing(rowId: string, column: ResolvedColumn) {
+    const row = rows.find((r) => r.rowId === rowId);
+    if (!row || isPromptCell(rowId, column)) return;
+
+    editStartValueRef.current = row.data[column.key];
+    setActiveCell({ rowId, col: columnDefs.indexOf(column) + 1 });
+    setEditingCell({ rowId, column: column.key });
+    setAnnouncement(
+      `Editing ${column.label}. Press Enter to save${
+        column.type === 'multiline' ? ' (Shift+Enter for a new line)' : ''
+      } or Escape to cancel.`
+    );
+  }
+
+  /**
+   * Next/previous data cell in reading order, or null at either end of the grid
+   */
+  function adjacentDataCell(rowIndex: number, col: number, step: 1 | -1) {
+    let r = rowIndex;
+    let c = col + step;
+    if (c < 1) {
+      r--;
+      c = columnDefs.length;
+    } else if (c > columnDefs.length) {
+      r++;
+      c = 1;
+    }
+    const row = visibleRows[r];
+    return row ? { rowId: row.rowId, col: c } : null;
+  }
+
+  function handleGridKeyDown(event: React.KeyboardEvent<HTMLTableElement>) {
+    const cell = (event.target as HTMLElement).closest<HTMLElement>('[data-grid-cell]');
+    // Keys inside an open editor are handled by handleEditorKeyDown
+    if (!cell || editingCell || cell !== event.target) return;
+
+    const key = cell.dataset.gridCell ?? '';
+    const separator = key.lastIndexOf(':');
+    const rowId = key.slice(0, separator);
+    const col = Number(key.slice(separator + 1));
+    const rowIndex = visibleRows.findIndex((row) => row.rowId === rowId);
+    if (rowIndex === -1) return;
+
+    const column = col >= 1 && col <= columnDefs.length ? columnDefs[col - 1] : null;
+    const focusAt = (r: number, c: number) => {
+      const row = visibleRows[Math.max(0, Math.min(visibleRows.length - 1, r))];
+      focusCell(row.rowId, Math.max(0, Math.min(lastGridCol, c)));
+    };
+
+    // Alt+Up/Down moves the whole row (stored order can't change while sorted/filtered)
+    if (event.altKey && (event.key === 'ArrowUp' || event.key === 'ArrowDown')) {
+      event.preventDefault();
+      if (isViewActive) {
+        setAnnouncement('Reset the sort and filter to reorder rows');
+        return;
+      }
+      const toIndex = rowIndex + (event.key === 'ArrowUp' ? -1 : 1);
+      if (toIndex >= 0 && toIndex < rows.length) {
+        moveRow(rowId, toIndex).then(() => focusCell(rowId, col));
+      }
+      return;
+    }
+
+    switch (event.key) {
+      case 'ArrowUp':
+        event.preventDefault();
+        focusAt(rowIndex - 1, col);
+        break;
+      case 'ArrowDown':
+        event.preventDefault();
+        focusAt(rowIndex + 1, col);
+        break;
+      case 'ArrowLeft':
+        event.preventDefault();
+        focusAt(rowIndex, col - 1);
+        break;
+      case 'ArrowRight':
+        event.preventDefault();
+        focusAt(rowIndex, col + 1);
+        break;
+      case 'Home':
+        event.preventDefault();
+        focusAt(event.ctrlKey ? 0 : rowIndex, 0);
+        break;
+      case 'End':
+        event.preventDefault();
+        focusAt(event.ctrlKey ? visibleRows.length - 1 : rowIndex, lastGridCol);
+        break;
+      case 'Enter':
+      case 'F2':
+        // Buttons in the handle/actions columns keep their native Enter
+        if (!column) return;
+        event.preventDefault();
+        if (isPromptCell(rowId, column)) {
+          setAnnouncement('This prompt is read-only');
+        } else {
+          startEditing(rowId, column);
+        }
+        break;
+      case 'Tab': {
+        const next = adjacentDataCell(rowIndex, col, event.shiftKey ? -1 : 1);
+        // At either end of the grid Tab leaves the table as usual
+        if (!next) return;
+        event.preventDefault();
+        focusCell(next.rowId, next.col);
+        break;
+      }
+    }
+  }
+
+  function handleEditorKeyDown(event: React.KeyboardEvent, rowId: string, column: ResolvedColumn) {
+    const rowIndex = visibleRows.findIndex((row) => row.rowId === rowId);
+    const col = columnDefs.indexOf(column) + 1;
+
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      writeCell(rowId, column, editStartValueRef.current);
+      setEditingCell(null);
+      focusCell(rowId, col);
+      setAnnouncement('Edit cancelled');
+    } else if (event.key === 'Enter' && !(column.type === 'multiline' && event.shiftKey)) {
+      // Commit and move down, like a spreadsheet
+      event.preventDefault();
+      setEditingCell(null);
+      const below = visibleRows[rowIndex + 1];
+      focusCell(below ? below.rowId : rowId, col);
+      setAnnouncement('Saved');
+    } else if (event.key === 'Tab') {
+      const next = adjacentDataCell(rowIndex, col, event.shiftKey ? -1 : 1);
+      setEditingCell(null);
+      if (next) {
+        event.preventDefault();
+        focusCell(next.rowId, next.col);
+      }
+    }
+  }
+
+  function handleDrop(event: React.DragEvent, index: number) {
+    event.preventDefault();
+    if (dragRowId) moveRow(dragRowId, index);
+    setDragRowId(null);
+    setDropIndex(null);
+  }
+
+  if (loading || needsSeeding) {
     return (
-      <div className="overflow-x-auto">
+      <div className="overflow-x-auto" data-module-key={moduleKey} data-table-id={tableId}>
         <div className="min-w-full animate-pulse">
           <div className="h-12 bg-surface-muted rounded-lg mb-xs shadow-ambient"></div>
           <div className="h-12 bg-surface-muted/50 rounded-lg mb-xs shadow-ambient"></div>
@@ -133,65 +695,357 @@ export default function EditableTable({
     );
   }
 
+  const filterId = `filter-${moduleKey}-${tableId}`;
+  const gridHelpId = `grid-help-${moduleKey}-${tableId}`;
+
   return (
-    <div className="my-lg">
+    <div className="my-lg" data-module-key={moduleKey} data-table-id={tableId}>
+      <div className="no-print mb-sm flex flex-wrap items-center gap-x-md gap-y-xs text-body-small">
+        <label htmlFor={filterId} className="sr-only">
+          Filter rows
+        </label>
+        <input
+          id={filterId}
+          type="search"
+          value={view.filter}
+          onChange={(e) => setView({ ...view, filter: e.target.value })}
+          placeholder="Filter rows…"
+          className="h-9 w-full sm:w-64 px-sm border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-ring focus:border-ring bg-input text-body-small text-foreground"
+        />
+        {columnDefs.length > 1 && (
+          <label className="inline-flex items-center gap-xs text-text-secondary">
+            <input
+              type="checkbox"
+              checked={view.emptyOnly}
+              onChange={(e) => setView({ ...view, emptyOnly: e.target.checked })}
+            />
+            Show only empty responses
+          </label>
+        )}
+        {isViewActive && (
+          <>
+            <span className="text-text-muted" aria-live="polite">
+              Showing {visibleRows.length} of {rows.length} rows
+            </span>
+            <button
+              type="button"
+              onClick={() => setView(DEFAULT_TABLE_VIEW)}
+              className="text-primary hover:underline focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring rounded"
+            >
+              Reset view
+            </button>
+          </>
+        )}
+      </div>
+
+      <p id={gridHelpId} className="sr-only">
+        Use the arrow keys to move between cells. Press Enter or F2 to edit a cell, Enter to save
+        and move down, Escape to cancel, and Tab to move to the next cell. Press Alt with the up or
+        down arrow to move a row.
+      </p>
+
       <div className="overflow-x-auto border border-border rounded-lg shadow-card">
-        <table className="min-w-full divide-y divide-border">
+        <table
+          ref={tableRef}
+          role="grid"
+          aria-label={`${columnDefs.map((column) => column.label).join(', ')} table`}
+          aria-describedby={gridHelpId}
+          onKeyDown={handleGridKeyDown}
+          className="min-w-full divide-y divide-border"
+        >
           <thead className="bg-surface-muted">
             <tr>
-              {columns.map((column) => (
-                <th
-                  key={column}
-                  className="px-md py-md text-left text-uppercase-accent uppercase font-semibold text-text-secondary tracking-wide"
-                >
-                  {column}
-                </th>
-              ))}
+              <th className="no-print w-10 px-xs">
+                <span className="sr-only">Reorder</span>
+              </th>
+              {columnDefs.map((column) => {
+                const sortDirection = view.sort?.key === column.key ? view.sort.direction : null;
+                const SortIcon =
+                  sortDirection === 'asc' ? ArrowUp : sortDirection === 'desc' ? ArrowDown : ArrowUpDown;
+
+                return (
+                  <th
+                    key={column.key}
+                    data-column-key={column.key}
+                    aria-sort={
+                      sortDirection === 'asc' ? 'ascending' : sortDirection === 'desc' ? 'descending' : undefined
+                    }
+                    className="px-md py-md text-left text-uppercase-accent uppercase font-semibold text-text-secondary tracking-wide"
+                  >
+                    <button
+                      type="button"
+                      onClick={() => setView({ ...view, sort: nextSort(view, column.key) })}
+                      className="inline-flex items-center gap-xs uppercase font-semibold tracking-wide text-left hover:text-text-primary focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring rounded"
+                      title="Sort by this column"
+                    >
+                      {column.label}
+                      {column.required && (
+                        <span className="text-red-600" aria-label="required">
+                          {' '}*
+                        </span>
+                      )}
+                      <SortIcon
+                        size={14}
+                        aria-hidden="true"
+                        className={`no-print ${sortDirection ? '' : 'opacity-40'}`}
+                      />
+                    </button>
+                  </th>
+                );
+              })}
+              <th className="no-print w-12 px-xs">
+                <span className="sr-only">Actions</span>
+              </th>
             </tr>
           </thead>
           <tbody className="bg-card divide-y divide-border">
-            {rows.map((row /* , index */) => (
-              <tr key={row.rowId} className="hover:bg-surface-muted/30 transition-colors duration-default ease-default" style={{ minHeight: '72px' }}>
-                {columns.map((column) => (
-                  <td
-                    key={`${row.rowId}-${column}`}
-                    className="px-md py-md"
-                    onClick={() => {
-                      // Prevent editing first column of initial rows (prompts are read-only)
-                      if (isInitialRow(row.rowId) && column === columns[0]) return;
-                      setEditingCell({ rowId: row.rowId, column });
-                    }}
-                  >
-                    {editingCell?.rowId === row.rowId && editingCell?.column === column ? (
-                      <input
-                        type="text"
-                        value={row.data[column] || ''}
-                        onChange={(e) => handleCellChange(row.rowId, column, e.target.value)}
-                        onBlur={() => setEditingCell(null)}
-                        autoFocus
-                        className="w-full h-10 px-sm py-xs border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-ring focus:border-ring bg-input text-body text-foreground transition-all duration-default ease-default shadow-ambient"
-                      />
-                    ) : (
-                      <span className={`text-body text-text-primary ${isInitialRow(row.rowId) && column === columns[0] ? 'cursor-default' : 'cursor-text'}`}>
-                        {row.data[column] || <span className="text-text-muted">{isInitialRow(row.rowId) && column === columns[0] ? '' : 'Click to edit'}</span>}
-                      </span>
-                    )}
-                  </td>
-                ))}
+            {visibleRows.length === 0 && (
+              <tr>
+                <td colSpan={columnDefs.length + 2} className="px-md py-md text-body-small text-text-muted">
+                  No rows match this view.
+                </td>
+              </tr>
+            )}
+            {visibleRows.map((row, index) => (
+              <tr
+                key={row.rowId}
+                onDragOver={(e) => {
+                  if (!dragRowId) return;
+                  e.preventDefault();
+                  e.dataTransfer.dropEffect = 'move';
+                  setDropIndex(index);
+                }}
+                onDrop={(e) => handleDrop(e, index)}
+                className={`hover:bg-surface-muted/30 transition-colors duration-default ease-default ${
+                  dragRowId === row.rowId ? 'opacity-50' : ''
+                } ${dropIndex === index && dragRowId !== row.rowId ? 'outline outline-2 outline-ring' : ''}`}
+                style={{ minHeight: '72px' }}
+              >
+                <td
+                  className="no-print px-xs py-md align-middle"
+                  {...(isViewActive && {
+                    'data-grid-cell': gridCellKey(row.rowId, 0),
+                    tabIndex: tabStop?.rowId === row.rowId && tabStop.col === 0 ? 0 : -1,
+                    onFocus: () => setActiveCell({ rowId: row.rowId, col: 0 }),
+                  })}
+                >
+                  {/* Stored order can't be changed while the view is sorted or filtered */}
+                  {!isViewActive && (
+                    <button
+                      type="button"
+                      draggable
+                      onDragStart={(e) => {
+                        e.dataTransfer.effectAllowed = 'move';
+                        e.dataTransfer.setData('text/plain', row.rowId);
+                        setDragRowId(row.rowId);
+                      }}
+                      onDragEnd={() => {
+                        setDragRowId(null);
+                        setDropIndex(null);
+                      }}
+                      data-grid-cell={gridCellKey(row.rowId, 0)}
+                      tabIndex={tabStop?.rowId === row.rowId && tabStop.col === 0 ? 0 : -1}
+                      onFocus={() => setActiveCell({ rowId: row.rowId, col: 0 })}
+                      className="p-1 rounded-md text-text-muted hover:text-text-primary cursor-grab active:cursor-grabbing focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                      aria-label={`Reorder ${rowLabel(row, index)}. Press Alt and the up or down arrow to move.`}
+                      title="Drag to reorder (or press Alt+Up/Down)"
+                    >
+                      <GripVertical size={16} aria-hidden="true" />
+                    </button>
+                  )}
+                </td>
+                {columnDefs.map((column, columnIndex) => {
+                  const isEditing =
+                    editingCell?.rowId === row.rowId && editingCell?.column === column.key;
+                  const isPrompt = isPromptCell(row.rowId, column);
+                  const error = cellError(row, column);
+                  const errorId = `${tableId}-${row.rowId}-${column.key}-error`.replace(/[^\w-]/g, '-');
+                  const display = formatCellValue(column, row.data[column.key]);
+
+                  const col = columnIndex + 1;
+
+                  return (
+                    <td
+                      key={`${row.rowId}-${column.key}`}
+                      data-grid-cell={gridCellKey(row.rowId, col)}
+                      tabIndex={tabStop?.rowId === row.rowId && tabStop.col === col ? 0 : -1}
+                      aria-readonly={isPrompt || undefined}
+                      onFocus={(e) => {
+                        if (e.target === e.currentTarget) setActiveCell({ rowId: row.rowId, col });
+                      }}
+                      className="px-md py-md align-top focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-ring"
+                      onClick={() => {
+                        // Prevent editing first column of initial rows (prompts are read-only)
+                        if (isPrompt || isEditing) return;
+                        startEditing(row.rowId, column);
+                      }}
+                    >
+                      {isEditing ? (
+                        <CellEditor
+                          column={column}
+                          value={row.data[column.key]}
+                          invalid={Boolean(error)}
+                          describedBy={error ? errorId : undefined}
+                          onChange={(input) => handleCellChange(row.rowId, column, input)}
+                          onDone={() => handleCellDone(row.rowId, column)}
+                          onKeyDown={(e) => handleEditorKeyDown(e, row.rowId, column)}
+                        />
+                      ) : (
+                        <span
+                          className={`text-body text-text-primary ${column.type === 'multiline' ? 'whitespace-pre-wrap' : ''} ${isPrompt ? 'cursor-default' : 'cursor-text'}`}
+                        >
+                          {display || (
+                            <span className="text-text-muted">
+                              {isPrompt ? '' : column.placeholder ?? 'Click to edit'}
+                            </span>
+                          )}
+                        </span>
+                      )}
+                      {error && (
+                        <p id={errorId} className="mt-xs text-body-small text-red-700 dark:text-red-300">
+                          {error}
+                        </p>
+                      )}
+                    </td>
+                  );
+                })}
+                <td
+                  className="no-print px-xs py-md align-middle text-right"
+                  {...(isInitialRow(row.rowId) && {
+                    'data-grid-cell': gridCellKey(row.rowId, lastGridCol),
+                    tabIndex: tabStop?.rowId === row.rowId && tabStop.col === lastGridCol ? 0 : -1,
+                    onFocus: () => setActiveCell({ rowId: row.rowId, col: lastGridCol }),
+                  })}
+                >
+                  {!isInitialRow(row.rowId) && (
+                    <button
+                      type="button"
+                      data-grid-cell={gridCellKey(row.rowId, lastGridCol)}
+                      tabIndex={tabStop?.rowId === row.rowId && tabStop.col === lastGridCol ? 0 : -1}
+                      onFocus={() => setActiveCell({ rowId: row.rowId, col: lastGridCol })}
+                      onClick={() => handleDeleteRow(row.rowId)}
+                      className="p-1 rounded-md text-text-muted hover:text-red-600 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                      aria-label={`Delete ${rowLabel(row, index)}`}
+                      title="Delete row"
+                    >
+                      <Trash2 size={16} aria-hidden="true" />
+                    </button>
+                  )}
+                </td>
               </tr>
             ))}
           </tbody>
         </table>
       </div>
 
-      {/* Add Note Section */}
-      <div className="mt-md">
-        <button
-          onClick={() => setIsNoteExpanded(!isNoteExpanded)}
-          className="px-lg py-sm text-body-small font-medium rounded-full bg-secondary text-secondary-foreground shadow-sm hover:shadow-raised hover:bg-secondary/90 transition-all duration-default ease-default active:translate-y-px focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+      {deletedRow && (
+        <div
+          role="status"
+          className="no-print mt-sm flex items-center justify-between gap-md px-md py-sm rounded-lg border border-border bg-surface-muted text-body-small"
         >
-          {isNoteExpanded ? 'Hide Note' : 'Add Note'}
-        </button>
+          <span>Row deleted</span>
+          <button
+            type="button"
+            onClick={handleUndoDelete}
+            className="font-medium text-primary hover:underline focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring rounded"
+          >
+            Undo
+          </button>
+        </div>
+      )}
+
+      <div className="sr-only" aria-live="polite">
+        {announcement}
+      </div>
+
+      {csvError && (
+        <p role="alert" className="no-print mt-sm text-body-small text-red-700 dark:text-red-300">
+          {csvError}
+        </p>
+      )}
+
+      {csvImport && (
+        <div className="no-print mt-sm border border-border rounded-lg bg-card p-md space-y-sm text-body-small">
+          <p className="font-medium text-text-primary">
+            Import <span className="break-all">{csvImport.fileName}</span>
+          </p>
+          <ul className="list-disc pl-lg text-text-secondary space-y-xs">
+            <li>{csvImport.plan.updates.length} existing rows updated</li>
+            <li>{csvImport.plan.additions.length} new rows added</li>
+            {csvImport.plan.unchanged > 0 && <li>{csvImport.plan.unchanged} rows unchanged</li>}
+            {csvImport.plan.unmatchedHeaders.length > 0 && (
+              <li>Ignored columns: {csvImport.plan.unmatchedHeaders.join(', ')}</li>
+            )}
+          </ul>
+          {csvImport.plan.warnings.length > 0 && (
+            <details className="text-red-700 dark:text-red-300">
+              <summary>{csvImport.plan.warnings.length} values need checking after import</summary>
+              <ul className="list-disc pl-lg mt-xs">
+                {csvImport.plan.warnings.map((warning) => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+            </details>
+          )}
+          <div className="flex gap-sm">
+            <button type="button" onClick={handleApplyCsv} disabled={isImporting} className={ACTION_BUTTON_CLASS}>
+              {isImporting ? 'Importing…' : 'Import'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setCsvImport(null)}
+              disabled={isImporting}
+              className="px-lg py-sm text-body-small font-medium rounded-full border border-border text-foreground hover:bg-muted transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Row, CSV and Note actions */}
+      <div className="mt-md">
+        <div className="flex flex-wrap gap-sm">
+          <button type="button" onClick={handleAddRow} className={ACTION_BUTTON_CLASS}>
+            <Plus size={16} aria-hidden="true" />
+            Add Row
+          </button>
+          <button
+            type="button"
+            onClick={() => setIsNoteExpanded(!isNoteExpanded)}
+            className={ACTION_BUTTON_CLASS}
+          >
+            {isNoteExpanded ? 'Hide Note' : 'Add Note'}
+          </button>
+          <button
+            type="button"
+            onClick={() => setIsHistoryOpen(!isHistoryOpen)}
+            aria-expanded={isHistoryOpen}
+            className={`no-print ${ACTION_BUTTON_CLASS}`}
+          >
+            <History size={16} aria-hidden="true" />
+            {isHistoryOpen ? 'Hide History' : 'History'}
+          </button>
+          <button type="button" onClick={handleDownloadCsv} className={`no-print ${ACTION_BUTTON_CLASS}`}>
+            <Download size={16} aria-hidden="true" />
+            Download CSV
+          </button>
+          <button
+            type="button"
+            onClick={() => csvInputRef.current?.click()}
+            className={`no-print ${ACTION_BUTTON_CLASS}`}
+          >
+            <Upload size={16} aria-hidden="true" />
+            Import CSV
+          </button>
+          <input
+            ref={csvInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            onChange={handleCsvFileChange}
+            className="hidden"
+          />
+        </div>
 
         {isNoteExpanded && (
           <div className="mt-md border border-border rounded-lg shadow-card bg-card p-md">
@@ -201,7 +1055,7 @@ export default function EditableTable({
             <textarea
               id={`note-${moduleKey}-${tableId}`}
               value={note}
-              onChange={(e) => setNote(e.target.value)}
+              onChange={(e) => handleNoteChange(e.target.value)}
               placeholder="Add your notes here..."
               rows={4}
               className="w-full px-sm py-sm border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-ring focus:border-ring bg-input text-body text-foreground transition-all duration-default ease-default shadow-ambient resize-vertical"
@@ -211,6 +1065,12 @@ export default function EditableTable({
             </p>
           </div>
         )}
+
+        {isHistoryOpen && (
+          <div className="mt-md">
+            <ChangeHistoryList load={loadHistory} context={historyContext} title="History for this table" />
+          </div>
+        )}
       </div>
     </div>
   );
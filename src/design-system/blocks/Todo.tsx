@@ -1,6 +1,20 @@
-import React, { useEffect, useState } from 'react';
-import { getTodo, toggleTodo, updateTodoNote } from '@/lib/storage';
-import { StickyNote } from 'lucide-react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  getTodoHistory,
+  setTodoSchedule,
+  toggleTodo,
+  updateTodoNote,
+  type Recurrence,
+} from '@/lib/storage';
+import { useTodo } from '@/lib/storageHooks';
+import {
+  RECURRENCE_PRESETS,
+  daysUntil,
+  describeRecurrence,
+  formatDueDate,
+} from '@/lib/recurrence';
+import { CalendarClock, History, StickyNote } from 'lucide-react';
+import ChangeHistoryList from './ChangeHistoryList';
 
 interface TodoProps {
   id: string;
@@ -9,91 +23,74 @@ interface TodoProps {
 }
 
 export default function Todo({ id, moduleKey, children }: TodoProps) {
-  const [completed, setCompleted] = useState(false);
-  const [loading, setLoading] = useState(true);
+  // Live from storage: follows undo/redo, bulk actions, the archive and other tabs
+  const { todo, loading } = useTodo(moduleKey, id);
+  const completed = todo?.completed ?? false;
   const [note, setNote] = useState('');
   const [isNoteExpanded, setIsNoteExpanded] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isScheduleOpen, setIsScheduleOpen] = useState(false);
+  // Note saves still in flight; the textarea is ahead of storage until they land
+  const pendingNoteWritesRef = useRef(0);
+  const loadHistory = useCallback(() => getTodoHistory(moduleKey, id), [moduleKey, id]);
 
   // Shared size token to ensure perfect square
   const checkboxSize = '20px';
 
+  // Show the stored note unless the user is typing one
   useEffect(() => {
-    let mounted = true;
-
-    // Set a timeout to prevent infinite loading state
-    const timeoutId = setTimeout(() => {
-      if (mounted) {
-        console.warn('Todo loading timeout - falling back to unchecked state');
-        setLoading(false);
-      }
-    }, 5000); // 5 second timeout
-
-    // Load initial state from IndexedDB
-    async function loadState() {
-      try {
-        const todo = await getTodo(moduleKey, id);
-        if (mounted) {
-          setCompleted(todo?.completed ?? false);
-          setNote(todo?.notes ?? '');
-          // Auto-expand if note exists
-          if (todo?.notes) {
-            setIsNoteExpanded(true);
-          }
-        }
-      } catch (error) {
-        console.error('Failed to load todo state:', error);
-      } finally {
-        clearTimeout(timeoutId);
-        if (mounted) {
-          setLoading(false);
-        }
-      }
+    if (pendingNoteWritesRef.current > 0) return;
+    setNote(todo?.notes ?? '');
+    // Auto-expand if note exists
+    if (todo?.notes) {
+      setIsNoteExpanded(true);
     }
-
-    loadState();
-
-    // Cleanup function
-    return () => {
-      mounted = false;
-      clearTimeout(timeoutId);
-    };
-  }, [id, moduleKey]);
+  }, [todo]);
 
   async function handleToggle() {
     try {
-      const newCompleted = await toggleTodo(moduleKey, id);
-      setCompleted(newCompleted);
-
-      // Dispatch event for potential sync
-      window.dispatchEvent(
-        new CustomEvent('todo-changed', {
-          detail: { moduleKey, id, completed: newCompleted },
-        })
-      );
+      await toggleTodo(moduleKey, id);
     } catch (error) {
       console.error('Failed to toggle todo:', error);
     }
   }
 
+  async function handleScheduleChange(schedule: { dueAt?: string; recurrence?: Recurrence }) {
+    try {
+      await setTodoSchedule(moduleKey, id, schedule);
+    } catch (error) {
+      console.error('Failed to update todo schedule:', error);
+    }
+  }
+
   async function handleNoteChange(newNote: string) {
+    pendingNoteWritesRef.current++;
     try {
       setNote(newNote);
       await updateTodoNote(moduleKey, id, newNote);
-
-      // Dispatch event for potential sync
-      window.dispatchEvent(
-        new CustomEvent('todo-note-changed', {
-          detail: { moduleKey, id, note: newNote },
-        })
-      );
     } catch (error) {
       console.error('Failed to update todo note:', error);
+    } finally {
+      pendingNoteWritesRef.current--;
     }
   }
 
+  const dueAt = todo?.dueAt;
+  const recurrence = todo?.recurrence;
+  const isOverdue = Boolean(dueAt && !completed && daysUntil(dueAt) < 0);
+  const recurrenceKey = (value?: Recurrence) => (value ? `${value.every}-${value.unit}` : '');
+  const recurrenceOptions =
+    recurrence && !RECURRENCE_PRESETS.some((preset) => recurrenceKey(preset) === recurrenceKey(recurrence))
+      ? [...RECURRENCE_PRESETS, recurrence]
+      : RECURRENCE_PRESETS;
+
   if (loading) {
     return (
-      <div className="flex items-start gap-3 p-3 rounded-lg bg-gray-100 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 animate-pulse">
+      <div
+        className="flex items-start gap-3 p-3 rounded-lg bg-gray-100 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 animate-pulse"
+        data-module-key={moduleKey}
+        data-todo-id={id}
+      >
         <div
           className="bg-gray-300 dark:bg-gray-600"
           style={{
@@ -188,7 +185,7 @@ export default function Todo({ id, moduleKey, children }: TodoProps) {
           }
         }
       `}</style>
-      <div className="space-y-2">
+      <div className="space-y-2" data-module-key={moduleKey} data-todo-id={id}>
         <label
           className={`todo-item group flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-all duration-base ${
             completed
@@ -244,13 +241,27 @@ export default function Todo({ id, moduleKey, children }: TodoProps) {
               </svg>
             )}
           </div>
-          <span
-            className={`todo-text flex-1 text-base transition-colors duration-base ${
-              completed ? 'completed text-gray-600 dark:text-gray-400' : 'text-gray-900 dark:text-gray-100'
-            }`}
-          >
-            {children}
-          </span>
+          <div className="flex-1">
+            <span
+              className={`todo-text block text-base transition-colors duration-base ${
+                completed ? 'completed text-gray-600 dark:text-gray-400' : 'text-gray-900 dark:text-gray-100'
+              }`}
+            >
+              {children}
+            </span>
+            {dueAt && (
+              <span
+                className={`todo-schedule mt-1 inline-flex items-center gap-1 text-body-small ${
+                  isOverdue ? 'text-destructive font-medium' : 'text-text-muted'
+                }`}
+              >
+                <CalendarClock size={14} aria-hidden="true" />
+                {completed && recurrence ? 'Next due' : isOverdue ? 'Overdue since' : 'Due'}{' '}
+                {formatDueDate(dueAt)}
+                {recurrence && ` · ${describeRecurrence(recurrence)}`}
+              </span>
+            )}
+          </div>
           <button
             type="button"
             onClick={(e) => {
@@ -267,8 +278,93 @@ export default function Todo({ id, moduleKey, children }: TodoProps) {
           >
             <StickyNote size={20} strokeWidth={note ? 2.5 : 2} />
           </button>
+          <button
+            type="button"
+            onClick={(e) => {
+              e.preventDefault();
+              setIsScheduleOpen(!isScheduleOpen);
+            }}
+            className={`todo-note-button flex-shrink-0 p-2 rounded-md transition-all duration-default focus:outline-none focus:ring-2 focus:ring-[var(--table-focus-ring)] focus:ring-offset-2 ${
+              dueAt || recurrence
+                ? 'text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/20 hover:bg-blue-100 dark:hover:bg-blue-900/30'
+                : 'text-gray-500 dark:text-gray-400 bg-gray-50 dark:bg-gray-800/50 hover:bg-gray-100 dark:hover:bg-gray-800'
+            }`}
+            aria-label={isScheduleOpen ? 'Hide due date' : 'Set due date'}
+            aria-expanded={isScheduleOpen}
+            title="Due date and repeat"
+          >
+            <CalendarClock size={20} />
+          </button>
+          <button
+            type="button"
+            onClick={(e) => {
+              e.preventDefault();
+              setIsHistoryOpen(!isHistoryOpen);
+            }}
+            className="todo-note-button flex-shrink-0 p-2 rounded-md text-gray-500 dark:text-gray-400 bg-gray-50 dark:bg-gray-800/50 hover:bg-gray-100 dark:hover:bg-gray-800 transition-all duration-default focus:outline-none focus:ring-2 focus:ring-[var(--table-focus-ring)] focus:ring-offset-2"
+            aria-label={isHistoryOpen ? 'Hide history' : 'Show history'}
+            aria-expanded={isHistoryOpen}
+            title="History"
+          >
+            <History size={20} />
+          </button>
         </label>
 
+        {isScheduleOpen && (
+          <div className="no-print ml-8 border border-border rounded-lg shadow-card bg-card p-md">
+            <div className="flex flex-wrap items-end gap-md">
+              <label className="block text-body-small font-medium text-text-secondary">
+                <span className="block mb-xs">Due date</span>
+                <input
+                  type="date"
+                  value={dueAt ?? ''}
+                  onChange={(e) => handleScheduleChange({ dueAt: e.target.value || undefined, recurrence })}
+                  className="px-sm py-xs border border-border rounded-lg bg-input text-body text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+                />
+              </label>
+              <label className="block text-body-small font-medium text-text-secondary">
+                <span className="block mb-xs">Repeat</span>
+                <select
+                  value={recurrenceKey(recurrence)}
+                  onChange={(e) =>
+                    handleScheduleChange({
+                      dueAt,
+                      recurrence: recurrenceOptions.find((option) => recurrenceKey(option) === e.target.value),
+                    })
+                  }
+                  className="px-sm py-xs border border-border rounded-lg bg-input text-body text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+                >
+                  <option value="">Does not repeat</option>
+                  {recurrenceOptions.map((option) => (
+                    <option key={recurrenceKey(option)} value={recurrenceKey(option)}>
+                      {describeRecurrence(option)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {(dueAt || recurrence) && (
+                <button
+                  type="button"
+                  onClick={() => handleScheduleChange({})}
+                  className="px-sm py-xs rounded-lg border border-border text-body-small font-medium text-foreground hover:bg-muted transition-colors"
+                >
+                  Clear
+                </button>
+              )}
+            </div>
+            <p className="mt-xs text-body-small text-text-muted">
+              Repeating items are unchecked automatically when they come due again, one interval after
+              you check them.
+            </p>
+          </div>
+        )}
+
+        {isHistoryOpen && (
+          <div className="ml-8">
+            <ChangeHistoryList load={loadHistory} title="History for this item" />
+          </div>
+        )}
+
         {/* Note Section */}
         {isNoteExpanded && (
           <div className="todo-note-section ml-8 border border-border rounded-lg shadow-card bg-card p-md">
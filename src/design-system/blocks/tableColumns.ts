@@ -0,0 +1,121 @@
+/**
+ * EditableTable Column Definitions
+ *
+ * `EditableTable` accepts either plain column names (rendered as single-line
+ * text, the original behavior) or `ColumnDef` objects that pick an input type,
+ * label and validation. Cell values are stored under `key`, so switching a
+ * column from a string to a definition with the same key keeps saved answers.
+ */
+
+export type ColumnType = 'text' | 'multiline' | 'tel' | 'email' | 'date' | 'number' | 'select';
+
+export interface ColumnDef {
+  key: string;               // Key in `TableRow.data` (e.g. "Your Response")
+  label?: string;            // Header text, defaults to `key`
+  type?: ColumnType;         // Defaults to "text"
+  placeholder?: string;
+  required?: boolean;
+  options?: string[];        // Choices for "select" columns
+  pattern?: string;          // Extra validation, matched against the whole value
+  patternMessage?: string;   // Shown when `pattern` does not match
+  min?: number;              // "number" columns only
+  max?: number;
+}
+
+/** Column definition with defaults applied */
+export type ResolvedColumn = ColumnDef & { label: string; type: ColumnType };
+
+export type ColumnSpec = string | ColumnDef;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const TEL_PATTERN = /^\+?[\d\s().-]{7,}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Turn the `columns` prop into full column definitions
+ */
+export function resolveColumns(columns: ColumnSpec[]): ResolvedColumn[] {
+  return columns.map((column) => {
+    const def = typeof column === 'string' ? { key: column } : column;
+    return { ...def, label: def.label ?? def.key, type: def.type ?? 'text' };
+  });
+}
+
+/** True for a real calendar date in YYYY-MM-DD form (rejects e.g. 2025-02-30) */
+function isValidDate(text: string): boolean {
+  if (!DATE_PATTERN.test(text)) return false;
+  const [year, month, day] = text.split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day;
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || String(value).trim() === '';
+}
+
+/**
+ * Convert an input's string value to the value stored for the column
+ * (numbers are stored as numbers; everything else as the typed string)
+ */
+export function parseCellInput(column: ResolvedColumn, input: string): string | number {
+  if (column.type === 'number' && input.trim() !== '') {
+    const value = Number(input);
+    return Number.isFinite(value) ? value : input;
+  }
+  return input;
+}
+
+/**
+ * Check a stored cell value against its column
+ * @returns An error message, or null if the value is valid
+ */
+export function validateCell(column: ResolvedColumn, value: unknown): string | null {
+  if (isEmpty(value)) {
+    return column.required ? `${column.label} is required` : null;
+  }
+
+  const text = String(value).trim();
+
+  switch (column.type) {
+    case 'email':
+      if (!EMAIL_PATTERN.test(text)) return 'Enter an email address like name@example.org';
+      break;
+    case 'tel':
+      if (!TEL_PATTERN.test(text)) return 'Enter a phone number like (802) 555-0123';
+      break;
+    case 'date':
+      if (!isValidDate(text)) return 'Enter a date';
+      break;
+    case 'number': {
+      const number = typeof value === 'number' ? value : Number(text);
+      if (!Number.isFinite(number)) return 'Enter a number';
+      if (column.min !== undefined && number < column.min) return `Must be at least ${column.min}`;
+      if (column.max !== undefined && number > column.max) return `Must be at most ${column.max}`;
+      break;
+    }
+    case 'select':
+      if (column.options && !column.options.includes(text)) return 'Choose one of the listed options';
+      break;
+  }
+
+  if (column.pattern && !new RegExp(`^(?:${column.pattern})$`).test(text)) {
+    return column.patternMessage ?? `${column.label} is not in the expected format`;
+  }
+
+  return null;
+}
+
+/**
+ * Text shown for a cell when it is not being edited
+ */
+export function formatCellValue(column: ResolvedColumn, value: unknown): string {
+  if (isEmpty(value)) return '';
+
+  if (column.type === 'date' && DATE_PATTERN.test(String(value))) {
+    // Parse as a local date so the day doesn't shift with the timezone
+    const [year, month, day] = String(value).split('-').map(Number);
+    return new Date(year, month - 1, day).toLocaleDateString();
+  }
+
+  return String(value);
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import type { TableRow } from '@/lib/storage';
+import { planTableImport, tableToCsv } from './tableCsv';
+import { resolveColumns } from './tableColumns';
+
+const COLUMNS = resolveColumns([
+  { key: 'contact', label: 'Contact' },
+  { key: 'phone', label: 'Phone' },
+  { key: 'people', label: 'People', type: 'number' },
+]);
+
+function row(rowId: string, data: Record<string, any>): TableRow {
+  return { id: `m-t-${rowId}`, moduleKey: 'm', tableId: 't', rowId, data, order: 0, updatedAt: '' };
+}
+
+describe('tableToCsv', () => {
+  it('keeps answers from running as spreadsheet formulas', () => {
+    const csv = tableToCsv(COLUMNS, [
+      row('row-1', { contact: '=HYPERLINK("https://example.org","Ann")', phone: '+1 555 0100', people: -2 }),
+      row('row-2', { contact: '@SUM(A1:A2)', phone: 'call ahead', people: 3 }),
+      row('row-3', { contact: '\t=1+1', phone: '\r=1+1', people: '-5' }),
+    ]);
+
+    expect(csv.split('\r\n')).toEqual([
+      'Contact,Phone,People',
+      `"'=HYPERLINK(""https://example.org"",""Ann"")",'+1 555 0100,-2`,
+      `'@SUM(A1:A2),call ahead,3`,
+      `'\t=1+1,"'\r=1+1",-5`,
+    ]);
+  });
+
+  it('round-trips guarded answers through an import', () => {
+    const rows = [row('row-1', { contact: '-Ann', phone: '', people: '' })];
+    const exported = tableToCsv(COLUMNS, [row('row-1', { contact: '-Ann', phone: '=555', people: -2 })]);
+
+    const plan = planTableImport(COLUMNS, rows, exported, () => false);
+    expect(plan.updates).toEqual([{ row: rows[0], data: { contact: '-Ann', phone: '=555', people: -2 } }]);
+    expect(plan.additions).toEqual([]);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * EditableTable CSV Import/Export
+ *
+ * Moves a single table's answers to and from a spreadsheet. Export writes one
+ * header row (column labels) plus one row per table row. Import maps CSV
+ * headers back to columns by label or key, then matches CSV rows to existing
+ * rows by their first column, so a sheet exported from the toolkit (or one of
+ * the Google Sheets templates with the same headings) fills in the answers
+ * next to the right prompts. Rows that match nothing are added as new rows.
+ *
+ * Prompt cells on pre-populated rows are never changed: a CSV row either
+ * matches a prompt exactly (and only its other cells are written) or becomes
+ * a new row.
+ */
+import { parseCsv, toCsv, unguardCsvFormula } from '@/lib/csv';
+import type { TableRow } from '@/lib/storage';
+import { parseCellInput, validateCell, type ResolvedColumn } from './tableColumns';
+
+export interface TableRowUpdate {
+  row: TableRow;
+  data: Record<string, any>;
+}
+
+export interface TableImportPlan {
+  /** Column keys found in the CSV, in table order */
+  matchedColumns: string[];
+  /** CSV headers that don't match any column (ignored) */
+  unmatchedHeaders: string[];
+  /** Existing rows whose answers change */
+  updates: TableRowUpdate[];
+  /** New rows to append */
+  additions: Record<string, any>[];
+  /** CSV rows that match an existing row and change nothing */
+  unchanged: number;
+  /** Values that fail the column's validation (imported anyway, like typed input) */
+  warnings: string[];
+}
+
+function normalizeHeader(text: string): string {
+  return text.replace(/\s*\*$/, '').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+function cellText(value: unknown): string {
+  return value === undefined || value === null ? '' : String(value);
+}
+
+/**
+ * Serialize a table's rows with the column labels as the header row
+ *
+ * Answers that look like formulas are guarded (see csv.ts), so opening the
+ * file in a spreadsheet never runs them.
+ */
+export function tableToCsv(columns: ResolvedColumn[], rows: TableRow[]): string {
+  return toCsv([
+    columns.map((column) => column.label),
+    ...rows.map((row) => columns.map((column) => cellText(row.data[column.key]))),
+  ]);
+}
+
+/**
+ * Work out what importing `csvText` would change, without writing anything
+ * @param isInitialRow - Whether a row is pre-populated (its prompt is read-only)
+ * @throws Error if the CSV can't be parsed or lacks the first (prompt) column
+ */
+export function planTableImport(
+  columns: ResolvedColumn[],
+  rows: TableRow[],
+  csvText: string,
+  isInitialRow: (rowId: string) => boolean
+): TableImportPlan {
+  const [headers = [], ...records] = parseCsv(csvText);
+
+  // CSV column index -> table column
+  const mapping = headers.map((header) => {
+    const wanted = normalizeHeader(header);
+    return (
+      columns.find(
+        (column) =>
+          normalizeHeader(column.label) === wanted || normalizeHeader(column.key) === wanted
+      ) ?? null
+    );
+  });
+
+  const promptColumn = columns[0];
+  const promptIndex = mapping.findIndex((column) => column?.key === promptColumn?.key);
+  if (!promptColumn || promptIndex === -1) {
+    throw new Error(`The CSV needs a "${promptColumn?.label ?? 'first'}" column to match rows`);
+  }
+
+  // Existing rows waiting to be matched, grouped by their first-column text
+  const available = new Map<string, TableRow[]>();
+  rows.forEach((row) => {
+    const key = cellText(row.data[promptColumn.key]).trim();
+    available.set(key, [...(available.get(key) ?? []), row]);
+  });
+
+  const plan: TableImportPlan = {
+    matchedColumns: columns
+      .filter((column) => mapping.some((mapped) => mapped?.key === column.key))
+      .map((column) => column.key),
+    unmatchedHeaders: headers.filter((header, index) => !mapping[index] && header.trim() !== ''),
+    updates: [],
+    additions: [],
+    unchanged: 0,
+    warnings: [],
+  };
+
+  records.forEach((record, recordIndex) => {
+    const values: Record<string, any> = {};
+    mapping.forEach((column, index) => {
+      if (column) values[column.key] = parseCellInput(column, unguardCsvFormula((record[index] ?? '').trim()));
+    });
+
+    if (Object.values(values).every((value) => cellText(value) === '')) return;
+
+    const promptText = cellText(values[promptColumn.key]).trim();
+    const match = available.get(promptText)?.shift();
+
+    columns.forEach((column) => {
+      if (!(column.key in values)) return;
+      if (match && isInitialRow(match.rowId) && column.key === promptColumn.key) return;
+      const error = validateCell({ ...column, required: false }, values[column.key]);
+      if (error) plan.warnings.push(`Row ${recordIndex + 2}, ${column.label}: ${error}`);
+    });
+
+    if (!match) {
+      plan.additions.push(
+        Object.fromEntries(columns.map((column) => [column.key, values[column.key] ?? '']))
+      );
+      return;
+    }
+
+    const data = { ...match.data };
+    columns.forEach((column) => {
+      // Prompt cells on pre-populated rows stay read-only
+      if (column.key === promptColumn.key && isInitialRow(match.rowId)) return;
+      if (column.key in values) data[column.key] = values[column.key];
+    });
+
+    const changed = columns.some(
+      (column) => cellText(data[column.key]) !== cellText(match.data[column.key])
+    );
+    if (changed) {
+      plan.updates.push({ row: match, data });
+    } else {
+      plan.unchanged++;
+    }
+  });
+
+  return plan;
+}
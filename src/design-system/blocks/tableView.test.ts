@@ -0,0 +1,34 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { memoryStorage } from '@/test/memoryStorage';
+
+const VIEW = { sort: { key: 'name', direction: 'desc' as const }, filter: 'water', emptyOnly: true };
+
+describe('table views', () => {
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+    vi.stubGlobal('localStorage', memoryStorage());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('are kept per profile and cleared when the profile is deleted', async () => {
+    const profiles = await import('@/lib/profiles');
+    const { DEFAULT_TABLE_VIEW, loadTableView, saveTableView } = await import('./tableView');
+    const hub = profiles.createProfile('Riverside Hub', 'hub');
+
+    profiles.setActiveProfile(hub.id);
+    saveTableView('1-1-kits', 'contacts', VIEW);
+    expect(loadTableView('1-1-kits', 'contacts')).toEqual(VIEW);
+
+    profiles.setActiveProfile(profiles.DEFAULT_PROFILE_ID);
+    expect(loadTableView('1-1-kits', 'contacts')).toEqual(DEFAULT_TABLE_VIEW);
+
+    await profiles.deleteProfile(hub.id);
+    expect(localStorage.length).toBe(2); // The profile list and active profile
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * EditableTable View State
+ *
+ * Sort, filter and "only empty responses" settings for a table. They only
+ * change what is displayed - stored row order is untouched - and are kept in
+ * localStorage per profile and `moduleKey`/`tableId`, like other display
+ * preferences (theme, dismissed banners).
+ */
+import { getActiveProfile, getProfileStoragePrefix } from '@/lib/profiles';
+import type { TableRow } from '@/lib/storage';
+import { formatCellValue, type ResolvedColumn } from './tableColumns';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface TableView {
+  sort: { key: string; direction: SortDirection } | null;
+  filter: string;
+  emptyOnly: boolean;
+}
+
+export const DEFAULT_TABLE_VIEW: TableView = { sort: null, filter: '', emptyOnly: false };
+
+function storageKey(moduleKey: string, tableId: string): string {
+  return `${getProfileStoragePrefix(getActiveProfile().id)}table-view-${moduleKey}-${tableId}`;
+}
+
+/**
+ * Read the saved view for a table (defaults if none or unreadable)
+ */
+export function loadTableView(moduleKey: string, tableId: string): TableView {
+  try {
+    const saved = localStorage.getItem(storageKey(moduleKey, tableId));
+    if (!saved) return DEFAULT_TABLE_VIEW;
+
+    const parsed = JSON.parse(saved);
+    return {
+      sort:
+        parsed.sort && typeof parsed.sort.key === 'string'
+          ? { key: parsed.sort.key, direction: parsed.sort.direction === 'desc' ? 'desc' : 'asc' }
+          : null,
+      filter: typeof parsed.filter === 'string' ? parsed.filter : '',
+      emptyOnly: parsed.emptyOnly === true,
+    };
+  } catch {
+    return DEFAULT_TABLE_VIEW;
+  }
+}
+
+/**
+ * Remember the view for a table; the default view clears the saved entry
+ */
+export function saveTableView(moduleKey: string, tableId: string, view: TableView): void {
+  try {
+    if (isDefaultView(view)) {
+      localStorage.removeItem(storageKey(moduleKey, tableId));
+    } else {
+      localStorage.setItem(storageKey(moduleKey, tableId), JSON.stringify(view));
+    }
+  } catch (error) {
+    console.warn('Failed to save table view:', error);
+  }
+}
+
+export function isDefaultView(view: TableView): boolean {
+  return !view.sort && view.filter.trim() === '' && !view.emptyOnly;
+}
+
+/**
+ * Cycle a column's sort: ascending -> descending -> off
+ */
+export function nextSort(view: TableView, key: string): TableView['sort'] {
+  if (view.sort?.key !== key) return { key, direction: 'asc' };
+  return view.sort.direction === 'asc' ? { key, direction: 'desc' } : null;
+}
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || String(value).trim() === '';
+}
+
+function compareValues(column: ResolvedColumn, a: unknown, b: unknown): number {
+  if (column.type === 'number') {
+    const numberA = Number(a);
+    const numberB = Number(b);
+    if (Number.isFinite(numberA) && Number.isFinite(numberB)) return numberA - numberB;
+  }
+  // Dates are stored as YYYY-MM-DD, so string order is date order
+  return String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: 'base' });
+}
+
+/**
+ * Rows to display for a view, in display order
+ * @param columns - Table columns; the first is the prompt column
+ */
+export function applyTableView(
+  columns: ResolvedColumn[],
+  rows: TableRow[],
+  view: TableView
+): TableRow[] {
+  const [, ...responseColumns] = columns;
+  const query = view.filter.trim().toLowerCase();
+  let visible = rows;
+
+  if (view.emptyOnly) {
+    visible = visible.filter((row) =>
+      responseColumns.some((column) => isBlank(row.data[column.key]))
+    );
+  }
+
+  if (query) {
+    visible = visible.filter((row) =>
+      columns.some((column) =>
+        formatCellValue(column, row.data[column.key]).toLowerCase().includes(query)
+      )
+    );
+  }
+
+  const sortColumn = view.sort && columns.find((column) => column.key === view.sort?.key);
+  if (view.sort && sortColumn) {
+    const direction = view.sort.direction === 'asc' ? 1 : -1;
+    visible = [...visible].sort((a, b) => {
+      const valueA = a.data[sortColumn.key];
+      const valueB = b.data[sortColumn.key];
+      // Empty cells always sort last
+      if (isBlank(valueA) || isBlank(valueB)) {
+        return Number(isBlank(valueA)) - Number(isBlank(valueB));
+      }
+      return compareValues(sortColumn, valueA, valueB) * direction;
+    });
+  }
+
+  return visible;
+}
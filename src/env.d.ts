@@ -1,5 +1,10 @@
 /// <reference path="../.astro/types.d.ts" />
 
+interface ImportMetaEnv {
+  /** Origin of a hub's team sync server when it isn't served with the toolkit, e.g. "https://sync.example.org" */
+  readonly PUBLIC_TEAM_SYNC_ORIGIN?: string;
+}
+
 declare namespace App {
   interface Locals {
     // DISABLED - Supabase authentication removed
@@ -0,0 +1,98 @@
+/**
+ * Precache Manifest Integration
+ *
+ * After `astro build`, lists every page and asset in the build output with a
+ * hash of its content and fills the list into the service worker (`sw.js`,
+ * copied from public/), along with a cache version derived from it. The
+ * worker caches exactly what was built, so the toolkit works offline in full,
+ * and any change to the site - including to sw.js itself - installs a new
+ * version. The list is also written to `precache-manifest.json`.
+ *
+ * Pages are listed by their directory URL ("/dashboard/" for
+ * dashboard/index.html), which static hosts serve without redirecting.
+ */
+import { createHash } from 'node:crypto';
+import { readdir, readFile, writeFile } from 'node:fs/promises';
+import { join, relative, sep } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { AstroIntegration } from 'astro';
+
+const SERVICE_WORKER_FILE = 'sw.js';
+const MANIFEST_FILE = 'precache-manifest.json';
+
+/** Build output that isn't precached: the worker, the manifest and server-only or debug files */
+const EXCLUDED_FILES = [/^sw\.js$/, /^precache-manifest\.json$/, /\.mjs$/, /\.map$/, /^_(headers|redirects)$/];
+
+/** Lines in public/sw.js that are filled in */
+const VERSION_PATTERN = /^const CACHE_VERSION = .*;$/m;
+const MANIFEST_PATTERN = /^const PRECACHE_MANIFEST = \[\];$/m;
+
+interface PrecacheEntry {
+  url: string;
+  /** Hash of the file's content */
+  revision: string;
+}
+
+function hash(content: string | Buffer, length: number): string {
+  return createHash('sha256').update(content).digest('hex').slice(0, length);
+}
+
+async function listFiles(dir: string, root = dir): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files = await Promise.all(
+    entries.map(async (entry) => {
+      const path = join(dir, entry.name);
+      if (entry.isDirectory()) return listFiles(path, root);
+      return entry.isFile() ? [relative(root, path).split(sep).join('/')] : [];
+    })
+  );
+  return files.flat();
+}
+
+function toUrl(file: string): string {
+  return encodeURI(`/${file}`.replace(/(^|\/)index\.html$/, '$1'));
+}
+
+/**
+ * Every precached file in a build output folder, with its URL and revision
+ */
+async function buildPrecacheManifest(outDir: string): Promise<PrecacheEntry[]> {
+  const files = (await listFiles(outDir)).filter((file) => !EXCLUDED_FILES.some((pattern) => pattern.test(file)));
+  const manifest = await Promise.all(
+    files.map(async (file) => ({
+      url: toUrl(file),
+      revision: hash(await readFile(join(outDir, file)), 16),
+    }))
+  );
+  return manifest.sort((a, b) => (a.url < b.url ? -1 : 1));
+}
+
+export default function precacheManifest(): AstroIntegration {
+  return {
+    name: 'precache-manifest',
+    hooks: {
+      'astro:build:done': async ({ dir, logger }) => {
+        const outDir = fileURLToPath(dir);
+        const workerPath = join(outDir, SERVICE_WORKER_FILE);
+        const worker = await readFile(workerPath, 'utf8');
+        if (!VERSION_PATTERN.test(worker) || !MANIFEST_PATTERN.test(worker)) {
+          throw new Error(
+            `${SERVICE_WORKER_FILE} must declare "const CACHE_VERSION = ...;" and "const PRECACHE_MANIFEST = [];"`
+          );
+        }
+
+        const manifest = await buildPrecacheManifest(outDir);
+        const version = hash(JSON.stringify(manifest) + worker, 12);
+
+        await writeFile(join(outDir, MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+        await writeFile(
+          workerPath,
+          worker
+            .replace(VERSION_PATTERN, () => `const CACHE_VERSION = '${version}';`)
+            .replace(MANIFEST_PATTERN, () => `const PRECACHE_MANIFEST = ${JSON.stringify(manifest, null, 2)};`)
+        );
+        logger.info(`Service worker version ${version} precaches ${manifest.length} files`);
+      },
+    },
+  };
+}
@@ -0,0 +1,136 @@
+/**
+ * Change History Formatting
+ *
+ * Turns change journal entries (see the CHANGE JOURNAL section of storage.ts)
+ * into short, human-readable lines for the history views in `Todo` and
+ * `EditableTable`, the app-wide undo bar and the sync conflict review.
+ */
+import {
+  getDeviceId,
+  type Annotation,
+  type JournalEntry,
+  type TableRow,
+  type Todo,
+} from './storage';
+import { describeRecurrence, formatDueDate } from './recurrence';
+
+const MAX_VALUE_LENGTH = 40;
+
+function quote(value: unknown): string {
+  const text = value === undefined || value === null ? '' : String(value).replace(/\s+/g, ' ').trim();
+  if (!text) return 'empty';
+  return `"${text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text}"`;
+}
+
+function describeTodo(before: Todo | null, after: Todo | null): string {
+  if (!after) return 'Removed';
+
+  const parts: string[] = [];
+  if (Boolean(before?.completed) !== after.completed) {
+    parts.push(after.completed ? 'Checked' : 'Unchecked');
+  }
+  if ((before?.notes ?? '') !== (after.notes ?? '')) {
+    parts.push(after.notes ? `Note: ${quote(after.notes)}` : 'Note removed');
+  }
+  if (before?.dueAt !== after.dueAt) {
+    parts.push(after.dueAt ? `Due ${formatDueDate(after.dueAt)}` : 'Due date removed');
+  }
+  const beforeRepeat = before?.recurrence && describeRecurrence(before.recurrence);
+  const afterRepeat = after.recurrence && describeRecurrence(after.recurrence);
+  if (beforeRepeat !== afterRepeat) {
+    parts.push(afterRepeat ? `Repeats: ${afterRepeat.toLowerCase()}` : 'No longer repeats');
+  }
+  return parts.join('; ') || 'Saved';
+}
+
+function describeTableRow(before: TableRow | null, after: TableRow | null): string {
+  if (!before) return 'Row added';
+  if (!after) return 'Row deleted';
+
+  const columns = new Set([...Object.keys(before.data), ...Object.keys(after.data)]);
+  const parts = [...columns]
+    .filter((column) => String(before.data[column] ?? '') !== String(after.data[column] ?? ''))
+    .map((column) => `${column}: ${quote(before.data[column])} → ${quote(after.data[column])}`);
+
+  if (parts.length === 0 && before.order !== after.order) return 'Row moved';
+  return parts.join('; ') || 'Saved';
+}
+
+function describeAnnotation(after: Annotation | null): string {
+  return after ? `Note: ${quote(after.text)}` : 'Note removed';
+}
+
+/**
+ * One-line description of what a journal entry changed
+ */
+export function describeEntry(entry: JournalEntry): string {
+  let text: string;
+
+  switch (entry.store) {
+    case 'todos':
+      text = describeTodo(entry.before as Todo | null, entry.after as Todo | null);
+      break;
+    case 'tables':
+      text = describeTableRow(entry.before as TableRow | null, entry.after as TableRow | null);
+      break;
+    case 'annotations':
+      text = describeAnnotation(entry.after as Annotation | null);
+      break;
+    case 'archive':
+      text = entry.after ? 'Moved to archive' : 'Restored from archive';
+      break;
+  }
+
+  if (entry.kind === 'undo') return `Undo (${entry.label}): ${text}`;
+  if (entry.kind === 'redo') return `Redo (${entry.label}): ${text}`;
+  if (entry.kind === 'system') return `${entry.label}: ${text}`;
+  return text;
+}
+
+/**
+ * One field of a record (see merge.ts), e.g. each side of a sync conflict
+ */
+export function describeField(
+  store: JournalEntry['store'],
+  field: string,
+  record: NonNullable<JournalEntry['after']>
+): string {
+  switch (store) {
+    case 'todos':
+    case 'archive': {
+      const todo = record as Todo;
+      if (field === 'completed') return todo.completed ? 'Checked' : 'Not checked';
+      if (field === 'notes') return todo.notes ? `Note: ${quote(todo.notes)}` : 'No note';
+      return (
+        [
+          todo.dueAt && `Due ${formatDueDate(todo.dueAt)}`,
+          todo.recurrence && `Repeats: ${describeRecurrence(todo.recurrence).toLowerCase()}`,
+        ]
+          .filter(Boolean)
+          .join('; ') || 'No due date'
+      );
+    }
+    case 'tables': {
+      const row = record as TableRow;
+      if (field === 'order') return row.order === undefined ? 'Original position' : `Row ${row.order + 1}`;
+      const column = field.replace(/^data\./, '');
+      return `${column}: ${quote(row.data[column])}`;
+    }
+    case 'annotations':
+      return describeAnnotation(record as Annotation);
+  }
+}
+
+/**
+ * "This device" or a short device id, for the "who" column
+ */
+export function describeDevice(deviceId: string): string {
+  return deviceId === getDeviceId() ? 'This device' : `Device ${deviceId.replace(/^device-/, '').slice(0, 8)}`;
+}
+
+/**
+ * Local date and time for a history row
+ */
+export function formatChangeTime(at: string): string {
+  return new Date(at).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
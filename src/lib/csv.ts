@@ -0,0 +1,98 @@
+/**
+ * CSV Utilities
+ *
+ * Minimal RFC 4180 CSV reader/writer used by the local data exports and
+ * table imports. Output uses CRLF line endings and quotes only the fields
+ * that need it, which opens cleanly in Excel, Numbers and Google Sheets.
+ *
+ * Fields a spreadsheet would run as a formula (starting with `=`, `+`, `-`,
+ * `@`, a tab or a carriage return) are written with a leading `'`, which
+ * spreadsheets show as text; `unguardCsvFormula` removes it again on import.
+ * Plain numbers such as `-5` are left as they are.
+ */
+
+/** Leading characters that make a spreadsheet read a field as a formula */
+const FORMULA_PATTERN = /^[=+\-@\t\r]/;
+
+function isFormulaLike(text: string): boolean {
+  return FORMULA_PATTERN.test(text) && !Number.isFinite(Number(text));
+}
+
+/**
+ * Quote a single field if it contains a delimiter, quote or line break
+ */
+export function escapeCsvField(value: unknown): string {
+  const raw = value === undefined || value === null ? '' : String(value);
+  const text = isFormulaLike(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * A field as it was before `escapeCsvField` kept it from running as a formula
+ */
+export function unguardCsvFormula(text: string): string {
+  return text.startsWith("'") && isFormulaLike(text.slice(1)) ? text.slice(1) : text;
+}
+
+/**
+ * Serialize rows (first row is usually the header) to a CSV string
+ */
+export function toCsv(rows: unknown[][]): string {
+  return rows.map((row) => row.map(escapeCsvField).join(',')).join('\r\n');
+}
+
+/**
+ * Parse CSV text into rows of fields
+ *
+ * Handles quoted fields (including embedded commas, quotes and line breaks),
+ * CRLF/LF line endings and the UTF-8 byte order mark Excel adds. Blank lines
+ * are dropped.
+ *
+ * @throws Error if a quoted field is never closed
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('CSV has an unterminated quoted field');
+  }
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+}
@@ -0,0 +1,44 @@
+/**
+ * Client-side File Downloads
+ *
+ * Saves generated content (backups, exports) as a file on the user's device.
+ * Everything is built in the browser - nothing is uploaded anywhere.
+ */
+
+/**
+ * Trigger a browser download for in-memory content
+ * @param filename - Suggested file name (e.g., "backup-2025-01-01.json")
+ * @param content - File contents
+ * @param mimeType - MIME type (e.g., "application/json")
+ */
+export function downloadFile(filename: string, content: string | Blob, mimeType: string): void {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  // Revoke on the next tick so the download has started
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Lowercase, hyphenated form of a title or name for use in file names
+ */
+export function toFileSlug(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+/**
+ * Today's date as YYYY-MM-DD, for use in generated file names
+ */
+export function dateStamp(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
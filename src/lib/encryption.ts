@@ -0,0 +1,319 @@
+/**
+ * Passphrase Encryption
+ *
+ * WebCrypto helpers for the optional passphrase lock (see "ENCRYPTION" in
+ * storage.ts): a key derived from the passphrase with PBKDF2 encrypts notes
+ * and table answers with AES-GCM before they reach IndexedDB.
+ *
+ * ## Sessions:
+ * Unlocking keeps the derived key in sessionStorage so it survives page
+ * navigation but not closing the tab. The session ends after `autoLockMinutes`
+ * without activity (`extendSession`), or immediately on `endSession`. The
+ * passphrase itself is never stored.
+ */
+
+/** Prefix of an encrypted value: `enc:v1:<iv>:<ciphertext>` (both base64) */
+const ENCRYPTED_PREFIX = 'enc:v1:';
+
+/** Known text encrypted into `EncryptionConfig.verifier` to check a passphrase */
+const VERIFIER_TEXT = 'resilience-toolkit';
+
+const PBKDF2_ITERATIONS = 600_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+/** Shortest passphrase accepted when turning the lock on */
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+/** Choices for locking after inactivity (0: only when the tab is closed) */
+export const AUTO_LOCK_OPTIONS = [5, 15, 30, 60, 0];
+
+/**
+ * Everything needed to turn a passphrase back into the key (no secrets)
+ */
+export interface EncryptionConfig {
+  salt: string; // base64
+  iterations: number;
+  /** `VERIFIER_TEXT` encrypted with the key; decrypts only with the right passphrase */
+  verifier: string;
+  autoLockMinutes: number;
+}
+
+/**
+ * Whether a stored value is encrypted
+ */
+export function isEncrypted(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX);
+}
+
+export function toBase64(bytes: ArrayBuffer | Uint8Array): string {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = '';
+  view.forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary);
+}
+
+export function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+}
+
+/**
+ * Derive the AES-GCM key for a passphrase
+ *
+ * Extractable so an unlocked session can keep it in sessionStorage.
+ */
+export async function deriveKey(passphrase: string, salt: string, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: fromBase64(salt), iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    true,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Encrypt text with a fresh random IV
+ */
+export async function encryptText(key: CryptoKey, text: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(text)
+  );
+  return `${ENCRYPTED_PREFIX}${toBase64(iv)}:${toBase64(ciphertext)}`;
+}
+
+/**
+ * Decrypt a value from `encryptText` (throws if the key is wrong or the data was altered)
+ */
+export async function decryptText(key: CryptoKey, value: string): Promise<string> {
+  const [iv, ciphertext] = value.slice(ENCRYPTED_PREFIX.length).split(':');
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(iv) },
+    key,
+    fromBase64(ciphertext)
+  );
+  return new TextDecoder().decode(plaintext);
+}
+
+/**
+ * Set up encryption for a new passphrase
+ */
+export async function createEncryptionConfig(
+  passphrase: string,
+  autoLockMinutes: number
+): Promise<{ config: EncryptionConfig; key: CryptoKey }> {
+  const salt = toBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES)));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const verifier = await encryptText(key, VERIFIER_TEXT);
+  return { config: { salt, iterations: PBKDF2_ITERATIONS, verifier, autoLockMinutes }, key };
+}
+
+/**
+ * The key for a passphrase, or null if it is the wrong passphrase
+ */
+export async function checkPassphrase(
+  config: EncryptionConfig,
+  passphrase: string
+): Promise<CryptoKey | null> {
+  const key = await deriveKey(passphrase, config.salt, config.iterations);
+  try {
+    return (await decryptText(key, config.verifier)) === VERIFIER_TEXT ? key : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Text encrypted with a passphrase alone (with its own salt), for files that
+ * leave the device
+ */
+export interface PassphraseEncrypted {
+  salt: string;
+  iterations: number;
+  data: string;
+}
+
+export async function encryptWithPassphrase(text: string, passphrase: string): Promise<PassphraseEncrypted> {
+  const salt = toBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES)));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  return { salt, iterations: PBKDF2_ITERATIONS, data: await encryptText(key, text) };
+}
+
+/**
+ * The text inside `encrypted`, or null if the passphrase is wrong
+ */
+export async function decryptWithPassphrase(
+  encrypted: PassphraseEncrypted,
+  passphrase: string
+): Promise<string | null> {
+  const key = await deriveKey(passphrase, encrypted.salt, encrypted.iterations);
+  try {
+    return await decryptText(key, encrypted.data);
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// SESSIONS
+// ============================================================================
+
+const SESSION_STORAGE_KEY = 'encryptionSession';
+
+interface StoredSession {
+  /** Which profile and passphrase the key belongs to (see `sessionScope`) */
+  scope: string;
+  key: string; // Raw key, base64
+  /** Epoch ms after which the session has ended (0: lasts until the tab closes) */
+  lockAt: number;
+}
+
+let importedKey: { raw: string; key: CryptoKey } | null = null;
+
+/**
+ * Identifies a profile's current passphrase, so a session can't outlive a
+ * passphrase change or being turned off
+ */
+export function sessionScope(profileId: string, config: EncryptionConfig): string {
+  return `${profileId}:${config.verifier}`;
+}
+
+function readSession(): StoredSession | null {
+  if (typeof sessionStorage === 'undefined') return null;
+  try {
+    return JSON.parse(sessionStorage.getItem(SESSION_STORAGE_KEY) ?? 'null');
+  } catch {
+    return null;
+  }
+}
+
+function lockTime(autoLockMinutes: number): number {
+  return autoLockMinutes > 0 ? Date.now() + autoLockMinutes * 60 * 1000 : 0;
+}
+
+/**
+ * The unlocked key for `scope`, or null if locked (including after auto-lock)
+ */
+export async function getSessionKey(scope: string): Promise<CryptoKey | null> {
+  const session = readSession();
+  if (!session || session.scope !== scope) return null;
+
+  if (session.lockAt > 0 && Date.now() > session.lockAt) {
+    endSession();
+    return null;
+  }
+
+  if (importedKey?.raw !== session.key) {
+    const key = await crypto.subtle.importKey('raw', fromBase64(session.key), 'AES-GCM', false, [
+      'encrypt',
+      'decrypt',
+    ]);
+    importedKey = { raw: session.key, key };
+  }
+  return importedKey.key;
+}
+
+/**
+ * Unlock this tab
+ */
+export async function startSession(scope: string, key: CryptoKey, autoLockMinutes: number): Promise<void> {
+  const raw = toBase64(await crypto.subtle.exportKey('raw', key));
+  const session: StoredSession = { scope, key: raw, lockAt: lockTime(autoLockMinutes) };
+  sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+}
+
+/**
+ * Push the auto-lock back after activity
+ */
+export function extendSession(autoLockMinutes: number): void {
+  const session = readSession();
+  if (!session) return;
+  if (session.lockAt > 0 && Date.now() > session.lockAt) {
+    endSession();
+    return;
+  }
+  sessionStorage.setItem(
+    SESSION_STORAGE_KEY,
+    JSON.stringify({ ...session, lockAt: lockTime(autoLockMinutes) })
+  );
+}
+
+/**
+ * When this tab will lock (epoch ms), 0 if only when it closes, null if locked
+ */
+export function getSessionLockAt(): number | null {
+  return readSession()?.lockAt ?? null;
+}
+
+/**
+ * Lock this tab
+ */
+export function endSession(): void {
+  importedKey = null;
+  if (typeof sessionStorage !== 'undefined') {
+    sessionStorage.removeItem(SESSION_STORAGE_KEY);
+  }
+}
+
+// ============================================================================
+// ENCRYPTED BACKUPS
+// ============================================================================
+
+const ENCRYPTED_BACKUP_FORMAT = 'resilience-toolkit-encrypted-backup';
+
+/**
+ * Backup file written while the lock is on: the whole backup JSON, encrypted
+ * with the same passphrase
+ */
+export interface EncryptedBackup {
+  format: typeof ENCRYPTED_BACKUP_FORMAT;
+  version: 1;
+  salt: string;
+  iterations: number;
+  data: string;
+}
+
+export function isEncryptedBackup(payload: unknown): payload is EncryptedBackup {
+  if (typeof payload !== 'object' || payload === null) return false;
+  const { format, salt, iterations, data } = payload as Partial<EncryptedBackup>;
+  return (
+    format === ENCRYPTED_BACKUP_FORMAT &&
+    typeof salt === 'string' &&
+    typeof iterations === 'number' &&
+    isEncrypted(data)
+  );
+}
+
+/**
+ * Encrypt backup JSON with an unlocked key (its salt lets the passphrase open it anywhere)
+ */
+export async function encryptBackup(
+  json: string,
+  key: CryptoKey,
+  config: EncryptionConfig
+): Promise<EncryptedBackup> {
+  return {
+    format: ENCRYPTED_BACKUP_FORMAT,
+    version: 1,
+    salt: config.salt,
+    iterations: config.iterations,
+    data: await encryptText(key, json),
+  };
+}
+
+/**
+ * The backup JSON inside an encrypted backup, or null if the passphrase is wrong
+ */
+export async function decryptBackup(backup: EncryptedBackup, passphrase: string): Promise<string | null> {
+  return decryptWithPassphrase(backup, passphrase);
+}
@@ -0,0 +1,233 @@
+import { describe, expect, it } from 'vitest';
+import { diffRecord, getConflicts, mergeRecord, revertFields, stampFieldTimes } from './merge';
+import type { Annotation, TableRow, Todo } from './storage';
+
+const T1 = '2025-03-01T10:00:00.000Z';
+const T2 = '2025-03-02T10:00:00.000Z';
+const T3 = '2025-03-03T10:00:00.000Z';
+const T4 = '2025-03-04T10:00:00.000Z';
+
+const BASE_TODO: Todo = {
+  id: '1-1-kits-water',
+  moduleKey: '1-1-kits',
+  todoId: 'water',
+  completed: false,
+  notes: 'Two gallons per person',
+  updatedAt: T1,
+  fieldUpdatedAt: { notes: T1 },
+};
+
+const BASE_ROW: TableRow = {
+  id: '1-1-kits-contacts-row-1',
+  moduleKey: '1-1-kits',
+  tableId: 'contacts',
+  rowId: 'row-1',
+  data: { name: 'Ann', phone: '555-0100' },
+  order: 0,
+  updatedAt: T1,
+  fieldUpdatedAt: { order: T1, 'data.name': T1, 'data.phone': T1 },
+};
+
+const BASE_NOTE: Annotation = {
+  id: '1-1-kits-contacts',
+  moduleKey: '1-1-kits',
+  blockId: 'contacts',
+  blockType: 'table',
+  text: 'Call weekly',
+  updatedAt: T1,
+};
+
+/** A version of a record with some fields changed at `at` */
+function edit<T extends Todo | TableRow>(store: 'todos' | 'tables', record: T, changes: Partial<T>, at: string): T {
+  return stampFieldTimes(store, record, { ...record, ...changes, updatedAt: at }, at);
+}
+
+describe('diffRecord and mergeRecord', () => {
+  it('takes the fields each side changed on checklist items', () => {
+    const local = edit('todos', BASE_TODO, { completed: true, completedAt: T2 }, T2);
+    const incoming = edit('todos', BASE_TODO, { notes: 'Three gallons per person' }, T3);
+
+    const diff = diffRecord('todos', BASE_TODO, local, incoming);
+    expect(diff.changes.map(({ field, outcome }) => ({ field, outcome }))).toEqual([
+      { field: 'completed', outcome: 'local' },
+      { field: 'notes', outcome: 'incoming' },
+    ]);
+    expect(mergeRecord(diff)).toEqual({
+      ...BASE_TODO,
+      completed: true,
+      completedAt: T2,
+      notes: 'Three gallons per person',
+      updatedAt: T3,
+      fieldUpdatedAt: { completed: T2, notes: T3 },
+    });
+  });
+
+  it('takes the cells each side changed on table rows', () => {
+    const local = edit('tables', BASE_ROW, { data: { ...BASE_ROW.data, name: 'Ann Lee' } }, T2);
+    const incoming = edit('tables', BASE_ROW, { data: { ...BASE_ROW.data, phone: '555-0199' }, order: 3 }, T3);
+
+    const merged = mergeRecord(diffRecord('tables', BASE_ROW, local, incoming));
+    expect(merged.data).toEqual({ name: 'Ann Lee', phone: '555-0199' });
+    expect(merged.order).toBe(3);
+    expect(merged.fieldUpdatedAt).toEqual({ order: T3, 'data.name': T2, 'data.phone': T3 });
+  });
+
+  it('takes a table note only the sender changed', () => {
+    const incoming = { ...BASE_NOTE, text: 'Call every Monday', updatedAt: T2 };
+
+    const diff = diffRecord('annotations', BASE_NOTE, BASE_NOTE, incoming);
+    expect(diff.changes.map(({ outcome }) => outcome)).toEqual(['incoming']);
+    expect(mergeRecord(diff)).toBe(incoming);
+  });
+
+  it('keeps a record unchanged when only this device changed it', () => {
+    const local = edit('todos', BASE_TODO, { notes: 'Three gallons per person' }, T2);
+
+    const diff = diffRecord('todos', BASE_TODO, local, BASE_TODO);
+    expect(diff.changes.map(({ outcome }) => outcome)).toEqual(['local']);
+    expect(mergeRecord(diff)).toBe(local);
+  });
+});
+
+describe('conflicts', () => {
+  const local = edit('todos', BASE_TODO, { notes: 'Three gallons per person' }, T2);
+  const incoming = edit('todos', BASE_TODO, { notes: 'Four gallons per person' }, T3);
+
+  it('are fields changed on both sides, suggesting the newer version', () => {
+    const diff = diffRecord('todos', BASE_TODO, local, incoming);
+
+    expect(getConflicts(diff)).toEqual([
+      {
+        field: 'notes',
+        local: ['Three gallons per person'],
+        incoming: ['Four gallons per person'],
+        localAt: T2,
+        incomingAt: T3,
+        outcome: 'conflict',
+        suggested: 'incoming',
+      },
+    ]);
+    expect(mergeRecord(diff).notes).toBe('Four gallons per person');
+  });
+
+  it('take the version the household chose', () => {
+    const diff = diffRecord('todos', BASE_TODO, local, incoming);
+
+    expect(mergeRecord(diff, { notes: 'local' })).toBe(local);
+  });
+
+  it('include table notes changed on both sides', () => {
+    const localNote = { ...BASE_NOTE, text: 'Call on Mondays', updatedAt: T3 };
+    const incomingNote = { ...BASE_NOTE, text: 'Call on Fridays', updatedAt: T2 };
+
+    const diff = diffRecord('annotations', BASE_NOTE, localNote, incomingNote);
+    expect(getConflicts(diff).map(({ suggested }) => suggested)).toEqual(['local']);
+    expect(mergeRecord(diff, { text: 'incoming' })).toBe(incomingNote);
+  });
+
+  it('are every difference when there is no base or earlier sync', () => {
+    const diff = diffRecord('todos', null, local, incoming);
+
+    expect(getConflicts(diff).map(({ field }) => field)).toEqual(['notes']);
+  });
+
+  it('are only fields changed on both sides since an earlier sync, without a base', () => {
+    const diff = diffRecord('todos', null, local, incoming, T2);
+
+    expect(diff.changes.map(({ outcome }) => outcome)).toEqual(['incoming']);
+  });
+});
+
+describe('a record deleted on this device', () => {
+  // Sync diffs a deleted record's last version against itself (see sync.ts)
+  it('comes back with the changes the sender made since', () => {
+    const incoming = edit('todos', BASE_TODO, { completed: true, completedAt: T3 }, T3);
+
+    const diff = diffRecord('todos', BASE_TODO, BASE_TODO, incoming);
+    expect(diff.changes.map(({ field, outcome }) => ({ field, outcome }))).toEqual([
+      { field: 'completed', outcome: 'incoming' },
+    ]);
+    expect(mergeRecord(diff)).toMatchObject({ completed: true, notes: 'Two gallons per person' });
+  });
+
+  it('stays deleted when the sender only has the old version', () => {
+    expect(diffRecord('tables', BASE_ROW, BASE_ROW, BASE_ROW).changes).toEqual([]);
+  });
+});
+
+describe('table cells added on one side', () => {
+  it('keep a column only this device filled in', () => {
+    const local = edit('tables', BASE_ROW, { data: { ...BASE_ROW.data, email: 'ann@example.org' } }, T2);
+
+    const diff = diffRecord('tables', BASE_ROW, local, BASE_ROW);
+    expect(diff.changes.map(({ field, outcome }) => ({ field, outcome }))).toEqual([
+      { field: 'data.email', outcome: 'local' },
+    ]);
+    expect(mergeRecord(diff)).toBe(local);
+  });
+
+  it('take a column only the sender filled in', () => {
+    const local = edit('tables', BASE_ROW, { data: { ...BASE_ROW.data, name: 'Ann Lee' } }, T2);
+    const incoming = edit('tables', BASE_ROW, { data: { ...BASE_ROW.data, email: 'ann@example.org' } }, T3);
+
+    const merged = mergeRecord(diffRecord('tables', BASE_ROW, local, incoming));
+    expect(merged.data).toEqual({ name: 'Ann Lee', phone: '555-0100', email: 'ann@example.org' });
+    expect(merged.fieldUpdatedAt).toMatchObject({ 'data.name': T2, 'data.email': T3 });
+  });
+});
+
+describe('field times', () => {
+  it('stamp only the fields a write changes', () => {
+    const row = edit('tables', BASE_ROW, { data: { ...BASE_ROW.data, phone: '555-0199' } }, T2);
+
+    expect(row.fieldUpdatedAt).toEqual({ order: T1, 'data.name': T1, 'data.phone': T2 });
+  });
+
+  it('stamp only the fields a new record sets', () => {
+    const todo = stampFieldTimes('todos', null, { ...BASE_TODO, fieldUpdatedAt: undefined, updatedAt: T2 }, T2);
+
+    expect(todo.fieldUpdatedAt).toEqual({ notes: T2 });
+  });
+
+  it('date every field from `updatedAt` on records written before they existed', () => {
+    const legacy: Todo = { ...BASE_TODO, fieldUpdatedAt: undefined };
+    const incoming = edit('todos', legacy, { completed: true, completedAt: T4 }, T4);
+
+    expect(incoming.fieldUpdatedAt).toEqual({ completed: T4, notes: T1, schedule: T1 });
+    expect(diffRecord('todos', null, legacy, incoming, T2).changes.map(({ outcome }) => outcome)).toEqual([
+      'incoming',
+    ]);
+  });
+
+  it('decide the outcome per field, not per record', () => {
+    // The sender's record is newer overall, but this device changed the name after it changed the phone
+    const local = edit('tables', BASE_ROW, { data: { ...BASE_ROW.data, name: 'Ann Lee' } }, T4);
+    const incoming = edit(
+      'tables',
+      edit('tables', BASE_ROW, { data: { ...BASE_ROW.data, name: 'Ann Smith' } }, T2),
+      { data: { name: 'Ann Smith', phone: '555-0199' } },
+      T3
+    );
+
+    const diff = diffRecord('tables', BASE_ROW, local, incoming);
+    expect(diff.changes.map(({ field, outcome, suggested }) => ({ field, outcome, suggested }))).toEqual([
+      { field: 'data.name', outcome: 'conflict', suggested: 'local' },
+      { field: 'data.phone', outcome: 'incoming', suggested: 'incoming' },
+    ]);
+    expect(mergeRecord(diff).data).toEqual({ name: 'Ann Lee', phone: '555-0199' });
+  });
+});
+
+describe('revertFields', () => {
+  it('leaves fields changed since as they are', () => {
+    const checked = edit('todos', BASE_TODO, { completed: true, completedAt: T2 }, T2);
+    const noted = edit('todos', checked, { notes: 'Three gallons per person' }, T3);
+
+    // Undo the check after the note changed: only `completed` goes back
+    expect(revertFields('todos', noted, checked, BASE_TODO)).toMatchObject({
+      completed: false,
+      completedAt: undefined,
+      notes: 'Three gallons per person',
+    });
+  });
+});
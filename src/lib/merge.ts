@@ -0,0 +1,302 @@
+/**
+ * Record Merging
+ *
+ * Combines two versions of a checklist item, table row or table note field by
+ * field, so edits made to different fields on two devices (or in a backup and
+ * on this device) both survive. Used by backup import (storage.ts) and device
+ * sync (sync.ts).
+ *
+ * ## Fields:
+ * - Checklist items: `completed` (with `completedAt`), `notes` and `schedule`
+ *   (`dueAt` with `recurrence`)
+ * - Table rows: each cell of `data` (`data.<column>`) and `order`
+ * - Table notes: `text`
+ *
+ * Every write stamps the fields it changed in the record's `fieldUpdatedAt`
+ * (see `stampFieldTimes`). Records written before field stamps existed date
+ * every field from the record's `updatedAt` (or `completedAt`).
+ *
+ * ## Three-way diff:
+ * `diffRecord` compares a local and an incoming version with their base, the
+ * version both started from. A side changed a field if it differs from the
+ * base and was stamped after it; without a base, if it was stamped after
+ * `since` (e.g. the last sync); with neither, whenever the two differ. A field
+ * changed on one side takes that side's value. A field changed on both is a
+ * conflict: the version changed last is suggested, and `mergeRecord` takes it
+ * unless the household chose the other.
+ */
+import type { JournaledRecord, JournaledStore, TableRow, Todo } from './storage';
+
+export type MergeSide = 'local' | 'incoming';
+
+/**
+ * One field whose local and incoming versions differ
+ */
+export interface FieldChange {
+  /** e.g. "notes" or "data.item" (see Fields above) */
+  field: string;
+  local: unknown;
+  incoming: unknown;
+  /** When each side last changed the field ('' if never) */
+  localAt: string;
+  incomingAt: string;
+  /** The side whose version the merge takes, or 'conflict' if both changed it */
+  outcome: MergeSide | 'conflict';
+  /** The version changed last */
+  suggested: MergeSide;
+}
+
+export interface RecordDiff<T extends JournaledRecord = JournaledRecord> {
+  store: JournaledStore;
+  local: T;
+  incoming: T;
+  changes: FieldChange[];
+}
+
+/** The version to take for each conflicting field, by field name */
+export type FieldChoices = Record<string, MergeSide>;
+
+/** Checklist item fields and the properties each one covers */
+const TODO_FIELDS: Record<string, Array<keyof Todo>> = {
+  completed: ['completed', 'completedAt'],
+  notes: ['notes'],
+  schedule: ['dueAt', 'recurrence'],
+};
+
+const CELL_PREFIX = 'data.';
+
+type RecordFields = Record<string, any>;
+
+/**
+ * Stable JSON comparison (key order independent, undefined properties ignored)
+ */
+export function isSameValue(a: unknown, b: unknown): boolean {
+  const normalize = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(normalize);
+    if (typeof value === 'object' && value !== null) {
+      const object = value as RecordFields;
+      return Object.keys(object)
+        .sort()
+        .filter((key) => object[key] !== undefined)
+        .map((key) => [key, normalize(object[key])]);
+    }
+    return value;
+  };
+  return JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+}
+
+/**
+ * When a record last changed (checking an item sets `completedAt`)
+ */
+export function changedAt(record: JournaledRecord): string {
+  const { updatedAt = '', completedAt = '' } = record as Partial<Todo>;
+  return updatedAt > completedAt ? updatedAt : completedAt;
+}
+
+function fieldNames(store: JournaledStore, records: Array<JournaledRecord | null>): string[] {
+  switch (store) {
+    case 'todos':
+    case 'archive':
+      return Object.keys(TODO_FIELDS);
+    case 'tables': {
+      const columns = records.flatMap((record) => (record ? Object.keys((record as TableRow).data) : []));
+      return ['order', ...new Set(columns.map((column) => `${CELL_PREFIX}${column}`))];
+    }
+    case 'annotations':
+      return ['text'];
+  }
+}
+
+/** A field's value, as compared between versions */
+function readField(store: JournaledStore, record: JournaledRecord, field: string): unknown {
+  const fields = record as unknown as RecordFields;
+  if (store === 'todos' || store === 'archive') {
+    // Checking an item on two devices is the same change, whenever it happened
+    if (field === 'completed') return fields.completed;
+    return TODO_FIELDS[field].map((property) => fields[property]);
+  }
+  if (field.startsWith(CELL_PREFIX)) {
+    // A column the other version doesn't have yet is an empty cell
+    return (record as TableRow).data[field.slice(CELL_PREFIX.length)] ?? '';
+  }
+  return fields[field];
+}
+
+/** Copy a field (every property it covers) from one version into another */
+function copyField(store: JournaledStore, from: JournaledRecord, to: RecordFields, field: string): void {
+  const source = from as unknown as RecordFields;
+  if (store === 'todos' || store === 'archive') {
+    TODO_FIELDS[field].forEach((property) => {
+      to[property] = source[property];
+    });
+  } else if (field.startsWith(CELL_PREFIX)) {
+    const column = field.slice(CELL_PREFIX.length);
+    to.data = { ...to.data, [column]: (from as TableRow).data[column] };
+  } else {
+    to[field] = source[field];
+  }
+}
+
+/**
+ * When a field last changed on this version of a record ('' if never)
+ */
+export function fieldTime(record: JournaledRecord, field: string): string {
+  const { fieldUpdatedAt } = record as Todo | TableRow;
+  return fieldUpdatedAt ? (fieldUpdatedAt[field] ?? '') : changedAt(record);
+}
+
+/** Every field's time, for a record that may predate field stamps */
+function fieldTimesOf(
+  store: JournaledStore,
+  record: JournaledRecord | null,
+  fields: string[]
+): Record<string, string> {
+  if (!record) return {};
+  const { fieldUpdatedAt } = record as Todo | TableRow;
+  if (fieldUpdatedAt) return { ...fieldUpdatedAt };
+  if (store === 'annotations') return {};
+
+  const at = changedAt(record);
+  return Object.fromEntries(fields.map((field) => [field, at]));
+}
+
+/**
+ * Stamp the fields a write changes with the write's time
+ *
+ * Table notes are a single field dated by `updatedAt`, so they pass through.
+ */
+export function stampFieldTimes<T extends JournaledRecord>(
+  store: JournaledStore,
+  before: JournaledRecord | null,
+  after: T,
+  at: string
+): T {
+  if (store === 'annotations') return after;
+
+  const fields = fieldNames(store, [before, after]);
+  const fieldUpdatedAt = fieldTimesOf(store, before, fields);
+  fields.forEach((field) => {
+    const previous = before ? readField(store, before, field) : undefined;
+    const next = readField(store, after, field);
+    // A new record only stamps the fields it sets (unchecked, blank cells are never "set")
+    const unset =
+      !before && [next].flat().every((value) => value === undefined || value === '' || value === false);
+    if (!unset && !isSameValue(previous, next)) {
+      fieldUpdatedAt[field] = at;
+    }
+  });
+  return { ...after, fieldUpdatedAt };
+}
+
+/**
+ * Move the fields of `current` that still hold their `from` value to their
+ * `to` value, keeping fields changed since (undo and redo, see storage.ts)
+ */
+export function revertFields<T extends JournaledRecord>(
+  store: JournaledStore,
+  current: T,
+  from: JournaledRecord,
+  to: JournaledRecord
+): T {
+  const reverted: RecordFields = { ...current };
+  fieldNames(store, [current, from, to]).forEach((field) => {
+    if (isSameValue(readField(store, current, field), readField(store, from, field))) {
+      copyField(store, to, reverted, field);
+    }
+  });
+  return reverted as T;
+}
+
+/**
+ * Three-way diff of a record's local and incoming versions
+ *
+ * @param base - The version both sides started from (null when unknown, or
+ *   when the record didn't exist then)
+ * @param since - Without a base, a side changed a field if it did so after this
+ */
+export function diffRecord<T extends JournaledRecord>(
+  store: JournaledStore,
+  base: T | null,
+  local: T,
+  incoming: T,
+  since?: string
+): RecordDiff<T> {
+  const changes: FieldChange[] = [];
+
+  fieldNames(store, [local, incoming]).forEach((field) => {
+    const localValue = readField(store, local, field);
+    const incomingValue = readField(store, incoming, field);
+    if (isSameValue(localValue, incomingValue)) return;
+
+    const localAt = fieldTime(local, field);
+    const incomingAt = fieldTime(incoming, field);
+    const changedSince = (value: unknown, at: string): boolean => {
+      if (base) {
+        // An older version than the base's is one the other side already replaced
+        return !isSameValue(value, readField(store, base, field)) && at > fieldTime(base, field);
+      }
+      return since === undefined || at > since;
+    };
+    const localChanged = changedSince(localValue, localAt);
+    const incomingChanged = changedSince(incomingValue, incomingAt);
+    const suggested: MergeSide = incomingAt > localAt ? 'incoming' : 'local';
+
+    changes.push({
+      field,
+      local: localValue,
+      incoming: incomingValue,
+      localAt,
+      incomingAt,
+      outcome:
+        localChanged && incomingChanged
+          ? 'conflict'
+          : incomingChanged
+            ? 'incoming'
+            : localChanged
+              ? 'local'
+              : suggested,
+      suggested,
+    });
+  });
+
+  return { store, local, incoming, changes };
+}
+
+/**
+ * The fields of a diff that changed on both sides
+ */
+export function getConflicts(diff: RecordDiff): FieldChange[] {
+  return diff.changes.filter((change) => change.outcome === 'conflict');
+}
+
+/**
+ * Build the merged record from a diff
+ *
+ * Conflicts take the version in `choices`, or the suggested one. Returns the
+ * local record itself when every field keeps its local version.
+ */
+export function mergeRecord<T extends JournaledRecord>(diff: RecordDiff<T>, choices: FieldChoices = {}): T {
+  const { store, local, incoming } = diff;
+  const taken = diff.changes.filter(
+    (change) =>
+      (change.outcome === 'conflict' ? (choices[change.field] ?? change.suggested) : change.outcome) ===
+      'incoming'
+  );
+  if (taken.length === 0) return local;
+  if (store === 'annotations') return incoming;
+
+  const merged: RecordFields = { ...local };
+  const fieldUpdatedAt = fieldTimesOf(store, local, fieldNames(store, [local, incoming]));
+  taken.forEach((change) => {
+    copyField(store, incoming, merged, change.field);
+    fieldUpdatedAt[change.field] = change.incomingAt;
+  });
+
+  const localUpdatedAt = local.updatedAt ?? '';
+  const incomingUpdatedAt = incoming.updatedAt ?? '';
+  return {
+    ...merged,
+    fieldUpdatedAt,
+    updatedAt: incomingUpdatedAt > localUpdatedAt ? incomingUpdatedAt : localUpdatedAt,
+  } as T;
+}
@@ -0,0 +1,131 @@
+/**
+ * Maintenance Reminders
+ *
+ * Opt-in local notifications when scheduled checklist items (see
+ * recurrence.ts) come due. The service worker (public/sw.js) does the
+ * checking straight from IndexedDB, so reminders work offline and - where
+ * the browser supports periodic background sync - without the toolkit open.
+ * Every page load also asks the service worker to check, as a fallback.
+ *
+ * Settings are kept in the metadata store rather than localStorage because
+ * the service worker has to read them, so each profile has its own.
+ */
+import { getMetadata, setMetadata } from './storage';
+import { getProfiles } from './profiles';
+
+export interface NotificationSettings {
+  enabled: boolean;
+  leadDays: number; // Remind this many days before the due date (0: on the day)
+}
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = { enabled: false, leadDays: 0 };
+
+/** Metadata key, also read by public/sw.js */
+const NOTIFICATION_SETTINGS_KEY = 'notificationSettings';
+
+/** Periodic background sync tag handled by public/sw.js */
+const CHECK_DUE_ITEMS_TAG = 'check-due-items';
+const CHECK_INTERVAL_MS = 12 * 60 * 60 * 1000;
+
+export type ReminderPermission = NotificationPermission | 'unsupported';
+
+/** The parts of the Periodic Background Sync API used here (not in lib.dom yet) */
+interface PeriodicSyncRegistration extends ServiceWorkerRegistration {
+  periodicSync: {
+    register(tag: string, options: { minInterval: number }): Promise<void>;
+    unregister(tag: string): Promise<void>;
+  };
+}
+
+function hasPeriodicSync(
+  registration: ServiceWorkerRegistration
+): registration is PeriodicSyncRegistration {
+  return 'periodicSync' in registration;
+}
+
+/**
+ * Whether this browser can show notifications, and whether the site may
+ */
+export function getReminderPermission(): ReminderPermission {
+  if (typeof window === 'undefined' || !('Notification' in window) || !('serviceWorker' in navigator)) {
+    return 'unsupported';
+  }
+  return Notification.permission;
+}
+
+export async function getNotificationSettings(): Promise<NotificationSettings> {
+  const saved = await getMetadata(NOTIFICATION_SETTINGS_KEY);
+  return { ...DEFAULT_NOTIFICATION_SETTINGS, ...(saved && typeof saved === 'object' ? saved : {}) };
+}
+
+/**
+ * Ask for a background check about twice a day, if the browser allows it
+ *
+ * @returns Whether periodic checks are registered
+ */
+async function registerPeriodicCheck(enabled: boolean): Promise<boolean> {
+  const registration = await navigator.serviceWorker.getRegistration();
+  if (!registration || !hasPeriodicSync(registration)) return false;
+
+  try {
+    if (!enabled) {
+      // Other profiles may still want reminders; the worker skips profiles that don't
+      if (getProfiles().length === 1) {
+        await registration.periodicSync.unregister(CHECK_DUE_ITEMS_TAG);
+      }
+      return false;
+    }
+
+    const status = await navigator.permissions.query({
+      name: 'periodic-background-sync' as PermissionName,
+    });
+    if (status.state !== 'granted') return false;
+
+    await registration.periodicSync.register(CHECK_DUE_ITEMS_TAG, { minInterval: CHECK_INTERVAL_MS });
+    return true;
+  } catch (error) {
+    console.warn('[Notifications] Periodic background sync unavailable:', error);
+    return false;
+  }
+}
+
+/**
+ * Turn reminders on or off
+ *
+ * Turning them on asks for notification permission first; if it isn't
+ * granted, reminders stay off.
+ *
+ * @returns The permission and whether background checks are available
+ *   (otherwise reminders are checked when the toolkit is opened)
+ */
+export async function setNotificationSettings(
+  settings: NotificationSettings
+): Promise<{ permission: ReminderPermission; periodic: boolean }> {
+  let permission = getReminderPermission();
+  if (permission === 'unsupported') {
+    return { permission, periodic: false };
+  }
+
+  if (settings.enabled && permission !== 'granted') {
+    permission = await Notification.requestPermission();
+  }
+
+  const enabled = settings.enabled && permission === 'granted';
+  await setMetadata(NOTIFICATION_SETTINGS_KEY, { ...settings, enabled });
+  const periodic = await registerPeriodicCheck(enabled);
+
+  if (enabled) requestDueCheck();
+  return { permission, periodic };
+}
+
+/**
+ * Ask the service worker to check for due items now
+ *
+ * Called on every page load (the on-open fallback for browsers without
+ * periodic background sync). Does nothing without an active service worker;
+ * the worker itself skips the check when reminders are off.
+ */
+export function requestDueCheck(): void {
+  if (typeof navigator === 'undefined' || !navigator.serviceWorker?.controller) return;
+  navigator.serviceWorker.controller.postMessage({ type: 'CHECK_DUE_ITEMS' });
+}
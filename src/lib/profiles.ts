@@ -0,0 +1,188 @@
+/**
+ * Profiles
+ *
+ * Independent sets of toolkit data on one device - e.g. a volunteer helping
+ * several households and a community hub from the same laptop. Each profile
+ * has its own IndexedDB database (checklists, tables, notes, history and
+ * settings), so backups, imports and deletes only ever touch one profile.
+ *
+ * The profile list and the active profile are kept in localStorage: they
+ * describe this device, and storage.ts needs the active profile before it
+ * can open a database. The first profile uses the original
+ * 'resilience-toolkit' database, so existing data becomes that profile.
+ */
+import { deleteDB } from 'idb';
+
+export type ProfileType = 'household' | 'hub' | 'organization';
+
+export interface Profile {
+  id: string;
+  name: string;
+  type: ProfileType;
+  createdAt: string; // ISO timestamp
+}
+
+export const PROFILE_TYPE_LABELS: Record<ProfileType, string> = {
+  household: 'Household',
+  hub: 'Community hub',
+  organization: 'Organization',
+};
+
+/** The profile every device starts with (the pre-profile database) */
+export const DEFAULT_PROFILE_ID = 'default';
+
+/** localStorage keys; other tabs follow changes to them (see ProfileSwitcher) */
+export const PROFILES_KEY = 'profiles';
+export const ACTIVE_PROFILE_KEY = 'activeProfileId';
+
+const DATABASE_NAME = 'resilience-toolkit';
+const MAX_NAME_LENGTH = 60;
+
+const DEFAULT_PROFILE: Profile = {
+  id: DEFAULT_PROFILE_ID,
+  name: 'My household',
+  type: 'household',
+  createdAt: new Date(0).toISOString(),
+};
+
+function isProfile(value: unknown): value is Profile {
+  if (typeof value !== 'object' || value === null) return false;
+  const { id, name, type } = value as Partial<Profile>;
+  return (
+    typeof id === 'string' &&
+    typeof name === 'string' &&
+    typeof type === 'string' &&
+    type in PROFILE_TYPE_LABELS
+  );
+}
+
+/**
+ * IndexedDB database holding a profile's data (also enumerated by public/sw.js)
+ */
+export function getProfileDatabaseName(profileId: string): string {
+  return profileId === DEFAULT_PROFILE_ID ? DATABASE_NAME : `${DATABASE_NAME}:${profileId}`;
+}
+
+/**
+ * Prefix for localStorage keys that hold one profile's display preferences
+ * (e.g. table views), so deleting the profile clears them too
+ */
+export function getProfileStoragePrefix(profileId: string): string {
+  return `profile-${profileId}:`;
+}
+
+/**
+ * All profiles on this device, in the order they were created
+ */
+export function getProfiles(): Profile[] {
+  if (typeof localStorage === 'undefined') return [DEFAULT_PROFILE];
+
+  try {
+    const stored = JSON.parse(localStorage.getItem(PROFILES_KEY) ?? 'null');
+    const profiles = Array.isArray(stored) ? stored.filter(isProfile) : [];
+    return profiles.length > 0 ? profiles : [DEFAULT_PROFILE];
+  } catch (error) {
+    console.error('Failed to read profiles:', error);
+    return [DEFAULT_PROFILE];
+  }
+}
+
+function saveProfiles(profiles: Profile[]): void {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+}
+
+/**
+ * The profile whose data this tab reads and writes
+ */
+export function getActiveProfile(): Profile {
+  const profiles = getProfiles();
+  const activeId =
+    typeof localStorage === 'undefined' ? null : localStorage.getItem(ACTIVE_PROFILE_KEY);
+  return profiles.find((profile) => profile.id === activeId) ?? profiles[0];
+}
+
+function cleanName(name: string): string {
+  const trimmed = name.replace(/\s+/g, ' ').trim().slice(0, MAX_NAME_LENGTH);
+  if (!trimmed) {
+    throw new Error('Profile name cannot be empty');
+  }
+  return trimmed;
+}
+
+/**
+ * Add a profile (its database is created the first time it is opened)
+ */
+export function createProfile(name: string, type: ProfileType): Profile {
+  const profile: Profile = {
+    id: crypto.randomUUID(),
+    name: cleanName(name),
+    type,
+    createdAt: new Date().toISOString(),
+  };
+  saveProfiles([...getProfiles(), profile]);
+  return profile;
+}
+
+/**
+ * Rename a profile or change its type
+ */
+export function updateProfile(id: string, changes: Partial<Pick<Profile, 'name' | 'type'>>): Profile {
+  const profiles = getProfiles();
+  const existing = profiles.find((profile) => profile.id === id);
+  if (!existing) {
+    throw new Error(`Profile not found: ${id}`);
+  }
+
+  const updated: Profile = {
+    ...existing,
+    ...changes,
+    name: changes.name === undefined ? existing.name : cleanName(changes.name),
+  };
+  saveProfiles(profiles.map((profile) => (profile.id === id ? updated : profile)));
+  return updated;
+}
+
+/**
+ * Make a profile active
+ *
+ * Storage connections are bound to the profile that was active when the page
+ * loaded, so callers reload afterwards (other tabs reload on their own when
+ * they see `ACTIVE_PROFILE_KEY` change).
+ */
+export function setActiveProfile(id: string): void {
+  if (!getProfiles().some((profile) => profile.id === id)) {
+    throw new Error(`Profile not found: ${id}`);
+  }
+  localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+}
+
+/**
+ * Permanently delete a profile and all of its data (including its
+ * preferences in localStorage)
+ *
+ * The active profile can't be deleted - switch to another one first.
+ */
+export async function deleteProfile(id: string): Promise<void> {
+  const profiles = getProfiles();
+  if (!profiles.some((profile) => profile.id === id)) {
+    throw new Error(`Profile not found: ${id}`);
+  }
+  if (id === getActiveProfile().id) {
+    throw new Error('Switch to another profile before deleting this one');
+  }
+
+  await deleteDB(getProfileDatabaseName(id), {
+    blocked() {
+      console.warn('[Profiles] Waiting for other tabs to close the profile being deleted');
+    },
+  });
+  saveProfiles(profiles.filter((profile) => profile.id !== id));
+
+  const prefix = getProfileStoragePrefix(id);
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key?.startsWith(prefix)) keys.push(key);
+  }
+  keys.forEach((key) => localStorage.removeItem(key));
+}
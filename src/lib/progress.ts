@@ -0,0 +1,165 @@
+/**
+ * Section and Module Progress
+ *
+ * Combines the build-time checklist manifest (todoManifest.ts) with stored
+ * state, so a section with 25 items where 2 are checked reads 2/25 - not
+ * 2/2 as counting saved records alone would.
+ *
+ * Client-safe: the manifest is passed in from the page that built it.
+ */
+
+import { moduleTitles, sectionRegistry, type ModuleId, type SectionStorage } from '@/data/sections';
+import { getModuleData, type SectionModuleData } from './storage';
+import type { TodoManifest } from './todoManifest';
+
+export interface ProgressStats {
+  total: number; // Checklist items on the page(s)
+  completed: number; // How many of those are checked
+  percentage: number; // 0-100, only 100 when every item is checked
+  lastWorkedOn: string | null; // ISO timestamp of the latest checklist, table or note edit
+}
+
+export interface SectionProgress extends ProgressStats {
+  section: SectionStorage;
+}
+
+export interface ModuleProgress extends ProgressStats {
+  module: ModuleId;
+  title: string;
+  sections: SectionProgress[];
+}
+
+function toStats(total: number, completed: number, lastWorkedOn: string | null): ProgressStats {
+  // Round down so an unfinished section never shows 100%
+  const percentage = total > 0 ? Math.floor((completed / total) * 100) : 0;
+  return { total, completed, percentage, lastWorkedOn };
+}
+
+function latest(timestamps: Array<string | null | undefined>): string | null {
+  return timestamps.reduce<string | null>(
+    (max, timestamp) => (timestamp && (!max || timestamp > max) ? timestamp : max),
+    null
+  );
+}
+
+/**
+ * Progress for one section from its manifest entry and stored data
+ *
+ * Only items listed in the manifest count, so stored records for items that
+ * were since removed from the page don't inflate the total.
+ */
+export function getSectionProgress(
+  section: SectionStorage,
+  todos: Record<string, string[]>,
+  data: SectionModuleData
+): SectionProgress {
+  const checked = new Set(
+    data.todos.filter((todo) => todo.completed).map((todo) => `${todo.moduleKey}-${todo.todoId}`)
+  );
+  const expected = Object.entries(todos).flatMap(([moduleKey, ids]) =>
+    ids.map((todoId) => `${moduleKey}-${todoId}`)
+  );
+
+  const lastWorkedOn = latest([
+    ...data.todos.map((todo) => todo.updatedAt ?? todo.completedAt),
+    ...Object.values(data.tables).flatMap((rows) => rows.map((row) => row.updatedAt)),
+    ...data.annotations.map((annotation) => annotation.updatedAt),
+  ]);
+
+  return {
+    section,
+    ...toStats(expected.length, expected.filter((id) => checked.has(id)).length, lastWorkedOn),
+  };
+}
+
+/**
+ * Group section progress by module, in registry order
+ */
+export function getModuleProgress(sections: SectionProgress[]): ModuleProgress[] {
+  return (Object.keys(moduleTitles) as ModuleId[]).map((module) => {
+    const moduleSections = sections.filter(({ section }) => section.module === module);
+    const total = moduleSections.reduce((sum, progress) => sum + progress.total, 0);
+    const completed = moduleSections.reduce((sum, progress) => sum + progress.completed, 0);
+
+    return {
+      module,
+      title: moduleTitles[module],
+      sections: moduleSections,
+      ...toStats(total, completed, latest(moduleSections.map((progress) => progress.lastWorkedOn))),
+    };
+  });
+}
+
+/**
+ * Load progress for one section
+ *
+ * @param todos - The section's manifest entry
+ */
+export async function loadSectionProgress(
+  section: SectionStorage,
+  todos: Record<string, string[]>
+): Promise<SectionProgress> {
+  return getSectionProgress(section, todos, await getModuleData(section.number));
+}
+
+/**
+ * Load progress for every registered section, grouped by module
+ */
+export async function loadProgress(manifest: TodoManifest): Promise<ModuleProgress[]> {
+  const sections = await Promise.all(
+    sectionRegistry.map((section) => loadSectionProgress(section, manifest[section.number] ?? {}))
+  );
+  return getModuleProgress(sections);
+}
+
+export type SectionStatus = 'not-started' | 'in-progress' | 'complete';
+
+/**
+ * Where a section stands: complete once every checklist item is checked,
+ * in progress once anything in it has been edited
+ */
+export function getSectionStatus(progress: ProgressStats): SectionStatus {
+  if (progress.total > 0 && progress.completed === progress.total) return 'complete';
+  return progress.lastWorkedOn ? 'in-progress' : 'not-started';
+}
+
+/**
+ * The most recently edited section that still has unchecked items
+ *
+ * Sections without a checklist count as unfinished once worked on.
+ */
+export function getContinueSection(modules: ModuleProgress[]): SectionProgress | null {
+  return modules
+    .flatMap((module) => module.sections)
+    .filter(
+      (progress) =>
+        progress.lastWorkedOn && (progress.total === 0 || progress.completed < progress.total)
+    )
+    .reduce<SectionProgress | null>(
+      (best, progress) =>
+        !best || (progress.lastWorkedOn ?? '') > (best.lastWorkedOn ?? '') ? progress : best,
+      null
+    );
+}
+
+const RELATIVE_UNITS: Array<[Intl.RelativeTimeFormatUnit, number]> = [
+  ['year', 365 * 24 * 60 * 60 * 1000],
+  ['month', 30 * 24 * 60 * 60 * 1000],
+  ['week', 7 * 24 * 60 * 60 * 1000],
+  ['day', 24 * 60 * 60 * 1000],
+  ['hour', 60 * 60 * 1000],
+  ['minute', 60 * 1000],
+];
+
+/**
+ * "3 days ago"-style label for a `lastWorkedOn` timestamp
+ */
+export function formatLastWorkedOn(timestamp: string, now: number = Date.now()): string {
+  const elapsed = now - new Date(timestamp).getTime();
+  const format = new Intl.RelativeTimeFormat(undefined, { numeric: 'auto' });
+
+  for (const [unit, size] of RELATIVE_UNITS) {
+    if (elapsed >= size) return format.format(-Math.floor(elapsed / size), unit);
+  }
+  return 'just now';
+}
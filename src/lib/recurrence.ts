@@ -0,0 +1,117 @@
+/**
+ * Due Dates and Recurrence
+ *
+ * Date helpers for scheduled checklist items (`Todo.dueAt` and
+ * `Todo.recurrence` in storage.ts). Due dates are local calendar dates
+ * ("2025-09-30"), not timestamps, so an item comes due at the start of the
+ * day wherever the household is.
+ */
+import type { Recurrence, Todo } from './storage';
+
+/** Common maintenance intervals offered in the schedule editor */
+export const RECURRENCE_PRESETS: Recurrence[] = [
+  { every: 1, unit: 'week' },
+  { every: 1, unit: 'month' },
+  { every: 3, unit: 'month' },
+  { every: 6, unit: 'month' },
+  { every: 1, unit: 'year' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Local calendar date as "YYYY-MM-DD"
+ */
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function fromDateKey(dateKey: string): Date {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Whether a string is a valid "YYYY-MM-DD" date
+ */
+export function isDateKey(value: unknown): value is string {
+  return (
+    typeof value === 'string' &&
+    /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+    toDateKey(fromDateKey(value)) === value
+  );
+}
+
+/**
+ * Whether a value is a well-formed `Recurrence`
+ */
+export function isRecurrence(value: unknown): value is Recurrence {
+  if (typeof value !== 'object' || value === null) return false;
+  const { every, unit } = value as Partial<Recurrence>;
+  return (
+    Number.isInteger(every) &&
+    (every as number) > 0 &&
+    ['day', 'week', 'month', 'year'].includes(unit as string)
+  );
+}
+
+/**
+ * The date one interval after `from` (month ends clamp: Jan 31 + 1 month = Feb 28)
+ */
+export function addRecurrence(from: Date, { every, unit }: Recurrence): string {
+  const next = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+
+  if (unit === 'day' || unit === 'week') {
+    next.setDate(next.getDate() + every * (unit === 'week' ? 7 : 1));
+  } else {
+    const months = every * (unit === 'year' ? 12 : 1);
+    const target = new Date(next.getFullYear(), next.getMonth() + months, 1);
+    const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+    target.setDate(Math.min(next.getDate(), lastDay));
+    return toDateKey(target);
+  }
+
+  return toDateKey(next);
+}
+
+/**
+ * Whether a checked recurring item has come due and should be unchecked
+ */
+export function isDueAgain(todo: Todo, today: string = toDateKey(new Date())): boolean {
+  return Boolean(todo.completed && todo.recurrence && todo.dueAt && todo.dueAt <= today);
+}
+
+/**
+ * Days from today until a due date (negative when overdue)
+ */
+export function daysUntil(dateKey: string, today: Date = new Date()): number {
+  const start = fromDateKey(toDateKey(today));
+  return Math.round((fromDateKey(dateKey).getTime() - start.getTime()) / DAY_MS);
+}
+
+/**
+ * "Every 6 months"
+ */
+export function describeRecurrence({ every, unit }: Recurrence): string {
+  return every === 1 ? `Every ${unit}` : `Every ${every} ${unit}s`;
+}
+
+/**
+ * Local date for display, e.g. "Mar 3, 2026"
+ */
+export function formatDueDate(dateKey: string): string {
+  return fromDateKey(dateKey).toLocaleDateString(undefined, { dateStyle: 'medium' });
+}
+
+/**
+ * "Due today", "Due in 12 days", "3 days overdue"
+ */
+export function describeDueIn(dateKey: string, today: Date = new Date()): string {
+  const days = daysUntil(dateKey, today);
+  if (days === 0) return 'Due today';
+  if (days === 1) return 'Due tomorrow';
+  if (days > 1) return `Due in ${days} days`;
+  return days === -1 ? '1 day overdue' : `${-days} days overdue`;
+}
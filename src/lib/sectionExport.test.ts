@@ -0,0 +1,35 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const SECTION = { number: '0.1', title: 'Knowing Your Community', moduleTitle: 'Knowing Your Community' };
+
+describe('buildSectionWorksheet', () => {
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it("fills each table from its own module's rows", async () => {
+    const storage = await import('./storage');
+    const { buildSectionWorksheet } = await import('./sectionExport');
+    await storage.saveTableRow({
+      moduleKey: 'knowing-community',
+      tableId: 'systems',
+      rowId: 'row-1',
+      data: { system: 'Water' },
+    });
+
+    const worksheet = await buildSectionWorksheet(SECTION, [
+      { type: 'table', moduleKey: 'knowing-community', tableId: 'systems', columns: [] },
+      { type: 'table', moduleKey: 'bringing-people-together', tableId: 'systems', columns: [] },
+    ]);
+
+    expect(Object.keys(worksheet.data.tables)).toContain('knowing-community-systems');
+    expect(worksheet.items.map((item) => (item.type === 'table' ? item.rows : null))).toEqual([
+      [{ system: 'Water' }],
+      [],
+    ]);
+  });
+});
@@ -0,0 +1,383 @@
+/**
+ * Section Export - Local Data Worksheets
+ *
+ * Builds a filled-in worksheet for a single module section from the data in
+ * IndexedDB, so a hub coordinator can hand their answers to someone else
+ * (e.g. the town Emergency Management Director) without sharing the device.
+ *
+ * ## How it works:
+ * 1. `collectOutline()` walks the rendered section page in document order and
+ *    records headings, checklist items (`data-todo-id`) and tables
+ *    (`data-table-id`) so the worksheet mirrors the page's prompts and labels
+ * 2. `buildSectionWorksheet()` joins that outline with the section's stored
+ *    todos, table rows and notes (resolved through the section registry)
+ * 3. `worksheetToJson/Csv/Markdown/Html()` serialize the result
+ *
+ * Everything runs in the browser; nothing is uploaded.
+ */
+import { compareTableRows, getModuleData, type SectionModuleData } from './storage';
+import { toCsv } from './csv';
+import { toFileSlug } from './download';
+
+/** Section identity shown at the top of every export */
+export interface SectionInfo {
+  number: string;
+  title: string;
+  moduleTitle: string;
+}
+
+/** A table column as shown on the page (`key` is the `TableRow.data` key) */
+export interface OutlineColumn {
+  key: string;
+  label: string;
+}
+
+/** A structural element found on the rendered section page */
+export type OutlineBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'todo'; moduleKey: string; todoId: string; label: string }
+  | { type: 'table'; moduleKey: string; tableId: string; columns: OutlineColumn[] };
+
+/** An outline block joined with the user's stored answers */
+export type WorksheetItem =
+  | { type: 'heading'; level: number; text: string }
+  | {
+      type: 'todo';
+      moduleKey: string;
+      todoId: string;
+      label: string;
+      completed: boolean;
+      completedAt?: string;
+      notes?: string;
+    }
+  | {
+      type: 'table';
+      moduleKey: string;
+      tableId: string;
+      columns: OutlineColumn[];
+      rows: Record<string, any>[];
+      note?: string;
+    };
+
+export interface SectionWorksheet {
+  section: SectionInfo;
+  exportedAt: string;
+  items: WorksheetItem[];
+  /** Raw stored records for the section */
+  data: SectionModuleData;
+}
+
+export type ExportFormat = 'json' | 'csv' | 'markdown' | 'html';
+
+/**
+ * Elements that make up a worksheet, in document order.
+ * `td > strong` picks up the category labels inside the Systems/Stuff guide tables.
+ */
+const OUTLINE_SELECTOR = 'h2, h3, h4, .guide-table td > strong, [data-todo-id], [data-table-id]';
+
+function cleanText(text: string | null | undefined): string {
+  return (text ?? '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Walk the rendered section content and describe its structure
+ * @param root - Element wrapping the section content (see ModuleLayout)
+ */
+export function collectOutline(root: ParentNode): OutlineBlock[] {
+  const blocks: OutlineBlock[] = [];
+
+  root.querySelectorAll<HTMLElement>(OUTLINE_SELECTOR).forEach((element) => {
+    // Headings rendered inside an interactive block belong to that block
+    if (element.parentElement?.closest('[data-todo-id], [data-table-id]')) return;
+
+    const { moduleKey, todoId, tableId } = element.dataset;
+
+    if (moduleKey && todoId) {
+      const label = cleanText(element.querySelector('.todo-text')?.textContent);
+      blocks.push({ type: 'todo', moduleKey, todoId, label: label || todoId });
+    } else if (moduleKey && tableId) {
+      // Only data columns carry a key (reorder/actions columns don't)
+      const columns = Array.from(
+        element.querySelectorAll<HTMLElement>('thead th[data-column-key]')
+      ).map((th) => ({
+        key: th.dataset.columnKey ?? '',
+        label: cleanText(th.textContent).replace(/\s*\*$/, ''),
+      }));
+      blocks.push({ type: 'table', moduleKey, tableId, columns });
+    } else {
+      const text = cleanText(element.textContent);
+      if (!text) return;
+
+      let level = 4;
+      if (element.tagName === 'H2') level = 2;
+      else if (element.tagName === 'H3') level = 3;
+      else if (element.tagName === 'STRONG' && element.parentElement?.hasAttribute('colspan')) {
+        level = 3;
+      }
+      blocks.push({ type: 'heading', level, text });
+    }
+  });
+
+  return blocks;
+}
+
+/**
+ * Load the section's stored data and join it with the outline blocks
+ */
+export async function buildSectionWorksheet(
+  section: SectionInfo,
+  outline: OutlineBlock[]
+): Promise<SectionWorksheet> {
+  const data = await getModuleData(section.number);
+
+  const items: WorksheetItem[] = outline.map((block) => {
+    if (block.type === 'todo') {
+      const todo = data.todos.find(
+        (item) => item.moduleKey === block.moduleKey && item.todoId === block.todoId
+      );
+      return {
+        ...block,
+        completed: todo?.completed ?? false,
+        completedAt: todo?.completedAt,
+        notes: todo?.notes,
+      };
+    }
+
+    if (block.type === 'table') {
+      const rows = [...(data.tables[`${block.moduleKey}-${block.tableId}`] ?? [])].sort(compareTableRows);
+      const columns =
+        block.columns.length > 0
+          ? block.columns
+          : Object.keys(rows[0]?.data ?? {}).map((key) => ({ key, label: key }));
+      const note = data.annotations.find(
+        (annotation) =>
+          annotation.moduleKey === block.moduleKey && annotation.blockId === block.tableId
+      );
+      return {
+        ...block,
+        columns,
+        rows: rows.map((row) => row.data),
+        note: note?.text,
+      };
+    }
+
+    return block;
+  });
+
+  return { section, exportedAt: new Date().toISOString(), items, data };
+}
+
+// ============================================================================
+// SERIALIZERS
+// ============================================================================
+
+function cellText(value: unknown): string {
+  return value === undefined || value === null ? '' : String(value);
+}
+
+export function worksheetToJson(worksheet: SectionWorksheet): string {
+  return JSON.stringify(worksheet, null, 2);
+}
+
+/**
+ * One line per checklist item and per answered table cell, tagged with the
+ * nearest heading so the file can be sorted or filtered in a spreadsheet
+ */
+export function worksheetToCsv(worksheet: SectionWorksheet): string {
+  const lines: unknown[][] = [
+    ['Heading', 'Type', 'Item', 'Column', 'Response', 'Completed', 'Completed At', 'Notes'],
+  ];
+  let heading = '';
+
+  worksheet.items.forEach((item) => {
+    if (item.type === 'heading') {
+      heading = item.text;
+    } else if (item.type === 'todo') {
+      lines.push([
+        heading,
+        'Checklist',
+        item.label,
+        '',
+        '',
+        item.completed ? 'Yes' : 'No',
+        item.completedAt ?? '',
+        item.notes ?? '',
+      ]);
+    } else {
+      const [firstColumn, ...otherColumns] = item.columns;
+      item.rows.forEach((row) => {
+        otherColumns.forEach((column) => {
+          lines.push([
+            heading,
+            'Table',
+            cellText(row[firstColumn.key]),
+            column.label,
+            cellText(row[column.key]),
+            '',
+            '',
+            '',
+          ]);
+        });
+      });
+      if (item.note) {
+        lines.push([heading, 'Table note', '', '', '', '', '', item.note]);
+      }
+    }
+  });
+
+  return toCsv(lines);
+}
+
+function escapeMarkdownCell(value: unknown): string {
+  return cellText(value).replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+}
+
+export function worksheetToMarkdown(worksheet: SectionWorksheet): string {
+  const { section } = worksheet;
+  const lines: string[] = [
+    `# ${section.number} ${section.title}`,
+    '',
+    `_${section.moduleTitle} · Exported ${new Date(worksheet.exportedAt).toLocaleDateString()}_`,
+    '',
+  ];
+
+  worksheet.items.forEach((item) => {
+    if (item.type === 'heading') {
+      lines.push(`${'#'.repeat(item.level)} ${item.text}`, '');
+    } else if (item.type === 'todo') {
+      lines.push(`- [${item.completed ? 'x' : ' '}] ${item.label}`);
+      if (item.notes) {
+        item.notes.split(/\r?\n/).forEach((line) => lines.push(`  > ${line}`));
+      }
+    } else {
+      if (lines[lines.length - 1] !== '') lines.push('');
+      lines.push(`| ${item.columns.map((column) => escapeMarkdownCell(column.label)).join(' | ')} |`);
+      lines.push(`| ${item.columns.map(() => '---').join(' | ')} |`);
+      item.rows.forEach((row) => {
+        lines.push(`| ${item.columns.map((column) => escapeMarkdownCell(row[column.key])).join(' | ')} |`);
+      });
+      lines.push('');
+      if (item.note) {
+        lines.push(`**Notes:** ${item.note}`, '');
+      }
+    }
+  });
+
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim() + '\n';
+}
+
+function escapeHtml(value: unknown): string {
+  return cellText(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function multilineHtml(value: unknown): string {
+  return escapeHtml(value).replace(/\r?\n/g, '<br>');
+}
+
+/**
+ * Standalone, printable HTML worksheet (no external assets)
+ */
+export function worksheetToHtml(worksheet: SectionWorksheet): string {
+  const { section } = worksheet;
+  const body: string[] = [];
+  let inList = false;
+
+  const closeList = () => {
+    if (inList) body.push('</ul>');
+    inList = false;
+  };
+
+  worksheet.items.forEach((item) => {
+    if (item.type === 'todo') {
+      if (!inList) body.push('<ul class="checklist">');
+      inList = true;
+      body.push(
+        `<li><span class="box">${item.completed ? '&#9745;' : '&#9744;'}</span> ${escapeHtml(item.label)}` +
+          (item.notes ? `<div class="note">${multilineHtml(item.notes)}</div>` : '') +
+          '</li>'
+      );
+      return;
+    }
+
+    closeList();
+
+    if (item.type === 'heading') {
+      body.push(`<h${item.level}>${escapeHtml(item.text)}</h${item.level}>`);
+    } else {
+      body.push('<table>');
+      body.push(`<thead><tr>${item.columns.map((column) => `<th>${escapeHtml(column.label)}</th>`).join('')}</tr></thead>`);
+      body.push('<tbody>');
+      item.rows.forEach((row) => {
+        body.push(`<tr>${item.columns.map((column) => `<td>${multilineHtml(row[column.key])}</td>`).join('')}</tr>`);
+      });
+      body.push('</tbody></table>');
+      if (item.note) {
+        body.push(`<p class="note"><strong>Notes:</strong> ${multilineHtml(item.note)}</p>`);
+      }
+    }
+  });
+  closeList();
+
+  const title = `${section.number} ${section.title}`;
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; max-width: 50rem; margin: 2rem auto; padding: 0 1rem; color: #111; line-height: 1.4; }
+  .meta { color: #555; }
+  table { width: 100%; border-collapse: collapse; margin: 1rem 0; }
+  th, td { border: 1px solid #999; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }
+  th { background: #f2f2f2; }
+  .checklist { list-style: none; padding-left: 0; }
+  .checklist li { margin: 0.3rem 0; break-inside: avoid; }
+  .box { font-size: 1.1em; }
+  .note { margin: 0.2rem 0 0 1.6rem; color: #333; font-style: italic; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="meta">${escapeHtml(section.moduleTitle)} &middot; Exported ${escapeHtml(new Date(worksheet.exportedAt).toLocaleDateString())}</p>
+${body.join('\n')}
+</body>
+</html>
+`;
+}
+
+/** File extension and MIME type for each export format */
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  json: { label: 'JSON (data)', extension: 'json', mimeType: 'application/json' },
+  csv: { label: 'CSV (spreadsheet)', extension: 'csv', mimeType: 'text/csv' },
+  markdown: { label: 'Markdown worksheet', extension: 'md', mimeType: 'text/markdown' },
+  html: { label: 'Printable worksheet (HTML)', extension: 'html', mimeType: 'text/html' },
+};
+
+/**
+ * Serialize a worksheet in the requested format
+ */
+export function serializeWorksheet(worksheet: SectionWorksheet, format: ExportFormat): string {
+  switch (format) {
+    case 'json':
+      return worksheetToJson(worksheet);
+    case 'csv':
+      return worksheetToCsv(worksheet);
+    case 'markdown':
+      return worksheetToMarkdown(worksheet);
+    case 'html':
+      return worksheetToHtml(worksheet);
+  }
+}
+
+/**
+ * File name like "section-1.1-emergency-preparedness-kits-2025-01-31.md"
+ */
+export function worksheetFilename(section: SectionInfo, format: ExportFormat, date: string): string {
+  const slug = toFileSlug(section.title);
+  return `section-${section.number}-${slug}-${date}.${EXPORT_FORMATS[format].extension}`;
+}
@@ -0,0 +1,26 @@
+import { sectionRegistry, type SectionStorage } from '@/data/sections';
+
+/**
+ * Find the storage registry entry for a given section number
+ * @param sectionNumber - The section number (e.g., "0.1", "1.1", "2.3")
+ * @returns The registry entry, or null if the section is not registered
+ */
+export function getSectionStorage(sectionNumber: string): SectionStorage | null {
+  const section = sectionRegistry.find((s) => s.number === sectionNumber);
+
+  if (!section) {
+    console.warn(`No storage registry entry for section ${sectionNumber}`);
+    return null;
+  }
+
+  return section;
+}
+
+/**
+ * Find the section a stored record belongs to
+ * @param moduleKey - The `moduleKey` of a todo or table row
+ * @returns The registry entry, or null if no section uses this key
+ */
+export function getSectionForModuleKey(moduleKey: string): SectionStorage | null {
+  return sectionRegistry.find((s) => s.moduleKeys.includes(moduleKey)) ?? null;
+}
@@ -0,0 +1,226 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { memoryStorage } from '@/test/memoryStorage';
+
+const MODULE_KEY = '1-1-kits';
+
+const T1 = '2025-03-01T10:00:00.000Z';
+const T2 = '2025-03-02T10:00:00.000Z';
+const T3 = '2025-03-03T10:00:00.000Z';
+const T4 = '2025-03-04T10:00:00.000Z';
+
+type StorageModule = typeof import('./storage');
+
+/**
+ * Every write to checklist items must stamp the fields it changes, or the
+ * merge engine (merge.ts) would let an older edit on another device win
+ */
+describe('field times on checklist writes', () => {
+  let storage: StorageModule;
+
+  beforeEach(async () => {
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(T1);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    storage = await import('./storage');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('stamps items checked and unchecked in a batch', async () => {
+    await storage.updateTodoNote(MODULE_KEY, 'water', 'Two gallons per person');
+
+    vi.setSystemTime(T2);
+    await storage.batchUpdateChecklistItems([
+      { moduleKey: MODULE_KEY, todoId: 'water', completed: true },
+      { moduleKey: MODULE_KEY, todoId: 'radio', completed: true },
+    ]);
+    expect((await storage.getTodo(MODULE_KEY, 'water'))?.fieldUpdatedAt).toEqual({ completed: T2, notes: T1 });
+    expect((await storage.getTodo(MODULE_KEY, 'radio'))?.fieldUpdatedAt).toEqual({ completed: T2 });
+
+    vi.setSystemTime(T3);
+    await storage.batchUpdateChecklistItems([{ moduleKey: MODULE_KEY, todoId: 'water', completed: false }]);
+    expect((await storage.getTodo(MODULE_KEY, 'water'))?.fieldUpdatedAt).toEqual({ completed: T3, notes: T1 });
+  });
+
+  it('keeps field times when clearing completed items', async () => {
+    await storage.updateTodoNote(MODULE_KEY, 'water', 'Two gallons per person');
+    await storage.toggleTodo(MODULE_KEY, 'water');
+
+    vi.setSystemTime(T2);
+    await storage.clearCompletedItems(MODULE_KEY);
+
+    const [archived] = await storage.getArchivedItems(MODULE_KEY);
+    expect(archived.archivedAt).toBe(T2);
+    expect(archived.fieldUpdatedAt).toEqual({ completed: T1, notes: T1 });
+  });
+
+  it('stamps restored items', async () => {
+    await storage.toggleTodo(MODULE_KEY, 'water');
+    await storage.clearCompletedItems(MODULE_KEY);
+
+    vi.setSystemTime(T2);
+    await storage.restoreArchivedItems([`${MODULE_KEY}-water`]);
+
+    const restored = await storage.getTodo(MODULE_KEY, 'water');
+    expect(restored).toMatchObject({ completed: true, completedAt: T1, fieldUpdatedAt: { completed: T2 } });
+    expect(restored).not.toHaveProperty('archivedAt');
+  });
+
+  it('restores onto an item started again, keeping its schedule and field times', async () => {
+    await storage.updateTodoNote(MODULE_KEY, 'water', 'Two gallons per person');
+    await storage.toggleTodo(MODULE_KEY, 'water');
+    await storage.clearCompletedItems(MODULE_KEY);
+
+    vi.setSystemTime(T2);
+    await storage.setTodoSchedule(MODULE_KEY, 'water', { dueAt: '2025-04-01' });
+    vi.setSystemTime(T3);
+    await storage.updateTodoNote(MODULE_KEY, 'water', 'Rotate in spring');
+
+    vi.setSystemTime(T4);
+    await storage.restoreArchivedItems([`${MODULE_KEY}-water`]);
+
+    expect(await storage.getTodo(MODULE_KEY, 'water')).toMatchObject({
+      completed: true,
+      completedAt: T1,
+      dueAt: '2025-04-01',
+      notes: 'Rotate in spring\n\nTwo gallons per person',
+      fieldUpdatedAt: { completed: T4, notes: T4, schedule: T2 },
+    });
+  });
+
+  it('undoes only the fields a system change left alone, stamping them again', async () => {
+    await storage.setTodoSchedule(MODULE_KEY, 'water', { recurrence: { every: 1, unit: 'month' } });
+    await storage.toggleTodo(MODULE_KEY, 'water');
+    vi.setSystemTime(T2);
+    await storage.updateTodoNote(MODULE_KEY, 'water', 'Two gallons per person');
+
+    // The item comes due again after the note was written
+    vi.setSystemTime('2025-04-02T10:00:00.000Z');
+    expect(await storage.reopenDueItems()).toBe(1);
+
+    vi.setSystemTime('2025-04-03T10:00:00.000Z');
+    expect((await storage.undoLastChange())?.label).toBe('Edit item note');
+
+    const todo = await storage.getTodo(MODULE_KEY, 'water');
+    expect(todo).toMatchObject({ completed: false, updatedAt: '2025-04-03T10:00:00.000Z' });
+    expect(todo?.notes).toBeUndefined();
+    expect(todo?.fieldUpdatedAt).toMatchObject({
+      completed: '2025-04-02T10:00:00.000Z',
+      notes: '2025-04-03T10:00:00.000Z',
+    });
+  });
+});
+
+describe('clearing completed items', () => {
+  let storage: StorageModule;
+
+  beforeEach(async () => {
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    storage = await import('./storage');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('archives only completed items', async () => {
+    await storage.toggleTodo(MODULE_KEY, 'water');
+    await storage.updateTodoNote(MODULE_KEY, 'radio', 'Buy batteries');
+
+    expect(await storage.clearCompletedItems(MODULE_KEY)).toBe(1);
+    expect(await storage.getTodo(MODULE_KEY, 'water')).toBeUndefined();
+    expect((await storage.getTodo(MODULE_KEY, 'radio'))?.notes).toBe('Buy batteries');
+    expect((await storage.getArchivedItems(MODULE_KEY)).map((item) => item.todoId)).toEqual(['water']);
+  });
+
+  it('keeps the notes of an earlier archived copy', async () => {
+    await storage.updateTodoNote(MODULE_KEY, 'water', 'Two gallons per person');
+    await storage.toggleTodo(MODULE_KEY, 'water');
+    await storage.clearCompletedItems(MODULE_KEY);
+
+    await storage.updateTodoNote(MODULE_KEY, 'water', 'Rotated in spring');
+    await storage.toggleTodo(MODULE_KEY, 'water');
+    await storage.clearCompletedItems(MODULE_KEY);
+
+    const archived = await storage.getArchivedItems(MODULE_KEY);
+    expect(archived).toHaveLength(1);
+    expect(archived[0].notes).toBe('Rotated in spring\n\nTwo gallons per person');
+  });
+});
+
+describe('flushPendingWrites', () => {
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('waits for writes that are still reading the stored record', async () => {
+    const storage = await import('./storage');
+    await storage.toggleTodo(MODULE_KEY, 'water');
+
+    void storage.updateTodoNote(MODULE_KEY, 'water', 'Two gallons per person');
+    void storage.toggleTodo(MODULE_KEY, 'radio');
+    await storage.flushPendingWrites();
+
+    expect((await storage.getTodo(MODULE_KEY, 'water'))?.notes).toBe('Two gallons per person');
+    expect((await storage.getTodo(MODULE_KEY, 'radio'))?.completed).toBe(true);
+  });
+});
+
+describe('sealed metadata secrets', () => {
+  const PASSPHRASE = 'correct horse battery';
+  let storage: StorageModule;
+
+  beforeEach(async () => {
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+    vi.stubGlobal('localStorage', memoryStorage());
+    vi.stubGlobal('sessionStorage', memoryStorage());
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    storage = await import('./storage');
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  async function storedSecret(): Promise<string> {
+    return (await storage.getMetadata(storage.TEAM_SYNC_KEY)).secret;
+  }
+
+  it('encrypts the team sync secret while the passphrase lock is on', async () => {
+    await storage.setMetadata(storage.TEAM_SYNC_KEY, { secret: await storage.sealSecret('team-secret') });
+    expect(await storedSecret()).toBe('team-secret');
+
+    await storage.enableEncryption(PASSPHRASE, 0);
+    expect(await storedSecret()).toMatch(/^enc:v1:/);
+    expect(await storage.openSecret(await storedSecret())).toBe('team-secret');
+
+    storage.lockStorage();
+    await expect(storage.openSecret(await storedSecret())).rejects.toThrow('Storage is locked');
+    await expect(storage.sealSecret('another-secret')).rejects.toThrow('Storage is locked');
+
+    expect(await storage.unlockStorage(PASSPHRASE)).toBe(true);
+    const sealed = await storage.sealSecret('another-secret');
+    expect(sealed).toMatch(/^enc:v1:/);
+    await storage.setMetadata(storage.TEAM_SYNC_KEY, { secret: sealed });
+
+    expect(await storage.disableEncryption(PASSPHRASE)).toBe(true);
+    expect(await storedSecret()).toBe('another-secret');
+  });
+});
@@ -13,22 +13,56 @@
  * ## Data Model:
  * - **todos**: Checkbox completion state and notes (keyed by `moduleKey-todoId`)
  * - **tables**: Editable table rows with custom data (keyed by `moduleKey-tableId-rowId`)
+ * - **annotations**: Notes attached to a whole block, e.g. an EditableTable (keyed by `moduleKey-blockId`)
  * - **metadata**: App settings and preferences
+ * - **archive**: Checklist items moved out of `todos` by "Clear completed" (restorable)
+ * - **journal**: Append-only before/after history of the stores above (undo/redo, item history)
  *
  * ## Key Design Decisions:
  * - Composite keys (e.g., `${moduleKey}-${todoId}`) allow per-module queries
  * - Indexes enable efficient lookups (by-module, by-table)
- * - Schema version 1 (will increment for migrations)
- * - All data stays local - no cloud sync
+ * - Schema changes go through the versioned migration registry (storageMigrations.ts)
+ * - Writes are announced to `subscribe`rs in every open tab (BroadcastChannel)
+ * - Each profile (profiles.ts) is a separate database with all of the stores
+ *   above; this module only ever opens the active profile's
+ * - With the passphrase lock on, free-text fields are encrypted before they
+ *   are stored and decrypted on read (see ENCRYPTION below)
+ * - All data stays local - no cloud sync (devices sync directly, see sync.ts)
  */
 import { openDB, type DBSchema, type IDBPDatabase } from 'idb';
+import { getSectionStorage } from '@/lib/sectionLookup';
+import { addRecurrence, isDateKey, isDueAgain, isRecurrence, toDateKey } from '@/lib/recurrence';
+import { getActiveProfile, getProfileDatabaseName, type Profile } from '@/lib/profiles';
+import { diffRecord, isSameValue, mergeRecord, revertFields, stampFieldTimes } from '@/lib/merge';
+import {
+  checkPassphrase,
+  createEncryptionConfig,
+  decryptText,
+  encryptBackup,
+  encryptText,
+  endSession,
+  extendSession,
+  getSessionKey,
+  isEncrypted,
+  MIN_PASSPHRASE_LENGTH,
+  sessionScope,
+  startSession,
+  type EncryptionConfig,
+} from '@/lib/encryption';
+import {
+  DB_VERSION,
+  MIGRATION_LOG_KEY,
+  runMigrations,
+  type MigrationLogEntry,
+} from './storageMigrations';
 
 /**
  * IndexedDB schema definition
  *
- * Defines three object stores with their keys, values, and indexes.
+ * Defines six object stores with their keys, values, and indexes.
+ * Describes the schema as of the latest migration in storageMigrations.ts.
  */
-interface ResilienceDB extends DBSchema {
+export interface ResilienceDB extends DBSchema {
   /** Todo/checklist completion tracking */
   todos: {
     key: string; // Composite key: `${moduleKey}-${todoId}`
@@ -39,6 +73,10 @@ interface ResilienceDB extends DBSchema {
       completed: boolean; // Completion state
       completedAt?: string; // ISO timestamp when completed
       notes?: string; // Optional user notes
+      updatedAt?: string; // ISO timestamp of last local update (absent on older records)
+      dueAt?: string; // Local date ("YYYY-MM-DD") the item is next due
+      recurrence?: Recurrence; // Comes due again this long after being checked
+      fieldUpdatedAt?: FieldTimes; // When each field last changed (see merge.ts)
     };
     indexes: { 'by-module': string }; // Index for querying all todos in a module
   };
@@ -51,288 +89,2434 @@ interface ResilienceDB extends DBSchema {
       tableId: string; // Table identifier within module
       rowId: string; // Row identifier (generated)
       data: Record<string, any>; // Column data as key-value pairs
-      updatedAt: string; // ISO timestamp of last local update
+      order?: number; // Display position within the table (rows without one sort by rowId)
+      updatedAt: string; // ISO timestamp of last local update ('' for untouched seeded rows)
+      fieldUpdatedAt?: FieldTimes; // When each cell (and `order`) last changed (see merge.ts)
     };
     indexes: { 'by-table': [string, string] }; // Compound index: [moduleKey, tableId]
   };
+  /** Block-level notes (e.g. the note under an EditableTable) */
+  annotations: {
+    key: string; // Composite key: `${moduleKey}-${blockId}`
+    value: {
+      id: string; // Same as key (required for keyPath)
+      moduleKey: string; // Module identifier
+      blockId: string; // Block identifier within module (e.g. a tableId)
+      blockType: AnnotationBlockType; // Kind of block the note belongs to
+      text: string; // Note text (records are deleted rather than left empty)
+      updatedAt: string; // ISO timestamp of last local update
+    };
+    indexes: { 'by-module': string }; // Index for querying all notes in a module
+  };
   /** App metadata and settings */
   metadata: {
-    key: string; // Setting key (e.g., "activeHubId", "lastSyncTime")
+    key: string; // Setting key (e.g., "journalRetention", "notificationSettings")
     value: {
       key: string; // Same as key (required for keyPath)
       value: any; // Setting value (type varies)
       updatedAt: string; // ISO timestamp of last update
     };
   };
+  /** Completed checklist items cleared from `todos`, with their notes */
+  archive: {
+    key: string; // Same key as the todo it came from: `${moduleKey}-${todoId}`
+    value: ArchivedTodo;
+    indexes: { 'by-module': string }; // Index for querying a module's archived items
+  };
+  /** Change history for todos, tables, annotations and archive */
+  journal: {
+    key: number; // Auto-incremented sequence number
+    value: JournalEntry;
+    indexes: {
+      'by-record': [string, string]; // Compound index: [store, recordId]
+      'by-time': string; // Index for pruning by age
+    };
+  };
 }
 
-let dbInstance: IDBPDatabase<ResilienceDB> | null = null;
+let dbPromise: Promise<IDBPDatabase<ResilienceDB>> | null = null;
 
 /**
  * Initialize or retrieve IndexedDB connection
  *
- * Opens the 'resilience-toolkit' database (version 1) and creates object stores
- * with indexes if this is the first time opening or upgrading.
+ * Opens the active profile's database ('resilience-toolkit' for the first
+ * profile, see `getProfileDatabaseName`) at the latest schema version and
+ * runs any pending migrations from storageMigrations.ts if the device has
+ * an older version (or no database yet).
  *
  * ## Schema Migrations:
- * - Version 1: Initial schema with todos, tables, metadata stores
- * - Future versions: Increment version number and add migration logic in upgrade callback
+ * - Each registered step runs once, in order, inside the upgrade transaction
+ * - A failing step aborts the upgrade so existing data is never half-migrated
+ * - Applied steps are recorded in the `metadata` store (see `getMigrationLog`)
  *
  * ## Indexes Created:
  * - `todos.by-module`: Allows efficient queries like "get all todos for this module"
  * - `tables.by-table`: Compound index for queries like "get all rows for this table"
+ * - `annotations.by-module`: All block notes in a module
+ * - `archive.by-module`: All archived checklist items in a module
+ * - `journal.by-record`: History of one record
  *
  * @returns {Promise<IDBPDatabase>} Database connection (singleton)
  */
 async function getDB(): Promise<IDBPDatabase<ResilienceDB>> {
-  if (dbInstance) {
-    return dbInstance;
+  if (dbPromise) {
+    return dbPromise;
   }
 
-  dbInstance = await openDB<ResilienceDB>('resilience-toolkit', 1, {
-    upgrade(db) {
-      // Todos store: Checklist completion state
-      const todoStore = db.createObjectStore('todos', { keyPath: 'id' });
-      todoStore.createIndex('by-module', 'moduleKey');
+  // Any tab using storage hears about writes made in the others
+  connectChannel();
 
-      // Tables store: Editable table rows
-      const tableStore = db.createObjectStore('tables', { keyPath: 'id' });
-      tableStore.createIndex('by-table', ['moduleKey', 'tableId']);
-
-      // Metadata store: App settings and state
-      db.createObjectStore('metadata', { keyPath: 'key' });
+  dbPromise = openDB<ResilienceDB>(getProfileDatabaseName(getActiveProfile().id), DB_VERSION, {
+    upgrade(db, oldVersion, newVersion, transaction) {
+      runMigrations(db, transaction, oldVersion, newVersion ?? DB_VERSION).catch((error) => {
+        console.error('[Storage] Schema migration failed, rolling back:', error);
+        transaction.abort();
+      });
+    },
+    blocking() {
+      // A newer version of the app is upgrading the schema in another tab;
+      // release our connection so its migration can proceed.
+      closeDB();
     },
+    terminated() {
+      dbPromise = null;
+    },
+  });
+
+  try {
+    return await dbPromise;
+  } catch (error) {
+    dbPromise = null;
+    throw error;
+  }
+}
+
+/**
+ * Close the current connection (the next call to `getDB` reopens it)
+ */
+function closeDB(): void {
+  const pending = dbPromise;
+  dbPromise = null;
+  pending?.then((db) => db.close()).catch(() => {});
+}
+
+/**
+ * Get the list of schema migrations applied on this device
+ */
+export async function getMigrationLog(): Promise<MigrationLogEntry[]> {
+  const log = await getMetadata(MIGRATION_LOG_KEY);
+  return Array.isArray(log) ? log : [];
+}
+
+// ============================================================================
+// CHANGE JOURNAL
+// ============================================================================
+
+/** Stores whose records are journaled (metadata is not) */
+export type JournaledStore = 'todos' | 'tables' | 'annotations' | 'archive';
+
+export type JournaledRecord = Todo | TableRow | Annotation | ArchivedTodo;
+
+/**
+ * - edit: a change made by the user
+ * - undo/redo: reverting or reapplying the change named by `targetChangeId`
+ * - system: an automatic change (a recurring item coming due); shown in
+ *   history but not undoable
+ */
+export type JournalEntryKind = 'edit' | 'undo' | 'redo' | 'system';
+
+/**
+ * One record's before/after state within a change
+ *
+ * A change is one user action (e.g. "Clear completed items") and writes one
+ * entry per record it touched, all sharing a `changeId`.
+ */
+export interface JournalEntry {
+  seq?: number; // Auto-incremented key (assigned on insert)
+  changeId: string; // Groups the entries of one user action
+  kind: JournalEntryKind;
+  targetChangeId?: string; // The change an undo/redo applies to
+  label: string; // What the user did, e.g. "Check item"
+  store: JournaledStore;
+  recordId: string; // Key of the record in `store`
+  before: JournaledRecord | null; // null: the record did not exist
+  after: JournaledRecord | null; // null: the record was deleted
+  at: string; // ISO timestamp
+  deviceId: string; // Device that made the change (see `getDeviceId`)
+}
+
+/** Consecutive edits to one record within this window become a single undo step */
+export const COALESCE_WINDOW_MS = 5000;
+
+/**
+ * Window event fired after every journaled write, in this tab or another one.
+ * Used by views of the journal itself (undo bar, history lists); components
+ * showing records should use `subscribe` instead.
+ */
+export const JOURNAL_CHANGED_EVENT = 'journal-changed';
+
+export interface JournalChangedDetail {
+  changeId: string;
+  kind: JournalEntryKind;
+  records: Array<{ store: JournaledStore; recordId: string }>;
+}
+
+interface RecordWrite {
+  store: JournaledStore;
+  id: string;
+  /** New record, null to delete, or a function of the current record */
+  value: JournaledRecord | null | ((current: JournaledRecord | null) => JournaledRecord | null);
+}
+
+interface ChangeOptions {
+  label: string;
+  kind?: JournalEntryKind;
+  targetChangeId?: string;
+  /** Merge into the previous entry if it edited the same record moments ago (typing) */
+  coalesce?: boolean;
+}
+
+/** Minimal view of a journaled object store (idb can't type a union of store names) */
+interface JournaledObjectStore {
+  get(id: string): Promise<JournaledRecord | undefined>;
+  put(value: JournaledRecord): Promise<unknown>;
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * Stable ID for this browser, stored in localStorage
+ */
+export function getDeviceId(): string {
+  if (typeof localStorage === 'undefined') return 'unknown-device';
+
+  let deviceId = localStorage.getItem('deviceId');
+  if (!deviceId) {
+    deviceId = `device-${crypto.randomUUID()}`;
+    localStorage.setItem('deviceId', deviceId);
+    console.log('[Storage] Generated new device ID:', deviceId);
+  }
+  return deviceId;
+}
+
+/**
+ * Whether two versions of a record hold the same data (change times ignored)
+ */
+export function isSameContent(a: JournaledRecord | null, b: JournaledRecord | null): boolean {
+  if (!a || !b) return a === b;
+  return isSameValue(
+    { ...a, updatedAt: undefined, fieldUpdatedAt: undefined },
+    { ...b, updatedAt: undefined, fieldUpdatedAt: undefined }
+  );
+}
+
+/** Writes in this tab that haven't finished yet */
+const pendingWrites = new Set<Promise<void>>();
+
+/**
+ * Count a write as pending until the returned function is called; writes that
+ * read the stored record before calling `writeChange` start counting first
+ */
+function startWrite(): () => void {
+  let finish = () => {};
+  const write = new Promise<void>((resolve) => {
+    finish = resolve;
+  });
+  pendingWrites.add(write);
+  write.then(() => pendingWrites.delete(write));
+  return finish;
+}
+
+/**
+ * Wait until every write started in this tab has been saved (or has failed),
+ * including ones started meanwhile - e.g. before switching profiles or reloading the page
+ */
+export async function flushPendingWrites(): Promise<void> {
+  while (pendingWrites.size > 0) {
+    await Promise.all([...pendingWrites]);
+  }
+}
+
+/**
+ * Apply record writes and journal them in one transaction
+ *
+ * Every write to todos, tables and annotations goes through here so the
+ * journal always matches the data. Edits and system changes that change
+ * nothing are not journaled; undo/redo steps always are, so the undo stack
+ * stays consistent.
+ *
+ * With the passphrase lock on, records are encrypted first (see `sealWrites`)
+ * and the write is retried if one of them changed in the meantime.
+ *
+ * @returns The change id, or null if nothing was journaled
+ */
+function writeChange(writes: RecordWrite[], options: ChangeOptions): Promise<string | null> {
+  const finish = startWrite();
+  const write = sealAndCommitChange(writes, options);
+  write.then(finish, finish);
+  return write;
+}
+
+async function sealAndCommitChange(writes: RecordWrite[], options: ChangeOptions): Promise<string | null> {
+  const key = await getRecordKey();
+  if (!key) {
+    return commitChange(writes, options);
+  }
+
+  for (let attempt = 1; ; attempt++) {
+    const { sealed, expected } = await sealWrites(writes, key);
+    try {
+      return await commitChange(sealed, options, expected);
+    } catch (error) {
+      if (error !== WRITE_CONFLICT || attempt === MAX_SEAL_ATTEMPTS) throw error;
+    }
+  }
+}
+
+/**
+ * The transaction behind `writeChange`
+ *
+ * @param expected - Per write, the record it was prepared from; the change is
+ *   abandoned with `WRITE_CONFLICT` if the stored record no longer matches
+ */
+async function commitChange(
+  writes: RecordWrite[],
+  options: ChangeOptions,
+  expected?: Array<JournaledRecord | null | undefined>
+): Promise<string | null> {
+  const db = await getDB();
+  const storeNames = [...new Set(writes.map((write) => write.store))];
+  const tx = db.transaction([...storeNames, 'journal'], 'readwrite');
+  const journal = tx.objectStore('journal');
+  const kind = options.kind ?? 'edit';
+  const journalUnchanged = kind === 'undo' || kind === 'redo';
+  const changeId = crypto.randomUUID();
+  const at = new Date().toISOString();
+  const deviceId = getDeviceId();
+  const entries: JournalEntry[] = [];
+
+  // A failing request rejects below; keep the abort from surfacing twice
+  tx.done.catch(() => {});
+
+  try {
+    for (const [index, write] of writes.entries()) {
+      const store = tx.objectStore(write.store) as unknown as JournaledObjectStore;
+      const before = (await store.get(write.id)) ?? null;
+      if (expected?.[index] !== undefined && !isSameValue(before, expected[index])) {
+        throw WRITE_CONFLICT;
+      }
+      const after = typeof write.value === 'function' ? write.value(before) : write.value;
+
+      if (after !== before) {
+        if (after) {
+          await store.put(after);
+        } else if (before) {
+          await store.delete(write.id);
+        }
+      }
+
+      if (journalUnchanged || !isSameContent(before, after)) {
+        entries.push({
+          changeId,
+          kind,
+          targetChangeId: options.targetChangeId,
+          label: options.label,
+          store: write.store,
+          recordId: write.id,
+          before,
+          after,
+          at,
+          deviceId,
+        });
+      }
+    }
+
+    if (options.coalesce && entries.length === 1) {
+      const cursor = await journal.openCursor(null, 'prev');
+      const last = cursor?.value;
+
+      if (
+        cursor &&
+        last &&
+        last.kind === 'edit' &&
+        last.store === entries[0].store &&
+        last.recordId === entries[0].recordId &&
+        last.label === options.label &&
+        last.deviceId === deviceId &&
+        Date.parse(at) - Date.parse(last.at) < COALESCE_WINDOW_MS
+      ) {
+        const merged = { ...last, after: entries[0].after, at };
+        // Typing something and deleting it again leaves nothing to undo
+        if (isSameContent(merged.before, merged.after)) {
+          await cursor.delete();
+        } else {
+          await cursor.update(merged);
+        }
+        await tx.done;
+        publishChange(last.changeId, kind, entries);
+        return last.changeId;
+      }
+    }
+
+    for (const entry of entries) {
+      await journal.add(entry);
+    }
+    await tx.done;
+  } catch (error) {
+    try {
+      tx.abort();
+    } catch {
+      // Transaction already aborted by the failing request
+    }
+    throw error;
+  }
+
+  if (entries.length === 0) return null;
+
+  publishChange(changeId, kind, entries);
+  pruneJournal().catch((error) => console.warn('[Storage] Failed to prune journal:', error));
+  return changeId;
+}
+
+// ============================================================================
+// SUBSCRIPTIONS
+// ============================================================================
+
+/** Record type held by a journaled store */
+export type StoreRecord<S extends JournaledStore> = ResilienceDB[S]['value'];
+
+/**
+ * A record written by this tab or another tab of the toolkit
+ */
+export interface StoreChange<S extends JournaledStore = JournaledStore> {
+  store: S;
+  recordId: string;
+  before: StoreRecord<S> | null; // null: the record was created
+  after: StoreRecord<S> | null; // null: the record was deleted
+  changeId: string;
+  kind: JournalEntryKind;
+  local: boolean; // false when the write came from another tab or window
+}
+
+/**
+ * Field values a record must have to be delivered, e.g. `{ moduleKey, tableId }`.
+ * Compared with `===` against the new record (or the old one for deletions).
+ */
+export type StoreFilter<S extends JournaledStore> = Partial<StoreRecord<S>>;
+
+interface Subscription {
+  store: JournaledStore;
+  filter: Record<string, unknown>;
+  callback: (change: StoreChange) => void;
+}
+
+/** What one tab tells the others after a write */
+interface ChannelMessage {
+  detail: JournalChangedDetail;
+  changes: Array<Omit<StoreChange, 'local'>>;
+}
+
+const CHANNEL_NAME = 'resilience-toolkit-storage';
+const subscriptions = new Set<Subscription>();
+let channel: BroadcastChannel | null = null;
+
+/**
+ * Open the cross-tab channel (browser only, once per tab)
+ */
+function connectChannel(): void {
+  if (channel || typeof window === 'undefined' || typeof BroadcastChannel === 'undefined') return;
+
+  // Tabs only hear about writes to the profile they have open
+  channel = new BroadcastChannel(`${CHANNEL_NAME}:${getActiveProfile().id}`);
+  channel.onmessage = (event: MessageEvent<ChannelMessage>) => {
+    const { detail, changes } = event.data;
+    deliverChanges(changes.map((change) => ({ ...change, local: false })));
+    window.dispatchEvent(new CustomEvent<JournalChangedDetail>(JOURNAL_CHANGED_EVENT, { detail }));
+  };
+}
+
+let pendingDeliveries = 0;
+let deliveryQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Pass changes to subscribers, decrypted
+ *
+ * Changes with encrypted fields are decrypted first; while any are waiting,
+ * later changes queue behind them so subscribers see writes in order.
+ */
+function deliverChanges(changes: StoreChange[]): void {
+  if (pendingDeliveries === 0 && !changes.some(hasSealedChange)) {
+    notifySubscribers(changes);
+    return;
+  }
+
+  pendingDeliveries++;
+  deliveryQueue = deliveryQueue
+    .then(() => Promise.all(changes.map(openChange)))
+    .then(notifySubscribers)
+    .catch((error) => console.warn('[Storage] Could not decrypt changed records:', error))
+    .finally(() => {
+      pendingDeliveries--;
+    });
+}
+
+function notifySubscribers(changes: StoreChange[]): void {
+  changes.forEach((change) => {
+    const record = (change.after ?? change.before) as Record<string, unknown> | null;
+    subscriptions.forEach((subscription) => {
+      if (
+        subscription.store === change.store &&
+        record &&
+        Object.entries(subscription.filter).every(([key, value]) => record[key] === value)
+      ) {
+        try {
+          subscription.callback(change);
+        } catch (error) {
+          console.error('[Storage] Subscriber failed:', error);
+        }
+      }
+    });
+  });
+}
+
+/**
+ * Tell subscribers in this tab and every other tab about a journaled write
+ */
+function publishChange(changeId: string, kind: JournalEntryKind, entries: JournalEntry[]): void {
+  const detail: JournalChangedDetail = {
+    changeId,
+    kind,
+    records: entries.map(({ store, recordId }) => ({ store, recordId })),
+  };
+  const changes = entries.map(({ store, recordId, before, after }) => ({
+    store,
+    recordId,
+    before,
+    after,
+    changeId,
+    kind,
+  })) as Array<Omit<StoreChange, 'local'>>;
+
+  deliverChanges(changes.map((change) => ({ ...change, local: true })));
+
+  if (typeof window === 'undefined') return;
+  window.dispatchEvent(new CustomEvent<JournalChangedDetail>(JOURNAL_CHANGED_EVENT, { detail }));
+
+  connectChannel();
+  try {
+    channel?.postMessage({ detail, changes } satisfies ChannelMessage);
+  } catch (error) {
+    console.warn('[Storage] Failed to notify other tabs:', error);
+  }
+}
+
+/**
+ * Get notified whenever matching records change - in this tab (including
+ * undo/redo and bulk actions) or in another tab via BroadcastChannel
+ *
+ * @example
+ * const unsubscribe = subscribe('todos', { moduleKey, todoId }, (change) => {
+ *   setTodo(change.after);
+ * });
+ *
+ * @returns A function that ends the subscription
+ */
+export function subscribe<S extends JournaledStore>(
+  store: S,
+  filter: StoreFilter<S>,
+  callback: (change: StoreChange<S>) => void
+): () => void {
+  connectChannel();
+  const subscription: Subscription = {
+    store,
+    filter: filter as Record<string, unknown>,
+    callback: callback as unknown as Subscription['callback'],
+  };
+  subscriptions.add(subscription);
+  return () => {
+    subscriptions.delete(subscription);
+  };
+}
+
+// ============================================================================
+// ENCRYPTION
+// ============================================================================
+
+/** Metadata key holding the profile's `EncryptionConfig` (absent while the lock is off) */
+const ENCRYPTION_METADATA_KEY = 'encryption';
+
+/** localStorage key written on every lock change; other tabs lock and reload (see EncryptionLock) */
+export const ENCRYPTION_SIGNAL_KEY = 'encryptionChangedAt';
+
+/**
+ * Fields holding what a household writes themselves, encrypted while the
+ * passphrase lock is on. An encrypted field holds an `enc:v1:` string (of its
+ * JSON value) in place of the value; everything else stays readable so
+ * progress, reminders and due dates work while locked.
+ */
+const SEALED_FIELDS: Record<JournaledStore, string[]> = {
+  todos: ['notes'],
+  archive: ['notes'],
+  tables: ['data'],
+  annotations: ['text'],
+};
+
+const LOCKED_MESSAGE = 'Storage is locked - enter your passphrase to continue';
+
+/** Thrown from a transaction when a record changed after it was encrypted */
+const WRITE_CONFLICT = new Error('A record changed while it was being encrypted');
+const MAX_SEAL_ATTEMPTS = 3;
+
+export type EncryptionStatus = 'off' | 'locked' | 'unlocked';
+
+export interface LockState {
+  status: EncryptionStatus;
+  /** Lock after this many minutes without activity (0: when the tab closes) */
+  autoLockMinutes: number;
+}
+
+type RecordFields = Record<string, unknown>;
+
+async function getEncryptionConfig(): Promise<EncryptionConfig | null> {
+  return (await getMetadata(ENCRYPTION_METADATA_KEY)) ?? null;
+}
+
+async function getUnlockedKey(config: EncryptionConfig): Promise<CryptoKey | null> {
+  return getSessionKey(sessionScope(getActiveProfile().id, config));
+}
+
+/**
+ * The key writes are encrypted with: null while the lock is off; throws while locked
+ */
+async function getRecordKey(): Promise<CryptoKey | null> {
+  const config = await getEncryptionConfig();
+  if (!config) return null;
+
+  const key = await getUnlockedKey(config);
+  if (!key) {
+    throw new Error(LOCKED_MESSAGE);
+  }
+  return key;
+}
+
+function hasSealedFields(store: JournaledStore, record: JournaledRecord | null | undefined): boolean {
+  if (!record) return false;
+  const fields = record as unknown as RecordFields;
+  return SEALED_FIELDS[store].some((field) => isEncrypted(fields[field]));
+}
+
+function hasSealedChange(change: StoreChange): boolean {
+  return hasSealedFields(change.store, change.before) || hasSealedFields(change.store, change.after);
+}
+
+/**
+ * Encrypt a record's sealed fields
+ *
+ * Pass the stored record (and its decrypted copy) to keep the stored
+ * ciphertext of fields that didn't change, so rewriting a record with the
+ * same content isn't mistaken for an edit.
+ */
+async function sealRecord<T extends JournaledRecord>(
+  store: JournaledStore,
+  record: T,
+  key: CryptoKey,
+  current: JournaledRecord | null = null,
+  currentOpened: JournaledRecord | null = null
+): Promise<T> {
+  const sealed: RecordFields = { ...record };
+  const stored = current as unknown as RecordFields | null;
+  const opened = currentOpened as unknown as RecordFields | null;
+
+  for (const field of SEALED_FIELDS[store]) {
+    const value = sealed[field];
+    if (value === undefined || isEncrypted(value)) continue;
+
+    sealed[field] =
+      stored && opened && isEncrypted(stored[field]) && isSameValue(opened[field], value)
+        ? stored[field]
+        : await encryptText(key, JSON.stringify(value));
+  }
+  return sealed as unknown as T;
+}
+
+/**
+ * Decrypt a record's sealed fields with `key`
+ */
+async function openRecordWith<T extends JournaledRecord | null | undefined>(
+  store: JournaledStore,
+  record: T,
+  key: CryptoKey
+): Promise<T> {
+  if (!record || !hasSealedFields(store, record)) return record;
+
+  const opened: RecordFields = { ...record };
+  for (const field of SEALED_FIELDS[store]) {
+    const value = opened[field];
+    if (isEncrypted(value)) {
+      opened[field] = JSON.parse(await decryptText(key, value));
+    }
+  }
+  return opened as unknown as T;
+}
+
+async function requireUnlockedKey(): Promise<CryptoKey> {
+  const config = await getEncryptionConfig();
+  const key = config && (await getUnlockedKey(config));
+  if (!key) {
+    throw new Error(LOCKED_MESSAGE);
+  }
+  return key;
+}
+
+/**
+ * Decrypt a stored record for callers (records without encrypted fields pass through)
+ */
+async function openRecord<T extends JournaledRecord | null | undefined>(
+  store: JournaledStore,
+  record: T
+): Promise<T> {
+  if (!record || !hasSealedFields(store, record)) return record;
+  return openRecordWith(store, record, await requireUnlockedKey());
+}
+
+async function openRecords<T extends JournaledRecord>(store: JournaledStore, records: T[]): Promise<T[]> {
+  if (!records.some((record) => hasSealedFields(store, record))) return records;
+
+  const key = await requireUnlockedKey();
+  return Promise.all(records.map((record) => openRecordWith(store, record, key)));
+}
+
+async function openEntries(entries: JournalEntry[]): Promise<JournalEntry[]> {
+  return Promise.all(
+    entries.map(async (entry) => ({
+      ...entry,
+      before: await openRecord(entry.store, entry.before),
+      after: await openRecord(entry.store, entry.after),
+    }))
+  );
+}
+
+async function openChange(change: StoreChange): Promise<StoreChange> {
+  return {
+    ...change,
+    before: await openRecord(change.store, change.before),
+    after: await openRecord(change.store, change.after),
+  };
+}
+
+/**
+ * Encrypt the records a change will write, outside its transaction
+ *
+ * WebCrypto can't be awaited inside an IndexedDB transaction (it would commit
+ * early), so record functions run here on decrypted copies of the stored
+ * records. `commitChange` then checks those records are still what is stored.
+ */
+async function sealWrites(
+  writes: RecordWrite[],
+  key: CryptoKey
+): Promise<{ sealed: RecordWrite[]; expected: Array<JournaledRecord | null | undefined> }> {
+  const db = await getDB();
+  const tx = db.transaction([...new Set(writes.map((write) => write.store))], 'readonly');
+  const stored = await Promise.all(
+    writes.map((write) => (tx.objectStore(write.store) as unknown as JournaledObjectStore).get(write.id))
+  );
+  await tx.done;
+
+  // Later writes to a record build on earlier ones in the same change
+  const planned = new Map<string, { raw: JournaledRecord | null; opened: JournaledRecord | null }>();
+  const sealed: RecordWrite[] = [];
+  const expected: Array<JournaledRecord | null | undefined> = [];
+
+  for (const [index, write] of writes.entries()) {
+    const plannedKey = `${write.store}:${write.id}`;
+    const previous = planned.get(plannedKey);
+    const raw = previous ? previous.raw : (stored[index] ?? null);
+    const opened = previous ? previous.opened : await openRecordWith(write.store, raw, key);
+    const after = typeof write.value === 'function' ? write.value(opened) : write.value;
+    const sealedAfter =
+      after === opened ? raw : after && (await sealRecord(write.store, after, key, raw, opened));
+
+    planned.set(plannedKey, { raw: sealedAfter, opened: after });
+    sealed.push({ ...write, value: sealedAfter });
+    expected.push(previous ? undefined : raw);
+  }
+
+  return { sealed, expected };
+}
+
+/**
+ * Re-encrypt every record and history entry from one key to another (null:
+ * not encrypted) and save the new config, all in one transaction
+ */
+async function reencryptAll(
+  from: CryptoKey | null,
+  to: CryptoKey | null,
+  config: EncryptionConfig | null
+): Promise<void> {
+  const convert = async <T extends JournaledRecord | null>(store: JournaledStore, record: T): Promise<T> => {
+    if (!record) return record;
+    const opened = from ? await openRecordWith(store, record, from) : record;
+    return to ? sealRecord(store, opened as JournaledRecord, to) as Promise<T> : opened;
+  };
+
+  const convertMetadata = async (item: ResilienceDB['metadata']['value']) => {
+    const value: Record<string, unknown> = { ...item.value };
+    for (const field of SEALED_METADATA_FIELDS[item.key]) {
+      const text = value[field];
+      if (typeof text !== 'string') continue;
+      const opened = from && isEncrypted(text) ? await decryptText(from, text) : text;
+      value[field] = to ? await encryptText(to, opened) : opened;
+    }
+    return { ...item, value };
+  };
+
+  for (let attempt = 1; ; attempt++) {
+    const db = await getDB();
+    const readTx = db.transaction(
+      ['todos', 'tables', 'annotations', 'archive', 'journal', 'metadata'],
+      'readonly'
+    );
+    const [todos, tables, annotations, archive, journal, sealedMetadata] = await Promise.all([
+      readTx.objectStore('todos').getAll(),
+      readTx.objectStore('tables').getAll(),
+      readTx.objectStore('annotations').getAll(),
+      readTx.objectStore('archive').getAll(),
+      readTx.objectStore('journal').getAll(),
+      Promise.all(Object.keys(SEALED_METADATA_FIELDS).map((key) => readTx.objectStore('metadata').get(key))),
+    ]);
+    await readTx.done;
+
+    const original: Array<[JournaledStore, JournaledRecord[]]> = [
+      ['todos', todos],
+      ['tables', tables],
+      ['annotations', annotations],
+      ['archive', archive],
+    ];
+    const converted = await Promise.all(
+      original.map(([store, records]) => Promise.all(records.map((record) => convert(store, record))))
+    );
+    const convertedJournal = await Promise.all(
+      journal.map(async (entry) => ({
+        ...entry,
+        before: await convert(entry.store, entry.before),
+        after: await convert(entry.store, entry.after),
+      }))
+    );
+    const metadataItems = sealedMetadata.filter(
+      (item): item is ResilienceDB['metadata']['value'] => Boolean(item?.value)
+    );
+    const convertedMetadata = await Promise.all(metadataItems.map(convertMetadata));
+
+    const tx = db.transaction(
+      ['todos', 'tables', 'annotations', 'archive', 'journal', 'metadata'],
+      'readwrite'
+    );
+    tx.done.catch(() => {});
+
+    try {
+      // Anything written since the read above would be left behind, so start over
+      for (const [storeIndex, [store, records]] of original.entries()) {
+        const objectStore = tx.objectStore(store) as unknown as JournaledObjectStore & {
+          count(): Promise<number>;
+        };
+        if ((await objectStore.count()) !== records.length) throw WRITE_CONFLICT;
+
+        for (const [index, record] of records.entries()) {
+          if (!isSameValue(await objectStore.get(record.id), record)) throw WRITE_CONFLICT;
+          await objectStore.put(converted[storeIndex][index]);
+        }
+      }
+
+      const journalStore = tx.objectStore('journal');
+      if ((await journalStore.count()) !== journal.length) throw WRITE_CONFLICT;
+      for (const [index, entry] of journal.entries()) {
+        if (!isSameValue(await journalStore.get(entry.seq as number), entry)) throw WRITE_CONFLICT;
+        await journalStore.put(convertedJournal[index]);
+      }
+
+      const metadataStore = tx.objectStore('metadata');
+      for (const [index, item] of metadataItems.entries()) {
+        if (!isSameValue(await metadataStore.get(item.key), item)) throw WRITE_CONFLICT;
+        await metadataStore.put(convertedMetadata[index]);
+      }
+      if (config) {
+        await metadataStore.put({
+          key: ENCRYPTION_METADATA_KEY,
+          value: config,
+          updatedAt: new Date().toISOString(),
+        });
+      } else {
+        await metadataStore.delete(ENCRYPTION_METADATA_KEY);
+      }
+      await tx.done;
+      return;
+    } catch (error) {
+      try {
+        tx.abort();
+      } catch {
+        // Transaction already aborted by the failing request
+      }
+      if (error !== WRITE_CONFLICT || attempt === MAX_SEAL_ATTEMPTS) throw error;
+    }
+  }
+}
+
+function signalLockChange(): void {
+  localStorage.setItem(ENCRYPTION_SIGNAL_KEY, String(Date.now()));
+}
+
+/**
+ * Whether the passphrase lock is on for the active profile, and whether this tab is unlocked
+ */
+export async function getLockState(): Promise<LockState> {
+  const config = await getEncryptionConfig();
+  if (!config) {
+    return { status: 'off', autoLockMinutes: 0 };
+  }
+  const key = await getUnlockedKey(config);
+  return { status: key ? 'unlocked' : 'locked', autoLockMinutes: config.autoLockMinutes };
+}
+
+/**
+ * Turn the passphrase lock on, encrypting existing notes, table answers and
+ * their history; this tab stays unlocked
+ */
+export async function enableEncryption(passphrase: string, autoLockMinutes: number): Promise<void> {
+  if (await getEncryptionConfig()) {
+    throw new Error('The passphrase lock is already on');
+  }
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+
+  const { config, key } = await createEncryptionConfig(passphrase, autoLockMinutes);
+  await reencryptAll(null, key, config);
+  await startSession(sessionScope(getActiveProfile().id, config), key, autoLockMinutes);
+  signalLockChange();
+}
+
+/**
+ * Unlock this tab
+ *
+ * @returns false if the passphrase is wrong
+ */
+export async function unlockStorage(passphrase: string): Promise<boolean> {
+  const config = await getEncryptionConfig();
+  if (!config) return true;
+
+  const key = await checkPassphrase(config, passphrase);
+  if (!key) return false;
+
+  await startSession(sessionScope(getActiveProfile().id, config), key, config.autoLockMinutes);
+  return true;
+}
+
+/**
+ * Lock this tab and every other open tab
+ */
+export function lockStorage(): void {
+  endSession();
+  signalLockChange();
+}
+
+/**
+ * Re-encrypt everything under a new passphrase
+ *
+ * @returns false if the current passphrase is wrong
+ */
+export async function changePassphrase(current: string, next: string): Promise<boolean> {
+  const config = await getEncryptionConfig();
+  if (!config) {
+    throw new Error('The passphrase lock is off');
+  }
+  if (next.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+
+  const oldKey = await checkPassphrase(config, current);
+  if (!oldKey) return false;
+
+  const created = await createEncryptionConfig(next, config.autoLockMinutes);
+  await reencryptAll(oldKey, created.key, created.config);
+  await startSession(
+    sessionScope(getActiveProfile().id, created.config),
+    created.key,
+    config.autoLockMinutes
+  );
+  signalLockChange();
+  return true;
+}
+
+/**
+ * Turn the passphrase lock off, decrypting everything
+ *
+ * @returns false if the passphrase is wrong
+ */
+export async function disableEncryption(passphrase: string): Promise<boolean> {
+  const config = await getEncryptionConfig();
+  if (!config) return true;
+
+  const key = await checkPassphrase(config, passphrase);
+  if (!key) return false;
+
+  await reencryptAll(key, null, null);
+  endSession();
+  signalLockChange();
+  return true;
+}
+
+/**
+ * Change how long this profile stays unlocked without activity
+ */
+export async function setAutoLockMinutes(autoLockMinutes: number): Promise<void> {
+  const config = await getEncryptionConfig();
+  if (!config) return;
+
+  await setMetadata(ENCRYPTION_METADATA_KEY, { ...config, autoLockMinutes });
+  extendSession(autoLockMinutes);
+}
+
+/**
+ * A secret to keep in metadata (a `SEALED_METADATA_FIELDS` field): encrypted
+ * while the lock is on, as given while it is off; throws while locked
+ */
+export async function sealSecret(secret: string): Promise<string> {
+  const key = await getRecordKey();
+  return key ? encryptText(key, secret) : secret;
+}
+
+/**
+ * Decrypt a secret stored by `sealSecret` (throws while locked)
+ */
+export async function openSecret(value: string): Promise<string> {
+  return isEncrypted(value) ? decryptText(await requireUnlockedKey(), value) : value;
+}
+
+/**
+ * Backup file contents: encrypted with the passphrase while the lock is on
+ * (so a backup is never less protected than the device), otherwise as given
+ */
+export async function protectBackup(json: string): Promise<string> {
+  const config = await getEncryptionConfig();
+  if (!config) return json;
+
+  const key = await getUnlockedKey(config);
+  if (!key) {
+    throw new Error(LOCKED_MESSAGE);
+  }
+  return JSON.stringify(await encryptBackup(json, key, config), null, 2);
+}
+
+// ============================================================================
+// TODO OPERATIONS
+// ============================================================================
+
+/**
+ * How often a checklist item needs doing again, e.g. `{ every: 6, unit: 'month' }`
+ */
+export interface Recurrence {
+  every: number;
+  unit: 'day' | 'week' | 'month' | 'year';
+}
+
+/**
+ * When each field of a record last changed, by field name (see merge.ts)
+ */
+export type FieldTimes = Record<string, string>;
+
+export interface Todo {
+  id: string;
+  moduleKey: string;
+  todoId: string;
+  completed: boolean;
+  completedAt?: string;
+  notes?: string;
+  updatedAt?: string;
+  dueAt?: string;
+  recurrence?: Recurrence;
+  fieldUpdatedAt?: FieldTimes;
+}
+
+/**
+ * Get a specific todo
+ */
+export async function getTodo(moduleKey: string, todoId: string): Promise<Todo | undefined> {
+  const db = await getDB();
+  const id = `${moduleKey}-${todoId}`;
+  return openRecord('todos', await db.get('todos', id));
+}
+
+/**
+ * Get all todos for a module
+ */
+export async function getModuleTodos(moduleKey: string): Promise<Todo[]> {
+  const db = await getDB();
+  return openRecords('todos', await db.getAllFromIndex('todos', 'by-module', moduleKey));
+}
+
+/**
+ * Save or update a todo
+ *
+ * Stamps the fields that changed (see `stampFieldTimes`).
+ */
+export async function saveTodo(
+  todo: Omit<Todo, 'id' | 'updatedAt'>,
+  options: ChangeOptions = { label: 'Update checklist item' }
+): Promise<void> {
+  const id = `${todo.moduleKey}-${todo.todoId}`;
+  const updatedAt = new Date().toISOString();
+  await writeChange(
+    [
+      {
+        store: 'todos',
+        id,
+        value: (current) => stampFieldTimes('todos', current, { ...todo, id, updatedAt }, updatedAt),
+      },
+    ],
+    options
+  );
+}
+
+/**
+ * Toggle todo completion
+ *
+ * Checking a recurring item schedules its next due date.
+ */
+export async function toggleTodo(moduleKey: string, todoId: string): Promise<boolean> {
+  const finish = startWrite();
+  try {
+    const todo = await getTodo(moduleKey, todoId);
+    const completed = !todo?.completed;
+
+    await saveTodo(
+      {
+        ...todo,
+        moduleKey,
+        todoId,
+        completed,
+        completedAt: completed ? new Date().toISOString() : undefined,
+        dueAt:
+          completed && todo?.recurrence ? addRecurrence(new Date(), todo.recurrence) : todo?.dueAt,
+      },
+      { label: completed ? 'Check item' : 'Uncheck item' }
+    );
+
+    return completed;
+  } finally {
+    finish();
+  }
+}
+
+/**
+ * Update todo note
+ */
+export async function updateTodoNote(
+  moduleKey: string,
+  todoId: string,
+  note: string
+): Promise<void> {
+  const finish = startWrite();
+  try {
+    const todo = await getTodo(moduleKey, todoId);
+
+    await saveTodo(
+      {
+        ...todo,
+        moduleKey,
+        todoId,
+        completed: todo?.completed ?? false,
+        notes: note || undefined, // Don't save empty strings
+      },
+      { label: 'Edit item note', coalesce: true }
+    );
+  } finally {
+    finish();
+  }
+}
+
+/**
+ * Set or clear a todo's due date and recurrence
+ *
+ * A recurring item that is already checked and has no due date gets one
+ * interval from when it was checked.
+ */
+export async function setTodoSchedule(
+  moduleKey: string,
+  todoId: string,
+  schedule: { dueAt?: string; recurrence?: Recurrence }
+): Promise<void> {
+  const finish = startWrite();
+  try {
+    const todo = await getTodo(moduleKey, todoId);
+    const { recurrence } = schedule;
+    let { dueAt } = schedule;
+
+    if (!dueAt && recurrence && todo?.completed) {
+      dueAt = addRecurrence(new Date(todo.completedAt ?? Date.now()), recurrence);
+    }
+
+    await saveTodo(
+      {
+        ...todo,
+        moduleKey,
+        todoId,
+        completed: todo?.completed ?? false,
+        dueAt,
+        recurrence,
+      },
+      { label: 'Change item schedule', coalesce: true }
+    );
+  } finally {
+    finish();
+  }
+}
+
+/**
+ * Uncheck recurring items whose next due date has arrived
+ *
+ * Run on page load. Recorded in each item's history as a system change
+ * (not undoable); safe to run in several tabs at once. Waits for the next
+ * load while storage is locked, since changes can't be written then.
+ *
+ * @returns How many items came due
+ */
+export async function reopenDueItems(today: string = toDateKey(new Date())): Promise<number> {
+  if ((await getLockState()).status === 'locked') return 0;
+
+  const db = await getDB();
+  const due = (await db.getAll('todos')).filter((todo) => isDueAgain(todo, today));
+  if (due.length === 0) return 0;
+
+  let reopened = 0;
+  await writeChange(
+    due.map(({ id }) => ({
+      store: 'todos',
+      id,
+      value: (current) => {
+        const todo = current as Todo | null;
+        if (!todo || !isDueAgain(todo, today)) return todo;
+
+        reopened++;
+        const updatedAt = new Date().toISOString();
+        return stampFieldTimes(
+          'todos',
+          todo,
+          { ...todo, completed: false, completedAt: undefined, updatedAt },
+          updatedAt
+        );
+      },
+    })),
+    { label: 'Came due again', kind: 'system' }
+  );
+
+  return reopened;
+}
+
+export type ScheduledTodo = Todo & { dueAt: string };
+
+/**
+ * Every checklist item with a due date, soonest first
+ */
+export async function getScheduledItems(): Promise<ScheduledTodo[]> {
+  const db = await getDB();
+  const scheduled = (await db.getAll('todos'))
+    .filter((todo): todo is ScheduledTodo => Boolean(todo.dueAt))
+    .sort((a, b) => a.dueAt.localeCompare(b.dueAt));
+  return openRecords('todos', scheduled);
+}
+
+/**
+ * Delete a todo
+ */
+export async function deleteTodo(moduleKey: string, todoId: string): Promise<void> {
+  const id = `${moduleKey}-${todoId}`;
+  await writeChange([{ store: 'todos', id, value: null }], { label: 'Remove checklist item' });
+}
+
+// ============================================================================
+// TABLE OPERATIONS
+// ============================================================================
+
+export interface TableRow {
+  id: string;
+  moduleKey: string;
+  tableId: string;
+  rowId: string;
+  data: Record<string, any>;
+  order?: number;
+  updatedAt: string;
+  fieldUpdatedAt?: FieldTimes;
+}
+
+/**
+ * Display order for table rows: by `order`, then by creation (row-2 before row-10)
+ */
+export function compareTableRows(a: TableRow, b: TableRow): number {
+  const orderA = a.order ?? Number.MAX_SAFE_INTEGER;
+  const orderB = b.order ?? Number.MAX_SAFE_INTEGER;
+  if (orderA !== orderB) return orderA - orderB;
+  return a.rowId.localeCompare(b.rowId, undefined, { numeric: true });
+}
+
+/**
+ * Get a specific table row
+ */
+export async function getTableRow(
+  moduleKey: string,
+  tableId: string,
+  rowId: string
+): Promise<TableRow | undefined> {
+  const db = await getDB();
+  const id = `${moduleKey}-${tableId}-${rowId}`;
+  return openRecord('tables', await db.get('tables', id));
+}
+
+/**
+ * Get all rows for a table, in display order
+ */
+export async function getTableRows(moduleKey: string, tableId: string): Promise<TableRow[]> {
+  const db = await getDB();
+  const rows = await db.getAllFromIndex('tables', 'by-table', [moduleKey, tableId]);
+  return (await openRecords('tables', rows)).sort(compareTableRows);
+}
+
+/**
+ * Save or update a table row
+ *
+ * Stamps the cells that changed (see `stampFieldTimes`).
+ */
+export async function saveTableRow(row: Omit<TableRow, 'id' | 'updatedAt'>): Promise<void> {
+  const id = `${row.moduleKey}-${row.tableId}-${row.rowId}`;
+  const updatedAt = new Date().toISOString();
+  await writeChange(
+    [
+      {
+        store: 'tables',
+        id,
+        value: (current) => stampFieldTimes('tables', current, { ...row, id, updatedAt }, updatedAt),
+      },
+    ],
+    { label: 'Edit table', coalesce: true }
+  );
+}
+
+/**
+ * Save several rows of one or more tables at once
+ *
+ * Runs as one transaction (and one undo step), so a multi-row edit such as a
+ * CSV import is either fully saved or not saved at all. Rows whose content is
+ * unchanged are skipped.
+ */
+export async function batchSaveTableRows(
+  rows: Array<Omit<TableRow, 'id' | 'updatedAt'>>,
+  options: ChangeOptions = { label: 'Edit table' }
+): Promise<void> {
+  const updatedAt = new Date().toISOString();
+
+  await writeChange(
+    rows.map((row) => {
+      const id = `${row.moduleKey}-${row.tableId}-${row.rowId}`;
+      const next: TableRow = { ...row, id, updatedAt };
+      return {
+        store: 'tables',
+        id,
+        value: (current) =>
+          current && isSameContent(current, next)
+            ? current
+            : stampFieldTimes('tables', current, next, updatedAt),
+      };
+    }),
+    options
+  );
+}
+
+/**
+ * Write a table's default rows the first time it is shown
+ *
+ * Default rows come from the page, not from the user, so they are not
+ * journaled (undo never removes them) and should have an empty `updatedAt`
+ * so progress doesn't count them as work. Does nothing if the table already
+ * has rows, e.g. when another tab seeded it first.
+ *
+ * @returns The table's rows after seeding, in display order
+ */
+export async function initializeTableRows(
+  moduleKey: string,
+  tableId: string,
+  rows: TableRow[]
+): Promise<TableRow[]> {
+  // Encrypt before the transaction starts (see `sealWrites`)
+  const key = await getRecordKey();
+  const stored = key ? await Promise.all(rows.map((row) => sealRecord('tables', row, key))) : rows;
+
+  const db = await getDB();
+  const tx = db.transaction('tables', 'readwrite');
+  const existing = await tx.store.index('by-table').getAll([moduleKey, tableId]);
+
+  if (existing.length === 0) {
+    await Promise.all(stored.map(async (row) => tx.store.put(row)));
+  }
+  await tx.done;
+
+  return existing.length === 0 ? rows : (await openRecords('tables', existing)).sort(compareTableRows);
+}
+
+/**
+ * Persist a new row order for a table
+ *
+ * Rewrites `order` on every listed row in one transaction (and one undo
+ * step) so a reload never sees a half-applied reorder.
+ *
+ * @param rowIds - Row ids in their new display order
+ */
+export async function reorderTableRows(
+  moduleKey: string,
+  tableId: string,
+  rowIds: string[]
+): Promise<void> {
+  const updatedAt = new Date().toISOString();
+
+  await writeChange(
+    rowIds.map((rowId, order) => ({
+      store: 'tables',
+      id: `${moduleKey}-${tableId}-${rowId}`,
+      value: (current) => {
+        const row = current as TableRow | null;
+        return row && row.order !== order
+          ? stampFieldTimes('tables', row, { ...row, order, updatedAt }, updatedAt)
+          : row;
+      },
+    })),
+    { label: 'Reorder table rows' }
+  );
+}
+
+/**
+ * Delete a table row
+ */
+export async function deleteTableRow(
+  moduleKey: string,
+  tableId: string,
+  rowId: string
+): Promise<void> {
+  const id = `${moduleKey}-${tableId}-${rowId}`;
+  await writeChange([{ store: 'tables', id, value: null }], { label: 'Delete table row' });
+}
+
+// ============================================================================
+// ANNOTATION OPERATIONS
+// ============================================================================
+
+export type AnnotationBlockType = 'table';
+
+export interface Annotation {
+  id: string;
+  moduleKey: string;
+  blockId: string;
+  blockType: AnnotationBlockType;
+  text: string;
+  updatedAt: string;
+}
+
+/**
+ * Get the note attached to a block
+ */
+export async function getAnnotation(
+  moduleKey: string,
+  blockId: string
+): Promise<Annotation | undefined> {
+  const db = await getDB();
+  const id = `${moduleKey}-${blockId}`;
+  return openRecord('annotations', await db.get('annotations', id));
+}
+
+/**
+ * Get all block notes for a module
+ */
+export async function getModuleAnnotations(moduleKey: string): Promise<Annotation[]> {
+  const db = await getDB();
+  return openRecords('annotations', await db.getAllFromIndex('annotations', 'by-module', moduleKey));
+}
+
+/**
+ * Save a block note (an empty note deletes the record)
+ */
+export async function saveAnnotation(
+  moduleKey: string,
+  blockId: string,
+  blockType: AnnotationBlockType,
+  text: string
+): Promise<void> {
+  const id = `${moduleKey}-${blockId}`;
+  const annotation: Annotation | null = text
+    ? { id, moduleKey, blockId, blockType, text, updatedAt: new Date().toISOString() }
+    : null;
+
+  await writeChange([{ store: 'annotations', id, value: annotation }], {
+    label: 'Edit table note',
+    coalesce: true,
+  });
+}
+
+// ============================================================================
+// METADATA OPERATIONS
+// ============================================================================
+
+/**
+ * Get metadata value
+ */
+export async function getMetadata(key: string): Promise<any> {
+  const db = await getDB();
+  const result = await db.get('metadata', key);
+  return result?.value;
+}
+
+/**
+ * Set metadata value
+ */
+export async function setMetadata(key: string, value: any): Promise<void> {
+  const db = await getDB();
+  await db.put('metadata', {
+    key,
+    value,
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+// ============================================================================
+// UNDO / HISTORY OPERATIONS
+// ============================================================================
+
+/** A user action as shown in undo/redo controls */
+export interface ChangeSummary {
+  changeId: string;
+  label: string;
+  at: string;
+  deviceId: string;
+  records: Array<{ store: JournaledStore; recordId: string }>;
+}
+
+interface JournalChange extends ChangeSummary {
+  kind: JournalEntryKind;
+  targetChangeId?: string;
+  entries: JournalEntry[];
+}
+
+/**
+ * Read the journal grouped into changes, oldest first
+ */
+async function readChanges(): Promise<JournalChange[]> {
+  const db = await getDB();
+  const entries = await db.getAll('journal'); // Key order = write order
+  const changes = new Map<string, JournalChange>();
+
+  entries.forEach((entry) => {
+    const change = changes.get(entry.changeId);
+    if (change) {
+      change.entries.push(entry);
+      change.records.push({ store: entry.store, recordId: entry.recordId });
+      return;
+    }
+    changes.set(entry.changeId, {
+      changeId: entry.changeId,
+      kind: entry.kind,
+      targetChangeId: entry.targetChangeId,
+      label: entry.label,
+      at: entry.at,
+      deviceId: entry.deviceId,
+      records: [{ store: entry.store, recordId: entry.recordId }],
+      entries: [entry],
+    });
+  });
+
+  return [...changes.values()];
+}
+
+/**
+ * Replay the journal to find what can be undone and redone
+ *
+ * A new edit clears the redo stack, like any editor. Undo/redo entries whose
+ * target was pruned by the retention policy are skipped.
+ */
+function computeUndoStacks(changes: JournalChange[]): { undo: JournalChange[]; redo: JournalChange[] } {
+  let undo: JournalChange[] = [];
+  let redo: JournalChange[] = [];
+
+  changes.forEach((change) => {
+    if (change.kind === 'system') return;
+
+    if (change.kind === 'edit') {
+      undo.push(change);
+      redo = [];
+      return;
+    }
+
+    const from = change.kind === 'undo' ? undo : redo;
+    const target = from.find((candidate) => candidate.changeId === change.targetChangeId);
+    if (!target) return;
+
+    if (change.kind === 'undo') {
+      undo = undo.filter((candidate) => candidate !== target);
+      redo.push(target);
+    } else {
+      redo = redo.filter((candidate) => candidate !== target);
+      undo.push(target);
+    }
+  });
+
+  return { undo, redo };
+}
+
+function toSummary({ changeId, label, at, deviceId, records }: JournalChange): ChangeSummary {
+  return { changeId, label, at, deviceId, records };
+}
+
+/**
+ * The changes the next undo and redo would apply (null if none)
+ */
+export async function getUndoRedoState(): Promise<{
+  undo: ChangeSummary | null;
+  redo: ChangeSummary | null;
+}> {
+  const { undo, redo } = computeUndoStacks(await readChanges());
+  const nextUndo = undo[undo.length - 1];
+  const nextRedo = redo[redo.length - 1];
+  return {
+    undo: nextUndo ? toSummary(nextUndo) : null,
+    redo: nextRedo ? toSummary(nextRedo) : null,
+  };
+}
+
+/**
+ * The state an undo/redo step leaves a record in
+ *
+ * The step takes the record from `from` (the state the change left) to `to`,
+ * but only where it still holds `from`: a record created or deleted since
+ * stays as it is, and fields edited since keep their newer values.
+ */
+function revertRecord(
+  store: JournaledStore,
+  current: JournaledRecord | null,
+  from: JournaledRecord | null,
+  to: JournaledRecord | null
+): JournaledRecord | null {
+  const updatedAt = new Date().toISOString();
+  if (isSameContent(current, from)) return to && stampFieldTimes(store, current, { ...to, updatedAt }, updatedAt);
+  if (!current || !from || !to) return current;
+  return stampFieldTimes(store, current, { ...revertFields(store, current, from, to), updatedAt }, updatedAt);
+}
+
+async function stepHistory(direction: 'undo' | 'redo'): Promise<ChangeSummary | null> {
+  const { undo, redo } = computeUndoStacks(await readChanges());
+  const target = direction === 'undo' ? undo[undo.length - 1] : redo[redo.length - 1];
+  if (!target) return null;
+
+  // Undo restores records in reverse so repeated writes to one record end on the oldest state
+  const entries = direction === 'undo' ? [...target.entries].reverse() : target.entries;
+
+  await writeChange(
+    entries.map((entry) => ({
+      store: entry.store,
+      id: entry.recordId,
+      value: (current: JournaledRecord | null) =>
+        direction === 'undo'
+          ? revertRecord(entry.store, current, entry.after, entry.before)
+          : revertRecord(entry.store, current, entry.before, entry.after),
+    })),
+    { label: target.label, kind: direction, targetChangeId: target.changeId }
+  );
+
+  return toSummary(target);
+}
+
+/**
+ * Revert the most recent change (app-wide, across pages and reloads)
+ * @returns The change that was undone, or null if there was nothing to undo
+ */
+export async function undoLastChange(): Promise<ChangeSummary | null> {
+  return stepHistory('undo');
+}
+
+/**
+ * Reapply the most recently undone change
+ * @returns The change that was redone, or null if there was nothing to redo
+ */
+export async function redoLastChange(): Promise<ChangeSummary | null> {
+  return stepHistory('redo');
+}
+
+/**
+ * Journal entries for one record, newest first
+ */
+export async function getRecordHistory(
+  store: JournaledStore,
+  recordId: string
+): Promise<JournalEntry[]> {
+  const db = await getDB();
+  const entries = await db.getAllFromIndex('journal', 'by-record', [store, recordId]);
+  return openEntries(entries.reverse());
+}
+
+/**
+ * Journal entries for a checklist item, including moves to and from the archive, newest first
+ */
+export async function getTodoHistory(moduleKey: string, todoId: string): Promise<JournalEntry[]> {
+  const db = await getDB();
+  const id = `${moduleKey}-${todoId}`;
+  const [todos, archive] = await Promise.all([
+    db.getAllFromIndex('journal', 'by-record', ['todos', id]),
+    db.getAllFromIndex('journal', 'by-record', ['archive', id]),
+  ]);
+  return openEntries([...todos, ...archive].sort((a, b) => (b.seq ?? 0) - (a.seq ?? 0)));
+}
+
+/**
+ * Journal entries for every row of a table and its note, newest first
+ */
+export async function getTableHistory(moduleKey: string, tableId: string): Promise<JournalEntry[]> {
+  const db = await getDB();
+  const prefix = `${moduleKey}-${tableId}-`;
+  const [rows, notes] = await Promise.all([
+    db.getAllFromIndex(
+      'journal',
+      'by-record',
+      IDBKeyRange.bound(['tables', prefix], ['tables', `${prefix}\uffff`])
+    ),
+    db.getAllFromIndex('journal', 'by-record', ['annotations', `${moduleKey}-${tableId}`]),
+  ]);
+  return openEntries([...rows, ...notes].sort((a, b) => (b.seq ?? 0) - (a.seq ?? 0)));
+}
+
+/**
+ * Journal entries added after `seq`, oldest first
+ */
+export async function getJournalAfter(seq: number): Promise<JournalEntry[]> {
+  const db = await getDB();
+  return openEntries(await db.getAll('journal', IDBKeyRange.lowerBound(seq, true)));
+}
+
+/**
+ * Sequence numbers of the oldest and newest entries left in the journal
+ * (null when it is empty)
+ */
+export async function getJournalBounds(): Promise<{ oldest: number; newest: number } | null> {
+  const db = await getDB();
+  const tx = db.transaction('journal');
+  const [first, last] = await Promise.all([
+    tx.store.openKeyCursor(),
+    tx.store.openKeyCursor(null, 'prev'),
+  ]);
+  await tx.done;
+  return first && last ? { oldest: first.key, newest: last.key } : null;
+}
+
+/**
+ * What records were at a past moment, for every record changed since
+ *
+ * Keyed by `${store}:${recordId}`; null means the record didn't exist yet.
+ * Records left out have no history after `at`: either they haven't changed
+ * since, or that history was pruned (their `updatedAt` is later than `at`).
+ */
+export async function getRecordsAt(at: string): Promise<Map<string, JournaledRecord | null>> {
+  const db = await getDB();
+  const entries = await db.getAllFromIndex('journal', 'by-time', IDBKeyRange.lowerBound(at, true));
+
+  // The first entry after `at` for each record holds its state at that moment
+  const first = new Map<string, JournalEntry>();
+  entries
+    .sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0))
+    .forEach((entry) => {
+      const key = `${entry.store}:${entry.recordId}`;
+      if (!first.has(key)) first.set(key, entry);
+    });
+
+  const records = new Map<string, JournaledRecord | null>();
+  for (const [key, entry] of first) {
+    records.set(key, await openRecord(entry.store, entry.before));
+  }
+  return records;
+}
+
+/**
+ * How much history to keep; the oldest changes are pruned first
+ */
+export interface JournalRetention {
+  maxEntries: number;
+  maxAgeDays: number;
+}
+
+export const DEFAULT_JOURNAL_RETENTION: JournalRetention = { maxEntries: 1000, maxAgeDays: 90 };
+
+const JOURNAL_RETENTION_KEY = 'journalRetention';
+
+export async function getJournalRetention(): Promise<JournalRetention> {
+  const saved = await getMetadata(JOURNAL_RETENTION_KEY);
+  return { ...DEFAULT_JOURNAL_RETENTION, ...(isPlainObject(saved) ? saved : {}) };
+}
+
+/**
+ * Change the retention policy and prune to it immediately
+ */
+export async function setJournalRetention(retention: JournalRetention): Promise<void> {
+  await setMetadata(JOURNAL_RETENTION_KEY, retention);
+  await pruneJournal();
+}
+
+/**
+ * Drop journal entries beyond the retention policy
+ *
+ * Whole changes are removed together so a partly-pruned change can never be
+ * half undone.
+ *
+ * @returns Number of entries removed
+ */
+export async function pruneJournal(): Promise<number> {
+  const { maxEntries, maxAgeDays } = await getJournalRetention();
+  const db = await getDB();
+  const tx = db.transaction('journal', 'readwrite');
+  const cutoff = new Date(Date.now() - maxAgeDays * 24 * 60 * 60 * 1000).toISOString();
+
+  let excess = (await tx.store.count()) - maxEntries;
+  let removed = 0;
+  let lastChangeId: string | null = null;
+  let cursor = await tx.store.openCursor();
+
+  while (cursor) {
+    const entry = cursor.value;
+    if (excess <= 0 && entry.at >= cutoff && entry.changeId !== lastChangeId) break;
+
+    await cursor.delete();
+    lastChangeId = entry.changeId;
+    excess--;
+    removed++;
+    cursor = await cursor.continue();
+  }
+
+  await tx.done;
+  return removed;
+}
+
+/**
+ * Delete all history (undo/redo becomes unavailable)
+ */
+export async function clearJournal(): Promise<void> {
+  const db = await getDB();
+  await db.clear('journal');
+  publishChange('', 'edit', []);
+}
+
+// ============================================================================
+// EXPORT OPERATIONS
+// ============================================================================
+
+/**
+ * Stored data for one toolkit section
+ *
+ * `tables` is keyed by `${moduleKey}-${tableId}`, since a section can span
+ * several modules that reuse a table id.
+ */
+export interface SectionModuleData {
+  todos: Todo[];
+  tables: Record<string, TableRow[]>;
+  annotations: Annotation[];
+}
+
+/**
+ * Export all data for a section
+ *
+ * Resolves the section's real `moduleKey`s and table ids from the section
+ * registry (src/data/sections.ts) and reads only those records via the
+ * `by-module` and `by-table` indexes.
+ *
+ * @param sectionNumber - Section number from `SectionData.number` (e.g., "1.1")
+ */
+export async function getModuleData(sectionNumber: string): Promise<SectionModuleData> {
+  const section = getSectionStorage(sectionNumber);
+
+  if (!section) {
+    return { todos: [], tables: {}, annotations: [] };
+  }
+
+  const db = await getDB();
+  const tx = db.transaction(['todos', 'tables', 'annotations'], 'readonly');
+  const todoIndex = tx.objectStore('todos').index('by-module');
+  const tableIndex = tx.objectStore('tables').index('by-table');
+  const annotationIndex = tx.objectStore('annotations').index('by-module');
+
+  const [todoGroups, rowGroups, annotationGroups] = await Promise.all([
+    Promise.all(section.moduleKeys.map((moduleKey) => todoIndex.getAll(moduleKey))),
+    Promise.all(
+      section.tables.map(({ moduleKey, tableId }) => tableIndex.getAll([moduleKey, tableId]))
+    ),
+    Promise.all(section.moduleKeys.map((moduleKey) => annotationIndex.getAll(moduleKey))),
+  ]);
+  await tx.done;
+
+  const openedRows = await Promise.all(rowGroups.map((rows) => openRecords('tables', rows)));
+  const tables: Record<string, TableRow[]> = {};
+  section.tables.forEach(({ moduleKey, tableId }, index) => {
+    tables[`${moduleKey}-${tableId}`] = openedRows[index];
+  });
+
+  return {
+    todos: await openRecords('todos', todoGroups.flat()),
+    tables,
+    annotations: await openRecords('annotations', annotationGroups.flat()),
+  };
+}
+
+/**
+ * Shape produced by `exportAllData()` and accepted by `importAllData()`
+ */
+export interface ExportedData {
+  todos: Todo[];
+  tables: TableRow[];
+  annotations: Annotation[];
+  archive: ArchivedTodo[];
+  metadata: Record<string, any>;
+}
+
+/**
+ * Export all data
+ */
+export async function exportAllData(): Promise<ExportedData> {
+  const db = await getDB();
+
+  const todos = await openRecords('todos', await db.getAll('todos'));
+  const tables = await openRecords('tables', await db.getAll('tables'));
+  const annotations = await openRecords('annotations', await db.getAll('annotations'));
+  const archive = await openRecords('archive', await db.getAll('archive'));
+  const metadataArray = await db.getAll('metadata');
+
+  const metadata: Record<string, any> = {};
+  metadataArray.forEach((item) => {
+    // Private signing key (it can't be serialized) and the team's secret stay on the device
+    if (item.key === SYNC_IDENTITY_KEY || item.key === TEAM_SYNC_KEY) return;
+    metadata[item.key] = item.value;
   });
 
-  return dbInstance;
+  return { todos, tables, annotations, archive, metadata };
 }
 
 // ============================================================================
-// TODO OPERATIONS
+// IMPORT OPERATIONS
 // ============================================================================
 
-export interface Todo {
-  id: string;
-  moduleKey: string;
-  todoId: string;
-  completed: boolean;
-  completedAt?: string;
-  notes?: string;
-}
+/**
+ * How an import treats records already on the device
+ * - merge: add new records and merge matching ones field by field, keeping
+ *   whichever version of each field changed last (see `mergeImport`)
+ * - replace: remove all existing records first, leaving only the backup's
+ */
+export type ImportMode = 'merge' | 'replace';
 
 /**
- * Get a specific todo
+ * Per-store counts describing what an import will do (or did)
  */
-export async function getTodo(moduleKey: string, todoId: string): Promise<Todo | undefined> {
-  const db = await getDB();
-  const id = `${moduleKey}-${todoId}`;
-  return await db.get('todos', id);
+export interface ImportStoreSummary {
+  added: number;
+  overwritten: number;
+  unchanged: number;
+  removed: number;
+}
+
+export interface ImportSummary {
+  mode: ImportMode;
+  todos: ImportStoreSummary;
+  tables: ImportStoreSummary;
+  annotations: ImportStoreSummary;
+  archive: ImportStoreSummary;
+  metadata: ImportStoreSummary;
 }
 
+/** Metadata key naming the profile a database belongs to (read by public/sw.js) */
+const PROFILE_METADATA_KEY = 'profile';
+
+/** Metadata keys for device sync (see sync.ts); the identity holds this device's signing keys */
+export const SYNC_IDENTITY_KEY = 'syncIdentity';
+export const SYNC_PEERS_KEY = 'syncPeers';
+
+/** Metadata key for the profile's team sync server connection (see teamSync.ts) */
+export const TEAM_SYNC_KEY = 'teamSync';
+
 /**
- * Get all todos for a module
+ * Metadata values with fields encrypted while the passphrase lock is on (see
+ * `sealSecret`), re-encrypted along with records when the lock changes
  */
-export async function getModuleTodos(moduleKey: string): Promise<Todo[]> {
-  const db = await getDB();
-  return await db.getAllFromIndex('todos', 'by-module', moduleKey);
-}
+const SEALED_METADATA_FIELDS: Record<string, string[]> = {
+  [TEAM_SYNC_KEY]: ['secret'],
+};
 
 /**
- * Save or update a todo
+ * Metadata keys describing this device's database rather than user data;
+ * never taken from a backup file and never removed by a replace import
  */
-export async function saveTodo(todo: Omit<Todo, 'id'>): Promise<void> {
-  const db = await getDB();
-  const id = `${todo.moduleKey}-${todo.todoId}`;
-  await db.put('todos', { ...todo, id });
+const DEVICE_METADATA_KEYS = [
+  MIGRATION_LOG_KEY,
+  PROFILE_METADATA_KEY,
+  ENCRYPTION_METADATA_KEY,
+  SYNC_IDENTITY_KEY,
+  SYNC_PEERS_KEY,
+  TEAM_SYNC_KEY,
+];
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFieldTimes(value: unknown): value is FieldTimes {
+  return isPlainObject(value) && Object.values(value).every((time) => typeof time === 'string');
 }
 
 /**
- * Toggle todo completion
+ * Validate an untrusted payload (e.g. a parsed backup file) against the
+ * `exportAllData()` shape.
+ *
+ * Record ids are recomputed from their composite parts so a hand-edited file
+ * cannot store a record under a key the app would never look up.
+ *
+ * @returns The normalized data, or a list of human-readable problems
  */
-export async function toggleTodo(moduleKey: string, todoId: string): Promise<boolean> {
-  const todo = await getTodo(moduleKey, todoId);
-  const completed = !todo?.completed;
-
-  await saveTodo({
-    moduleKey,
-    todoId,
-    completed,
-    completedAt: completed ? new Date().toISOString() : undefined,
-    notes: todo?.notes,
+export function validateExportedData(
+  payload: unknown
+): { data: ExportedData; errors: [] } | { data: null; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!isPlainObject(payload)) {
+    return { data: null, errors: ['Backup file does not contain a JSON object'] };
+  }
+
+  // Older backups predate block notes in IndexedDB and the checklist archive
+  const { todos, tables, annotations = [], archive = [], metadata } = payload;
+
+  if (!Array.isArray(todos)) errors.push('Missing "todos" list');
+  if (!Array.isArray(tables)) errors.push('Missing "tables" list');
+  if (!Array.isArray(annotations)) errors.push('"annotations" must be a list');
+  if (!Array.isArray(archive)) errors.push('"archive" must be a list');
+  if (!isPlainObject(metadata)) errors.push('Missing "metadata" object');
+
+  if (errors.length > 0) {
+    return { data: null, errors };
+  }
+
+  const isValidTodo = (todo: unknown): todo is Todo =>
+    isPlainObject(todo) &&
+    typeof todo.moduleKey === 'string' &&
+    typeof todo.todoId === 'string' &&
+    typeof todo.completed === 'boolean' &&
+    (todo.completedAt === undefined || typeof todo.completedAt === 'string') &&
+    (todo.notes === undefined || typeof todo.notes === 'string') &&
+    (todo.updatedAt === undefined || typeof todo.updatedAt === 'string') &&
+    (todo.dueAt === undefined || isDateKey(todo.dueAt)) &&
+    (todo.recurrence === undefined || isRecurrence(todo.recurrence)) &&
+    (todo.fieldUpdatedAt === undefined || isFieldTimes(todo.fieldUpdatedAt));
+
+  const validTodos: Todo[] = [];
+  (todos as unknown[]).forEach((todo, index) => {
+    if (!isValidTodo(todo)) {
+      errors.push(`Checklist item #${index + 1} is malformed`);
+      return;
+    }
+    validTodos.push({ ...todo, id: `${todo.moduleKey}-${todo.todoId}` });
+  });
+
+  const validArchive: ArchivedTodo[] = [];
+  (archive as unknown[]).forEach((item, index) => {
+    if (!isValidTodo(item) || typeof (item as Partial<ArchivedTodo>).archivedAt !== 'string') {
+      errors.push(`Archived item #${index + 1} is malformed`);
+      return;
+    }
+    validArchive.push({ ...(item as ArchivedTodo), id: `${item.moduleKey}-${item.todoId}` });
   });
 
-  return completed;
+  const validRows: TableRow[] = [];
+  (tables as unknown[]).forEach((row, index) => {
+    if (
+      !isPlainObject(row) ||
+      typeof row.moduleKey !== 'string' ||
+      typeof row.tableId !== 'string' ||
+      typeof row.rowId !== 'string' ||
+      !isPlainObject(row.data) ||
+      typeof row.updatedAt !== 'string' ||
+      (row.fieldUpdatedAt !== undefined && !isFieldTimes(row.fieldUpdatedAt))
+    ) {
+      errors.push(`Table row #${index + 1} is malformed`);
+      return;
+    }
+    validRows.push({ ...(row as TableRow), id: `${row.moduleKey}-${row.tableId}-${row.rowId}` });
+  });
+
+  const validAnnotations: Annotation[] = [];
+  (annotations as unknown[]).forEach((annotation, index) => {
+    if (
+      !isPlainObject(annotation) ||
+      typeof annotation.moduleKey !== 'string' ||
+      typeof annotation.blockId !== 'string' ||
+      annotation.blockType !== 'table' ||
+      typeof annotation.text !== 'string' ||
+      typeof annotation.updatedAt !== 'string'
+    ) {
+      errors.push(`Note #${index + 1} is malformed`);
+      return;
+    }
+    validAnnotations.push({
+      ...(annotation as Annotation),
+      id: `${annotation.moduleKey}-${annotation.blockId}`,
+    });
+  });
+
+  if (errors.length > 0) {
+    return { data: null, errors };
+  }
+
+  return {
+    data: {
+      todos: validTodos,
+      tables: validRows,
+      annotations: validAnnotations,
+      archive: validArchive,
+      metadata,
+    },
+    errors: [],
+  };
 }
 
-/**
- * Update todo note
- */
-export async function updateTodoNote(
-  moduleKey: string,
-  todoId: string,
-  note: string
-): Promise<void> {
-  const todo = await getTodo(moduleKey, todoId);
-
-  await saveTodo({
-    moduleKey,
-    todoId,
-    completed: todo?.completed ?? false,
-    completedAt: todo?.completedAt,
-    notes: note || undefined, // Don't save empty strings
+function summarizeStore<T>(
+  existing: Map<string, T>,
+  incoming: Map<string, T>,
+  mode: ImportMode
+): ImportStoreSummary {
+  const summary: ImportStoreSummary = { added: 0, overwritten: 0, unchanged: 0, removed: 0 };
+
+  incoming.forEach((record, key) => {
+    if (!existing.has(key)) {
+      summary.added++;
+    } else if (isSameValue(existing.get(key), record)) {
+      summary.unchanged++;
+    } else {
+      summary.overwritten++;
+    }
   });
+
+  if (mode === 'replace') {
+    existing.forEach((_, key) => {
+      if (!incoming.has(key)) summary.removed++;
+    });
+  }
+
+  return summary;
 }
 
 /**
- * Delete a todo
+ * Merge a backup's records with the matching ones on this device
+ *
+ * There is no telling which version a backup and this device started from,
+ * so every field that differs keeps the version changed last (see merge.ts).
+ * Done on decrypted records, before `sealImport`.
  */
-export async function deleteTodo(moduleKey: string, todoId: string): Promise<void> {
+async function mergeImport(data: ExportedData): Promise<ExportedData> {
   const db = await getDB();
-  const id = `${moduleKey}-${todoId}`;
-  await db.delete('todos', id);
-}
+  const tx = db.transaction(['todos', 'tables', 'annotations', 'archive'], 'readonly');
+  const [todos, tables, annotations, archive] = await Promise.all([
+    tx.objectStore('todos').getAll(),
+    tx.objectStore('tables').getAll(),
+    tx.objectStore('annotations').getAll(),
+    tx.objectStore('archive').getAll(),
+  ]);
+  await tx.done;
 
-// ============================================================================
-// TABLE OPERATIONS
-// ============================================================================
+  const mergeAll = async <T extends JournaledRecord>(
+    store: JournaledStore,
+    records: T[],
+    existing: T[]
+  ): Promise<T[]> => {
+    const local = new Map((await openRecords(store, existing)).map((record) => [record.id, record]));
+    return records.map((record) => {
+      const current = local.get(record.id);
+      return current ? mergeRecord(diffRecord(store, null, current, record)) : record;
+    });
+  };
 
-export interface TableRow {
-  id: string;
-  moduleKey: string;
-  tableId: string;
-  rowId: string;
-  data: Record<string, any>;
-  updatedAt: string;
+  return {
+    ...data,
+    todos: await mergeAll('todos', data.todos, todos),
+    tables: await mergeAll('tables', data.tables, tables),
+    annotations: await mergeAll('annotations', data.annotations, annotations),
+    archive: await mergeAll('archive', data.archive, archive),
+  };
 }
 
 /**
- * Get a specific table row
+ * Encrypt a backup's records when the passphrase lock is on
+ *
+ * Done before `applyImport`'s transaction (see `sealWrites`). Fields that
+ * match what is stored keep the stored ciphertext, so the preview still
+ * counts those records as unchanged.
  */
-export async function getTableRow(
-  moduleKey: string,
-  tableId: string,
-  rowId: string
-): Promise<TableRow | undefined> {
+async function sealImport(data: ExportedData): Promise<ExportedData> {
+  const key = await getRecordKey();
+  if (!key) return data;
+
   const db = await getDB();
-  const id = `${moduleKey}-${tableId}-${rowId}`;
-  return await db.get('tables', id);
+  const tx = db.transaction(['todos', 'tables', 'annotations', 'archive'], 'readonly');
+  const [todos, tables, annotations, archive] = await Promise.all([
+    tx.objectStore('todos').getAll(),
+    tx.objectStore('tables').getAll(),
+    tx.objectStore('annotations').getAll(),
+    tx.objectStore('archive').getAll(),
+  ]);
+  await tx.done;
+
+  const sealAll = async <T extends JournaledRecord>(
+    store: JournaledStore,
+    records: T[],
+    existing: JournaledRecord[]
+  ): Promise<T[]> => {
+    const stored = new Map(existing.map((record) => [record.id, record]));
+    return Promise.all(
+      records.map(async (record) => {
+        const current = stored.get(record.id) ?? null;
+        return sealRecord(store, record, key, current, await openRecordWith(store, current, key));
+      })
+    );
+  };
+
+  return {
+    ...data,
+    todos: await sealAll('todos', data.todos, todos),
+    tables: await sealAll('tables', data.tables, tables),
+    annotations: await sealAll('annotations', data.annotations, annotations),
+    archive: await sealAll('archive', data.archive, archive),
+  };
 }
 
 /**
- * Get all rows for a table
+ * Run (or dry-run) an import inside one readwrite transaction
+ *
+ * Everything - reading the current records, clearing for replace mode and
+ * writing the backup - happens in the same transaction, so a failure part way
+ * through rolls the database back to exactly what it was before. A real
+ * import is journaled as one change, so "Undo" reverts the whole restore.
+ * Records in `data` are written as they are; a merge import merges them with
+ * this device's first (see `mergeImport`).
  */
-export async function getTableRows(moduleKey: string, tableId: string): Promise<TableRow[]> {
+async function applyImport(
+  data: ExportedData,
+  mode: ImportMode,
+  dryRun: boolean,
+  label = 'Restore backup'
+): Promise<ImportSummary> {
   const db = await getDB();
-  return await db.getAllFromIndex('tables', 'by-table', [moduleKey, tableId]);
+  // Dry runs open readwrite too so both paths share one typed transaction
+  const tx = db.transaction(
+    ['todos', 'tables', 'annotations', 'archive', 'metadata', 'journal'],
+    'readwrite'
+  );
+  const todoStore = tx.objectStore('todos');
+  const tableStore = tx.objectStore('tables');
+  const annotationStore = tx.objectStore('annotations');
+  const archiveStore = tx.objectStore('archive');
+  const metadataStore = tx.objectStore('metadata');
+  const journalStore = tx.objectStore('journal');
+
+  const [existingTodos, existingRows, existingAnnotations, existingArchive, existingMetadata] =
+    await Promise.all([
+      todoStore.getAll(),
+      tableStore.getAll(),
+      annotationStore.getAll(),
+      archiveStore.getAll(),
+      metadataStore.getAll(),
+    ]);
+
+  const userMetadata = existingMetadata.filter((item) => !DEVICE_METADATA_KEYS.includes(item.key));
+  const incomingMetadata = Object.entries(data.metadata).filter(
+    ([key]) => !DEVICE_METADATA_KEYS.includes(key)
+  );
+
+  const stores = {
+    todos: {
+      existing: new Map<string, JournaledRecord>(existingTodos.map((todo) => [todo.id, todo])),
+      incoming: new Map<string, JournaledRecord>(data.todos.map((todo) => [todo.id, todo])),
+    },
+    tables: {
+      existing: new Map<string, JournaledRecord>(existingRows.map((row) => [row.id, row])),
+      incoming: new Map<string, JournaledRecord>(data.tables.map((row) => [row.id, row])),
+    },
+    annotations: {
+      existing: new Map<string, JournaledRecord>(
+        existingAnnotations.map((annotation) => [annotation.id, annotation])
+      ),
+      incoming: new Map<string, JournaledRecord>(
+        data.annotations.map((annotation) => [annotation.id, annotation])
+      ),
+    },
+    archive: {
+      existing: new Map<string, JournaledRecord>(existingArchive.map((item) => [item.id, item])),
+      incoming: new Map<string, JournaledRecord>(data.archive.map((item) => [item.id, item])),
+    },
+  };
+
+  const summary: ImportSummary = {
+    mode,
+    todos: summarizeStore(stores.todos.existing, stores.todos.incoming, mode),
+    tables: summarizeStore(stores.tables.existing, stores.tables.incoming, mode),
+    annotations: summarizeStore(stores.annotations.existing, stores.annotations.incoming, mode),
+    archive: summarizeStore(stores.archive.existing, stores.archive.incoming, mode),
+    metadata: summarizeStore(
+      new Map(userMetadata.map((item) => [item.key, item.value])),
+      new Map(incomingMetadata),
+      mode
+    ),
+  };
+
+  if (dryRun) {
+    await tx.done;
+    return summary;
+  }
+
+  // A failing put rejects below; keep the matching transaction abort from
+  // surfacing as a second, unhandled rejection
+  tx.done.catch(() => {});
+
+  try {
+    if (mode === 'replace') {
+      await Promise.all([
+        todoStore.clear(),
+        tableStore.clear(),
+        annotationStore.clear(),
+        archiveStore.clear(),
+        ...userMetadata.map((item) => metadataStore.delete(item.key)),
+      ]);
+    }
+
+    // The whole restore is one undoable change
+    const updatedAt = new Date().toISOString();
+    const changeId = crypto.randomUUID();
+    const deviceId = getDeviceId();
+    const journalEntries: JournalEntry[] = [];
+
+    (Object.keys(stores) as JournaledStore[]).forEach((store) => {
+      const { existing, incoming } = stores[store];
+      const record = (recordId: string, before: JournaledRecord | null, after: JournaledRecord | null) => {
+        if (isSameContent(before, after)) return;
+        journalEntries.push({
+          changeId,
+          kind: 'edit',
+          label,
+          store,
+          recordId,
+          before,
+          after,
+          at: updatedAt,
+          deviceId,
+        });
+      };
+
+      incoming.forEach((after, recordId) => record(recordId, existing.get(recordId) ?? null, after));
+      if (mode === 'replace') {
+        existing.forEach((before, recordId) => {
+          if (!incoming.has(recordId)) record(recordId, before, null);
+        });
+      }
+    });
+
+    // async callbacks turn synchronous put() errors (e.g. DataCloneError)
+    // into rejections so every issued request stays inside Promise.all
+    await Promise.all([
+      ...data.todos.map(async (todo) => todoStore.put(todo)),
+      ...data.tables.map(async (row) => tableStore.put(row)),
+      ...data.annotations.map(async (annotation) => annotationStore.put(annotation)),
+      ...data.archive.map(async (item) => archiveStore.put(item)),
+      ...incomingMetadata.map(async ([key, value]) => metadataStore.put({ key, value, updatedAt })),
+      ...journalEntries.map(async (entry) => journalStore.add(entry)),
+    ]);
+    await tx.done;
+
+    if (journalEntries.length > 0) {
+      publishChange(changeId, 'edit', journalEntries);
+    }
+  } catch (error) {
+    // Abort explicitly in case the failure came from outside a request
+    try {
+      tx.abort();
+    } catch {
+      // Transaction already aborted by the failing request
+    }
+    throw error;
+  }
+
+  return summary;
 }
 
 /**
- * Save or update a table row
+ * Describe what importing a backup would change, without writing anything
  */
-export async function saveTableRow(row: Omit<TableRow, 'id' | 'updatedAt'>): Promise<void> {
-  const db = await getDB();
-  const id = `${row.moduleKey}-${row.tableId}-${row.rowId}`;
-  await db.put('tables', {
-    ...row,
-    id,
-    updatedAt: new Date().toISOString(),
-  });
+export async function previewImport(
+  data: ExportedData,
+  mode: ImportMode
+): Promise<ImportSummary> {
+  const records = mode === 'merge' ? await mergeImport(data) : data;
+  return applyImport(await sealImport(records), mode, true);
 }
 
 /**
- * Delete a table row
+ * Restore a backup produced by `exportAllData()`
+ *
+ * The payload is validated first; an invalid file throws before the database
+ * is touched. The write is all-or-nothing (see `applyImport`).
  */
-export async function deleteTableRow(
-  moduleKey: string,
-  tableId: string,
-  rowId: string
-): Promise<void> {
-  const db = await getDB();
-  const id = `${moduleKey}-${tableId}-${rowId}`;
-  await db.delete('tables', id);
-}
+export async function importAllData(
+  payload: unknown,
+  mode: ImportMode = 'merge'
+): Promise<ImportSummary> {
+  const { data, errors } = validateExportedData(payload);
 
-// ============================================================================
-// METADATA OPERATIONS
-// ============================================================================
+  if (!data) {
+    throw new Error(`Invalid backup file: ${errors.join('; ')}`);
+  }
+
+  const records = mode === 'merge' ? await mergeImport(data) : data;
+  return applyImport(await sealImport(records), mode, false);
+}
 
 /**
- * Get metadata value
+ * Settings that travel with the data (everything but `DEVICE_METADATA_KEYS`),
+ * with when each was last changed
  */
-export async function getMetadata(key: string): Promise<any> {
+export async function getUserMetadata(): Promise<ResilienceDB['metadata']['value'][]> {
   const db = await getDB();
-  const result = await db.get('metadata', key);
-  return result?.value;
+  const metadata = await db.getAll('metadata');
+  return metadata.filter((item) => !DEVICE_METADATA_KEYS.includes(item.key));
 }
 
 /**
- * Set metadata value
+ * Write the records a device sync chose to take (see sync.ts)
+ *
+ * The records are already merged, so they are written as they are - all or
+ * nothing, as one undoable change labelled `label`.
  */
-export async function setMetadata(key: string, value: any): Promise<void> {
-  const db = await getDB();
-  await db.put('metadata', {
-    key,
-    value,
-    updatedAt: new Date().toISOString(),
-  });
+export async function applySyncedData(data: ExportedData, label: string): Promise<ImportSummary> {
+  return applyImport(await sealImport(data), 'merge', false, label);
 }
 
-
-// ============================================================================
-// EXPORT OPERATIONS
-// ============================================================================
-
 /**
- * Export all data for a module
+ * A change pulled from a team sync server: the record to store (null to
+ * delete), worked out from the stored one
  */
-export async function getModuleData(modulePath: string): Promise<{
-  todos: Todo[];
-  tables: Record<string, TableRow[]>;
-}> {
-  // Extract module key from path
-  const moduleKey = modulePath.split('/').pop()?.replace('.mdx', '') || '';
-
-  const todos = await getModuleTodos(moduleKey);
-
-  // Get all unique table IDs for this module
-  const db = await getDB();
-  const allTableRows = await db.getAllFromIndex('tables', 'by-table');
-  const moduleTableRows = allTableRows.filter((row) =>
-    row.id.startsWith(`${moduleKey}-`)
-  );
-
-  // Group by table ID
-  const tables: Record<string, TableRow[]> = {};
-  moduleTableRows.forEach((row) => {
-    if (!tables[row.tableId]) {
-      tables[row.tableId] = [];
-    }
-    tables[row.tableId].push(row);
-  });
-
-  return { todos, tables };
+export interface RemoteWrite {
+  store: JournaledStore;
+  id: string;
+  value: (current: JournaledRecord | null) => JournaledRecord | null;
 }
 
 /**
- * Export all data
+ * Write changes pulled from a team sync server (see teamSync.ts)
+ *
+ * Each value is worked out from the record as stored when the write runs, so
+ * edits made meanwhile are merged rather than overwritten. Journaled as one
+ * automatic change: shown in history, but not undoable and not pushed back.
  */
-export async function exportAllData(): Promise<{
-  todos: Todo[];
-  tables: TableRow[];
-  metadata: Record<string, any>;
-}> {
-  const db = await getDB();
-
-  const todos = await db.getAll('todos');
-  const tables = await db.getAll('tables');
-  const metadataArray = await db.getAll('metadata');
-
-  const metadata: Record<string, any> = {};
-  metadataArray.forEach((item) => {
-    metadata[item.key] = item.value;
-  });
-
-  return { todos, tables, metadata };
+export async function applyRemoteChanges(writes: RemoteWrite[], label: string): Promise<void> {
+  await writeChange(writes, { label, kind: 'system' });
 }
 
 // ============================================================================
@@ -359,81 +2543,259 @@ export async function getChecklistItems(
 
 /**
  * Get checklist completion statistics for a module or section
+ *
+ * Storage only holds items someone has touched, so without `todoIds` the
+ * total is the number of saved items. Pass the page's todo ids (from the
+ * build-time manifest in todoManifest.ts) to count against every item.
  */
 export async function getChecklistStats(
   moduleKey: string,
-  sectionId?: string
+  sectionId?: string,
+  todoIds?: string[]
 ): Promise<{
   total: number;
   completed: number;
   percentage: number;
 }> {
   const items = await getChecklistItems(moduleKey, sectionId);
-  const completed = items.filter((item) => item.completed).length;
-  const total = items.length;
+  const expected = todoIds && new Set(todoIds);
+  const completed = items.filter(
+    (item) => item.completed && (!expected || expected.has(item.todoId))
+  ).length;
+  const total = expected ? expected.size : items.length;
   const percentage = total > 0 ? Math.round((completed / total) * 100) : 0;
 
   return { total, completed, percentage };
 }
 
 /**
- * Batch update multiple checklist items
+ * Check or uncheck several checklist items at once
+ *
+ * Runs as one transaction (and one undo step): either every item is updated
+ * or none are. Notes and other fields are kept, and items already in the
+ * requested state keep their original `completedAt`.
+ *
+ * @returns How many items changed state
  */
 export async function batchUpdateChecklistItems(
   updates: Array<{
     moduleKey: string;
     todoId: string;
     completed: boolean;
-  }>
-): Promise<void> {
-  for (const update of updates) {
-    await saveTodo({
-      moduleKey: update.moduleKey,
-      todoId: update.todoId,
-      completed: update.completed,
-      completedAt: update.completed ? new Date().toISOString() : undefined,
-    });
-  }
+  }>,
+  options: ChangeOptions = { label: 'Update checklist items' }
+): Promise<number> {
+  const now = new Date().toISOString();
+  let changed = 0;
+
+  await writeChange(
+    updates.map(({ moduleKey, todoId, completed }) => {
+      const id = `${moduleKey}-${todoId}`;
+      return {
+        store: 'todos',
+        id,
+        value: (current) => {
+          const todo = current as Todo | null;
+          if ((todo?.completed ?? false) === completed) return todo;
+
+          changed++;
+          return stampFieldTimes(
+            'todos',
+            todo,
+            {
+              ...todo,
+              id,
+              moduleKey,
+              todoId,
+              completed,
+              completedAt: completed ? now : undefined,
+              dueAt:
+                completed && todo?.recurrence ? addRecurrence(new Date(now), todo.recurrence) : todo?.dueAt,
+              updatedAt: now,
+            },
+            now
+          );
+        },
+      };
+    }),
+    options
+  );
+
+  return changed;
+}
+
+/**
+ * A checklist item cleared by "Clear completed", kept with its notes and
+ * `completedAt` so it can be restored
+ */
+export interface ArchivedTodo extends Todo {
+  archivedAt: string; // ISO timestamp when it was cleared
+}
+
+export interface CompletedItemsSummary {
+  items: number;
+  /** How many of those items have notes */
+  notes: number;
+}
+
+async function getCompletedItems(moduleKeys: string | string[], sectionId?: string): Promise<Todo[]> {
+  const groups = await Promise.all(
+    [moduleKeys].flat().map((moduleKey) => getChecklistItems(moduleKey, sectionId))
+  );
+  return groups.flat().filter((item) => item.completed);
+}
+
+/**
+ * Count what "Clear completed" would archive, for its confirmation dialog
+ */
+export async function getCompletedItemsSummary(
+  moduleKeys: string | string[],
+  sectionId?: string
+): Promise<CompletedItemsSummary> {
+  const items = await getCompletedItems(moduleKeys, sectionId);
+  return {
+    items: items.length,
+    notes: items.filter((item) => item.notes?.trim()).length,
+  };
 }
 
 /**
- * Clear all completed items for a module or section
+ * Move all completed items for one or more modules (or a section) to the archive
+ *
+ * Items keep their notes and `completedAt`; `restoreArchivedItems` brings
+ * them back. An item archived before (and not restored) keeps its earlier
+ * notes below the new ones, and items unchecked while this runs stay put.
+ * The move is one undoable change.
+ *
+ * @returns How many items were archived
  */
 export async function clearCompletedItems(
-  moduleKey: string,
+  moduleKeys: string | string[],
   sectionId?: string
 ): Promise<number> {
-  const items = await getChecklistItems(moduleKey, sectionId);
-  const completedItems = items.filter((item) => item.completed);
+  const completedItems = await getCompletedItems(moduleKeys, sectionId);
+  const archivedAt = new Date().toISOString();
+  // Items still completed when the write runs, by id
+  const cleared = new Map<string, Todo>();
+
+  if (completedItems.length > 0) {
+    await writeChange(
+      completedItems.flatMap((item): RecordWrite[] => [
+        {
+          store: 'todos',
+          id: item.id,
+          value: (current) => {
+            cleared.delete(item.id);
+            // Unchecked (or already cleared) since the list was read
+            if (!(current as Todo | null)?.completed) return current;
+            cleared.set(item.id, current as Todo);
+            return null;
+          },
+        },
+        {
+          store: 'archive',
+          id: item.id,
+          value: (archived) => {
+            const todo = cleared.get(item.id);
+            if (!todo) return archived;
+            // Cleared before and not restored: keep the earlier notes below the new ones
+            const notes = joinNotes(todo.notes, (archived as ArchivedTodo | null)?.notes);
+            return stampFieldTimes('archive', todo, { ...todo, notes, archivedAt }, archivedAt);
+          },
+        },
+      ]),
+      { label: 'Clear completed items' }
+    );
+  }
+
+  return cleared.size;
+}
+
+/**
+ * Notes from two copies of an item, newer first (once if they match)
+ */
+function joinNotes(newer: string | undefined, older: string | undefined): string | undefined {
+  const newerText = newer?.trim();
+  return newerText && older && newerText !== older.trim() ? `${newerText}\n\n${older}` : newerText || older;
+}
+
+/**
+ * Archived items for one or more modules, most recently archived first
+ */
+export async function getArchivedItems(moduleKeys: string | string[]): Promise<ArchivedTodo[]> {
+  const db = await getDB();
+  const groups = await Promise.all(
+    [moduleKeys].flat().map((moduleKey) => db.getAllFromIndex('archive', 'by-module', moduleKey))
+  );
+  const items = await openRecords('archive', groups.flat());
+  return items.sort((a, b) => b.archivedAt.localeCompare(a.archivedAt));
+}
+
+/**
+ * Move archived items back to the checklist, completed and with their notes
+ *
+ * If an item was started again since it was archived, its current notes are
+ * kept and the archived notes are added below them.
+ *
+ * @param ids - Archive keys (`${moduleKey}-${todoId}`)
+ * @returns How many items were restored
+ */
+export async function restoreArchivedItems(ids: string[]): Promise<number> {
+  const db = await getDB();
+  const archived = await openRecords(
+    'archive',
+    (await Promise.all(ids.map((id) => db.get('archive', id)))).filter(
+      (item): item is ArchivedTodo => item !== undefined
+    )
+  );
 
-  for (const item of completedItems) {
-    await deleteTodo(item.moduleKey, item.todoId);
+  if (archived.length > 0) {
+    await writeChange(
+      archived.flatMap(({ archivedAt: _archivedAt, ...item }): RecordWrite[] => [
+        { store: 'archive', id: item.id, value: null },
+        {
+          store: 'todos',
+          id: item.id,
+          value: (current) => {
+            const todo = current as Todo | null;
+            const notes = joinNotes(todo?.notes, item.notes);
+            const updatedAt = new Date().toISOString();
+            return stampFieldTimes(
+              'todos',
+              todo,
+              { ...(todo ?? item), completed: true, completedAt: item.completedAt, notes, updatedAt },
+              updatedAt
+            );
+          },
+        },
+      ]),
+      { label: archived.length === 1 ? 'Restore archived item' : 'Restore archived items' }
+    );
   }
 
-  return completedItems.length;
+  return archived.length;
 }
 
 /**
  * Initialize storage for local-only mode
  *
- * Generates and persists a unique device ID in localStorage for tracking purposes.
+ * Generates and persists a unique device ID in localStorage for tracking purposes,
+ * and records the active profile's name in its database so the service worker
+ * can say whose items a reminder is about.
  *
- * @returns {Promise<{userId: string}>} Device ID
+ * @returns {Promise<{userId: string, profile: Profile}>} Device ID and active profile
  */
 export async function initializeStorage(): Promise<{
   userId: string;
+  profile: Profile;
 }> {
   if (typeof window !== 'undefined') {
-    let deviceId = localStorage.getItem('deviceId');
-
-    if (!deviceId) {
-      // Generate new device ID
-      deviceId = `device-${crypto.randomUUID()}`;
-      localStorage.setItem('deviceId', deviceId);
-      console.log('[Storage] Generated new device ID:', deviceId);
+    const profile = getActiveProfile();
+    const saved = await getMetadata(PROFILE_METADATA_KEY);
+    if (saved?.name !== profile.name || saved?.type !== profile.type) {
+      await setMetadata(PROFILE_METADATA_KEY, { name: profile.name, type: profile.type });
     }
-
-    return { userId: deviceId };
+    return { userId: getDeviceId(), profile };
   }
 
   throw new Error('Cannot initialize storage on server-side');
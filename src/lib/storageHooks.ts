@@ -0,0 +1,118 @@
+/**
+ * React Hooks for Live Storage Data
+ *
+ * Read a checklist item or a table's rows from IndexedDB and keep them current
+ * as they change - from this component, another component on the page,
+ * undo/redo, or another tab - using `subscribe` from storage.ts.
+ */
+import { useEffect, useState, type Dispatch, type SetStateAction } from 'react';
+import {
+  compareTableRows,
+  getTableRows,
+  getTodo,
+  subscribe,
+  type TableRow,
+  type Todo,
+} from './storage';
+
+/** Stop showing a loading state if IndexedDB hasn't answered by then */
+const LOAD_TIMEOUT_MS = 5000;
+
+/**
+ * A checklist item, kept in sync with storage
+ *
+ * `todo` is null while loading and for items that were never checked.
+ */
+export function useTodo(
+  moduleKey: string,
+  todoId: string
+): { todo: Todo | null; loading: boolean } {
+  const [todo, setTodo] = useState<Todo | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let mounted = true;
+    let changedWhileLoading = false;
+    setLoading(true);
+
+    // Subscribe before reading so a write that lands mid-read isn't lost
+    const unsubscribe = subscribe('todos', { moduleKey, todoId }, (change) => {
+      changedWhileLoading = true;
+      if (mounted) setTodo(change.after);
+    });
+
+    const timeoutId = setTimeout(() => {
+      if (mounted) {
+        console.warn('Todo loading timeout - falling back to unchecked state');
+        setLoading(false);
+      }
+    }, LOAD_TIMEOUT_MS);
+
+    getTodo(moduleKey, todoId)
+      .then((saved) => {
+        if (mounted && !changedWhileLoading) setTodo(saved ?? null);
+      })
+      .catch((error) => console.error('Failed to load todo state:', error))
+      .finally(() => {
+        clearTimeout(timeoutId);
+        if (mounted) setLoading(false);
+      });
+
+    return () => {
+      mounted = false;
+      clearTimeout(timeoutId);
+      unsubscribe();
+    };
+  }, [moduleKey, todoId]);
+
+  return { todo, loading };
+}
+
+/**
+ * A table's rows in display order, kept in sync with storage
+ *
+ * `setRows` lets the table show its own edits immediately; they are
+ * reconciled when the write's change arrives.
+ */
+export function useTableRows(
+  moduleKey: string,
+  tableId: string
+): { rows: TableRow[]; setRows: Dispatch<SetStateAction<TableRow[]>>; loading: boolean } {
+  const [rows, setRows] = useState<TableRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let mounted = true;
+    setRows([]);
+    setLoading(true);
+
+    const unsubscribe = subscribe('tables', { moduleKey, tableId }, (change) => {
+      if (!mounted) return;
+      setRows((prev) => {
+        const others = prev.filter((row) => row.id !== change.recordId);
+        return change.after ? [...others, change.after].sort(compareTableRows) : others;
+      });
+    });
+
+    getTableRows(moduleKey, tableId)
+      .then((saved) => {
+        if (!mounted) return;
+        // Rows changed during the read already hold newer values
+        setRows((prev) => {
+          const seen = new Set(prev.map((row) => row.id));
+          return [...prev, ...saved.filter((row) => !seen.has(row.id))].sort(compareTableRows);
+        });
+      })
+      .catch((error) => console.error('Failed to load table data:', error))
+      .finally(() => {
+        if (mounted) setLoading(false);
+      });
+
+    return () => {
+      mounted = false;
+      unsubscribe();
+    };
+  }, [moduleKey, tableId]);
+
+  return { rows, setRows, loading };
+}
@@ -0,0 +1,160 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { openDB } from 'idb';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { sectionRegistry } from '@/data/sections';
+import { memoryStorage } from '@/test/memoryStorage';
+import { DB_VERSION, MIGRATION_LOG_KEY, migrations, type MigrationLogEntry } from './storageMigrations';
+
+/** The default profile's database (see profiles.ts) */
+const DATABASE_NAME = 'resilience-toolkit';
+
+const V1_TODO = {
+  id: '1-1-kits-water',
+  moduleKey: '1-1-kits',
+  todoId: 'water',
+  completed: true,
+  completedAt: '2025-01-02T10:00:00.000Z',
+  notes: 'Two gallons per person',
+  updatedAt: '2025-01-02T10:00:00.000Z',
+};
+
+const V1_ROW = {
+  id: '1-1-kits-contacts-row-1',
+  moduleKey: '1-1-kits',
+  tableId: 'contacts',
+  rowId: 'row-1',
+  data: { name: 'Ann', phone: '555-0100' },
+  order: 0,
+  updatedAt: '2025-01-03T10:00:00.000Z',
+};
+
+const V1_SETTING = { key: 'theme', value: 'dark', updatedAt: '2025-01-04T10:00:00.000Z' };
+
+/**
+ * Create the database as schema v1 left it, with one record in each store
+ */
+async function seedV1Database(): Promise<void> {
+  const db = await openDB(DATABASE_NAME, 1, {
+    upgrade(database) {
+      const todos = database.createObjectStore('todos', { keyPath: 'id' });
+      todos.createIndex('by-module', 'moduleKey');
+      const tables = database.createObjectStore('tables', { keyPath: 'id' });
+      tables.createIndex('by-table', ['moduleKey', 'tableId']);
+      database.createObjectStore('metadata', { keyPath: 'key' });
+    },
+  });
+  await db.put('todos', V1_TODO);
+  await db.put('tables', V1_ROW);
+  await db.put('metadata', V1_SETTING);
+  db.close();
+}
+
+async function readMigrationLog(): Promise<MigrationLogEntry[]> {
+  const db = await openDB(DATABASE_NAME);
+  const log: MigrationLogEntry[] = (await db.get('metadata', MIGRATION_LOG_KEY))?.value ?? [];
+  db.close();
+  return log;
+}
+
+describe('storage migrations', () => {
+  beforeEach(() => {
+    // A fresh IndexedDB and storage module (with no open connection) per test
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('numbers migrations 1 to DB_VERSION', () => {
+    expect(migrations.map((migration) => migration.version)).toEqual(
+      Array.from({ length: DB_VERSION }, (_, index) => index + 1)
+    );
+  });
+
+  it('creates every store on a new device and logs each step', async () => {
+    const storage = await import('./storage');
+    expect(await storage.getTodo('1-1-kits', 'water')).toBeUndefined();
+
+    const db = await openDB(DATABASE_NAME);
+    expect(db.version).toBe(DB_VERSION);
+    expect([...db.objectStoreNames].sort()).toEqual([
+      'annotations',
+      'archive',
+      'journal',
+      'metadata',
+      'tables',
+      'todos',
+    ]);
+    db.close();
+
+    expect((await readMigrationLog()).map(({ version, fromVersion }) => ({ version, fromVersion }))).toEqual(
+      migrations.map(({ version }) => ({ version, fromVersion: 0 }))
+    );
+  });
+
+  it('upgrades a v1 database without losing records', async () => {
+    await seedV1Database();
+    const storage = await import('./storage');
+
+    // Any read opens the database, running every migration after v1
+    expect(await storage.getTodo('1-1-kits', 'water')).toEqual(V1_TODO);
+    expect(await storage.getTableRows('1-1-kits', 'contacts')).toEqual([V1_ROW]);
+    expect(await storage.getMetadata('theme')).toBe('dark');
+
+    const db = await openDB(DATABASE_NAME);
+    expect(db.version).toBe(DB_VERSION);
+    expect([...db.transaction('todos').store.indexNames]).toEqual(['by-module']);
+    expect([...db.transaction('tables').store.indexNames]).toEqual(['by-table']);
+    expect([...db.transaction('annotations').store.indexNames]).toEqual(['by-module']);
+    expect([...db.transaction('archive').store.indexNames]).toEqual(['by-module']);
+    expect([...db.transaction('journal').store.indexNames].sort()).toEqual(['by-record', 'by-time']);
+    db.close();
+
+    expect((await readMigrationLog()).map(({ version, fromVersion }) => ({ version, fromVersion }))).toEqual(
+      migrations.slice(1).map(({ version }) => ({ version, fromVersion: 1 }))
+    );
+  });
+
+  it('writes to the upgraded stores', async () => {
+    await seedV1Database();
+    const storage = await import('./storage');
+
+    await storage.updateTodoNote('1-1-kits', 'water', 'Three gallons per person');
+    await storage.saveAnnotation('1-1-kits', 'contacts', 'table', 'Call weekly');
+
+    expect((await storage.getTodo('1-1-kits', 'water'))?.notes).toBe('Three gallons per person');
+    expect((await storage.getAnnotation('1-1-kits', 'contacts'))?.text).toBe('Call weekly');
+    expect(await storage.getRecordHistory('todos', '1-1-kits-water')).toHaveLength(1);
+    expect(await storage.getRecordHistory('annotations', '1-1-kits-contacts')).toHaveLength(1);
+  });
+
+  describe('legacy table notes', () => {
+    const moduleKey = sectionRegistry[0].moduleKeys[0];
+    const legacyKey = `table-note-${moduleKey}-contacts`;
+
+    beforeEach(() => {
+      vi.stubGlobal('localStorage', memoryStorage());
+      localStorage.setItem(legacyKey, 'Call weekly');
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("move into the default profile's database", async () => {
+      const storage = await import('./storage');
+
+      expect((await storage.getAnnotation(moduleKey, 'contacts'))?.text).toBe('Call weekly');
+      expect(localStorage.getItem(legacyKey)).toBeNull();
+    });
+
+    it("stay out of other profiles' databases", async () => {
+      const profiles = await import('./profiles');
+      profiles.setActiveProfile(profiles.createProfile('Riverside Hub', 'hub').id);
+      const storage = await import('./storage');
+
+      expect(await storage.getAnnotation(moduleKey, 'contacts')).toBeUndefined();
+      expect(localStorage.getItem(legacyKey)).toBe('Call weekly');
+    });
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * IndexedDB Schema Migrations
+ *
+ * Ordered registry of schema upgrade steps for each profile's
+ * database. `getDB()` in storage.ts derives the database version from the
+ * last entry here and, when a device has an older version, runs every newer
+ * step inside the single `versionchange` transaction. If any step throws,
+ * the transaction is aborted and the device keeps its previous schema and data.
+ *
+ * ## Adding a migration:
+ * 1. Append an entry whose `version` is one higher than the last
+ * 2. Create stores/indexes via `db`, read and rewrite records via `transaction`
+ * 3. Update the `ResilienceDB` schema in storage.ts to describe the result
+ *
+ * Never edit or reorder a migration that has shipped - devices that already
+ * ran it will not run it again.
+ */
+import type { IDBPDatabase, IDBPTransaction, StoreNames } from 'idb';
+import type { ResilienceDB } from './storage';
+import { sectionRegistry } from '@/data/sections';
+import { DEFAULT_PROFILE_ID, getProfileDatabaseName } from './profiles';
+
+/**
+ * Arguments passed to each migration step
+ */
+export interface MigrationContext {
+  /** Database being upgraded (use for createObjectStore/deleteObjectStore) */
+  db: IDBPDatabase<ResilienceDB>;
+  /** The upgrade transaction (use for reading/writing records and indexes) */
+  transaction: IDBPTransaction<ResilienceDB, StoreNames<ResilienceDB>[], 'versionchange'>;
+  /** Version the device had before this upgrade started (0 for a new database) */
+  oldVersion: number;
+  /** Version the database will have once every step has run */
+  newVersion: number;
+}
+
+export interface Migration {
+  /** Schema version this step upgrades to */
+  version: number;
+  /** Short human-readable summary, recorded in the migration log */
+  description: string;
+  /** Must only await IndexedDB requests - any other await ends the transaction */
+  migrate: (context: MigrationContext) => void | Promise<void>;
+}
+
+/**
+ * Entry recorded in the `metadata` store for every step applied on a device
+ */
+export interface MigrationLogEntry {
+  version: number;
+  description: string;
+  /** Version the device was on when this upgrade started */
+  fromVersion: number;
+  /** ISO timestamp when the step ran */
+  appliedAt: string;
+}
+
+/** Metadata key holding the `MigrationLogEntry[]` history */
+export const MIGRATION_LOG_KEY = 'migrationLog';
+
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Initial schema with todos, tables and metadata stores',
+    migrate({ db }) {
+      // Todos store: Checklist completion state
+      const todoStore = db.createObjectStore('todos', { keyPath: 'id' });
+      todoStore.createIndex('by-module', 'moduleKey');
+
+      // Tables store: Editable table rows
+      const tableStore = db.createObjectStore('tables', { keyPath: 'id' });
+      tableStore.createIndex('by-table', ['moduleKey', 'tableId']);
+
+      // Metadata store: App settings and state
+      db.createObjectStore('metadata', { keyPath: 'key' });
+    },
+  },
+  {
+    version: 2,
+    description: 'Add annotations store and move EditableTable notes out of localStorage',
+    async migrate({ db, transaction }) {
+      const annotationStore = db.createObjectStore('annotations', { keyPath: 'id' });
+      annotationStore.createIndex('by-module', 'moduleKey');
+
+      // The notes predate profiles, so they belong to the default profile's database only
+      if (typeof localStorage === 'undefined' || db.name !== getProfileDatabaseName(DEFAULT_PROFILE_ID)) return;
+
+      const migratedKeys: string[] = [];
+      const updatedAt = new Date().toISOString();
+
+      for (const { moduleKey, tableId } of findLegacyTableNotes()) {
+        const legacyKey = `${LEGACY_TABLE_NOTE_PREFIX}${moduleKey}-${tableId}`;
+        const text = localStorage.getItem(legacyKey);
+        if (text) {
+          await transaction.objectStore('annotations').put({
+            id: `${moduleKey}-${tableId}`,
+            moduleKey,
+            blockId: tableId,
+            blockType: 'table',
+            text,
+            updatedAt,
+          });
+        }
+        migratedKeys.push(legacyKey);
+      }
+
+      // Only drop the old copies once the upgrade has committed
+      transaction.done
+        .then(() => migratedKeys.forEach((key) => localStorage.removeItem(key)))
+        .catch(() => {});
+    },
+  },
+  {
+    version: 3,
+    description: 'Add journal store for undo/redo and edit history',
+    migrate({ db }) {
+      const journalStore = db.createObjectStore('journal', { keyPath: 'seq', autoIncrement: true });
+      journalStore.createIndex('by-record', ['store', 'recordId']);
+      journalStore.createIndex('by-time', 'at');
+    },
+  },
+  {
+    version: 4,
+    description: 'Add archive store for cleared checklist items',
+    migrate({ db }) {
+      const archiveStore = db.createObjectStore('archive', { keyPath: 'id' });
+      archiveStore.createIndex('by-module', 'moduleKey');
+    },
+  },
+];
+
+/** localStorage prefix EditableTable used for notes before schema v2 */
+const LEGACY_TABLE_NOTE_PREFIX = 'table-note-';
+
+/**
+ * Find `table-note-${moduleKey}-${tableId}` keys in localStorage
+ *
+ * Both parts may contain dashes, so keys are split using the module keys
+ * known to the section registry. Unrecognized keys are left in place.
+ */
+function findLegacyTableNotes(): Array<{ moduleKey: string; tableId: string }> {
+  const moduleKeys = sectionRegistry
+    .flatMap((section) => section.moduleKeys)
+    .sort((a, b) => b.length - a.length); // Longest first so prefixes can't shadow
+  const found: Array<{ moduleKey: string; tableId: string }> = [];
+
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key?.startsWith(LEGACY_TABLE_NOTE_PREFIX)) continue;
+
+    const rest = key.slice(LEGACY_TABLE_NOTE_PREFIX.length);
+    const moduleKey = moduleKeys.find((candidate) => rest.startsWith(`${candidate}-`));
+
+    if (moduleKey) {
+      found.push({ moduleKey, tableId: rest.slice(moduleKey.length + 1) });
+    } else {
+      console.warn(`[Storage] Leaving unrecognized table note in localStorage: ${key}`);
+    }
+  }
+
+  return found;
+}
+
+/** Current schema version (version of the last registered migration) */
+export const DB_VERSION = migrations[migrations.length - 1].version;
+
+/**
+ * Check that versions start at 1 and increase by exactly one
+ *
+ * A gap would silently skip a step on some devices, so fail loudly instead.
+ */
+function assertRegistryIsContiguous(): void {
+  migrations.forEach((migration, index) => {
+    if (migration.version !== index + 1) {
+      throw new Error(
+        `Migration registry is out of order: expected version ${index + 1}, found ${migration.version}`
+      );
+    }
+  });
+}
+
+/**
+ * Run every migration step between `oldVersion` (exclusive) and
+ * `newVersion` (inclusive), appending each one to the migration log.
+ *
+ * Called from the `upgrade` callback of `openDB`. Steps run in order and each
+ * is awaited before the next starts so a step can rely on stores created by
+ * earlier ones.
+ */
+export async function runMigrations(
+  db: IDBPDatabase<ResilienceDB>,
+  transaction: MigrationContext['transaction'],
+  oldVersion: number,
+  newVersion: number
+): Promise<void> {
+  assertRegistryIsContiguous();
+
+  const pending = migrations.filter(
+    (migration) => migration.version > oldVersion && migration.version <= newVersion
+  );
+
+  const applied: MigrationLogEntry[] = [];
+
+  for (const migration of pending) {
+    console.log(`[Storage] Migrating schema to v${migration.version}: ${migration.description}`);
+    await migration.migrate({ db, transaction, oldVersion, newVersion });
+
+    applied.push({
+      version: migration.version,
+      description: migration.description,
+      fromVersion: oldVersion,
+      appliedAt: new Date().toISOString(),
+    });
+  }
+
+  // The metadata store only exists once v1 has run, so write the log last
+  const metadataStore = transaction.objectStore('metadata');
+  const existing = await metadataStore.get(MIGRATION_LOG_KEY);
+  const log: MigrationLogEntry[] = Array.isArray(existing?.value) ? existing.value : [];
+
+  await metadataStore.put({
+    key: MIGRATION_LOG_KEY,
+    value: [...log, ...applied],
+    updatedAt: new Date().toISOString(),
+  });
+}
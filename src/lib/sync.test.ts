@@ -0,0 +1,108 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SyncData, SyncSender } from './sync';
+
+const MODULE_KEY = '1-1-kits';
+
+const T1 = '2025-03-01T10:00:00.000Z';
+const T2 = '2025-03-02T10:00:00.000Z';
+const T3 = '2025-03-03T10:00:00.000Z';
+const T4 = '2025-03-04T10:00:00.000Z';
+
+const SENDER: SyncSender = {
+  deviceId: 'other-device',
+  profileName: 'Household',
+  fingerprint: 'ABCD-EFGH',
+  createdAt: T2,
+  trust: 'known',
+  encrypted: false,
+};
+
+type StorageModule = typeof import('./storage');
+type SyncModule = typeof import('./sync');
+
+describe('merging a sync bundle', () => {
+  let storage: StorageModule;
+  let sync: SyncModule;
+
+  beforeEach(async () => {
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    storage = await import('./storage');
+    sync = await import('./sync');
+
+    // Both devices have the same records since a merge at T2
+    vi.setSystemTime(T1);
+    await storage.updateTodoNote(MODULE_KEY, 'water', 'Two gallons per person');
+    await storage.toggleTodo(MODULE_KEY, 'water');
+    await storage.saveTableRow({
+      moduleKey: MODULE_KEY,
+      tableId: 'contacts',
+      rowId: 'row-1',
+      data: { name: 'Ann' },
+      order: 0,
+    });
+    await storage.setMetadata(storage.SYNC_PEERS_KEY, {
+      [SENDER.deviceId]: { fingerprint: SENDER.fingerprint, profileName: 'Household', lastSyncedAt: T2, mergedAt: T2 },
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  /** The sender's bundle: what this device had at the last merge */
+  async function bundleAtMerge(): Promise<SyncData> {
+    const { todos, tables, annotations } = await storage.exportAllData();
+    return { todos, tables, annotations, metadata: [] };
+  }
+
+  it("doesn't bring back records deleted or archived here since the last merge", async () => {
+    const bundle = await bundleAtMerge();
+
+    vi.setSystemTime(T3);
+    await storage.deleteTableRow(MODULE_KEY, 'contacts', 'row-1');
+    await storage.clearCompletedItems(MODULE_KEY);
+
+    const plan = await sync.planSync(bundle, SENDER);
+    expect(plan).toMatchObject({ added: 0, updated: 0, kept: 2, conflicts: [] });
+
+    await sync.applySync(bundle, SENDER);
+    expect(await storage.getTableRows(MODULE_KEY, 'contacts')).toEqual([]);
+    expect(await storage.getTodo(MODULE_KEY, 'water')).toBeUndefined();
+  });
+
+  it('brings back a record deleted here that the sender changed since', async () => {
+    const bundle = await bundleAtMerge();
+    bundle.tables = bundle.tables.map((row) => ({
+      ...row,
+      data: { name: 'Ann Lee' },
+      updatedAt: T4,
+      fieldUpdatedAt: { ...row.fieldUpdatedAt, 'data.name': T4 },
+    }));
+
+    vi.setSystemTime(T3);
+    await storage.deleteTableRow(MODULE_KEY, 'contacts', 'row-1');
+
+    expect(await sync.planSync(bundle, SENDER)).toMatchObject({ added: 0, updated: 1, unchanged: 1 });
+
+    await sync.applySync(bundle, SENDER);
+    expect((await storage.getTableRows(MODULE_KEY, 'contacts')).map((row) => row.data)).toEqual([
+      { name: 'Ann Lee' },
+    ]);
+  });
+
+  it('adds records this device never had', async () => {
+    const bundle = await bundleAtMerge();
+    bundle.todos = [
+      ...bundle.todos,
+      { ...bundle.todos[0], id: `${MODULE_KEY}-radio`, todoId: 'radio', notes: undefined, fieldUpdatedAt: {} },
+    ];
+
+    expect(await sync.planSync(bundle, SENDER)).toMatchObject({ added: 1, unchanged: 2 });
+  });
+});
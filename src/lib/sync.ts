@@ -0,0 +1,615 @@
+/**
+ * Device Sync
+ *
+ * Keeps a profile's checklists and tables the same on two devices without a
+ * server: one device writes a sync bundle, the other reads it - as a file or
+ * as a run of animated QR codes (see DeviceSyncPanel) - and merges it.
+ *
+ * ## Bundles:
+ * A bundle holds checklist items, table rows, table notes and settings. It is
+ * signed with this device's own key (ECDSA P-256, created on first use), so
+ * the receiving device can tell it arrived intact and recognise the sender
+ * next time. It can be encrypted with a transfer passphrase, and always is
+ * while the passphrase lock is on.
+ *
+ * ## Merging:
+ * Records are merged field by field (see merge.ts), against this device's
+ * version from just after the last merge from the same sender (from the
+ * change journal). A field changed on one device takes that device's value; a
+ * field changed on both is a conflict: the newer version is suggested and the
+ * household picks one per field. Deletions aren't sent, but a record deleted
+ * (or archived) here since the last merge from the same sender isn't brought
+ * back by it, unless the sender changed it after that merge.
+ */
+import {
+  SYNC_IDENTITY_KEY,
+  SYNC_PEERS_KEY,
+  applySyncedData,
+  exportAllData,
+  getDeviceId,
+  getLockState,
+  getMetadata,
+  getRecordsAt,
+  getUserMetadata,
+  setMetadata,
+  validateExportedData,
+  type Annotation,
+  type ImportSummary,
+  type JournaledRecord,
+  type TableRow,
+  type Todo,
+} from './storage';
+import {
+  MIN_PASSPHRASE_LENGTH,
+  decryptWithPassphrase,
+  encryptWithPassphrase,
+  fromBase64,
+  isEncrypted,
+  toBase64,
+} from './encryption';
+import { getActiveProfile, PROFILE_TYPE_LABELS, type ProfileType } from './profiles';
+import {
+  changedAt,
+  diffRecord,
+  getConflicts,
+  mergeRecord,
+  type FieldChange,
+  type MergeSide,
+  type RecordDiff,
+} from './merge';
+
+const BUNDLE_FORMAT = 'resilience-toolkit-sync';
+const SIGNATURE_ALGORITHM = { name: 'ECDSA', hash: 'SHA-256' } as const;
+const KEY_ALGORITHM = { name: 'ECDSA', namedCurve: 'P-256' } as const;
+
+export type SyncStore = 'todos' | 'tables' | 'annotations';
+
+const SYNC_STORES: SyncStore[] = ['todos', 'tables', 'annotations'];
+
+export interface SyncSetting {
+  key: string;
+  value: any;
+  updatedAt: string;
+}
+
+/**
+ * What a bundle carries: the profile's records and settings
+ */
+export interface SyncData {
+  todos: Todo[];
+  tables: TableRow[];
+  annotations: Annotation[];
+  metadata: SyncSetting[];
+}
+
+export interface SyncBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: 1;
+  deviceId: string;
+  profile: { name: string; type: ProfileType };
+  createdAt: string; // ISO timestamp
+  /** The sender's public signing key */
+  publicKey: JsonWebKey;
+  /** Present when `payload` is encrypted with a transfer passphrase */
+  encryption?: { salt: string; iterations: number };
+  /** `SyncData` as JSON, or encrypted (`enc:v1:`) */
+  payload: string;
+  /** ECDSA signature (base64) over `signedText()` */
+  signature: string;
+}
+
+/** This device's signing keys (device metadata, never exported) */
+interface SyncIdentity {
+  publicKey: JsonWebKey;
+  privateKey: CryptoKey;
+}
+
+/** A device this profile has merged a bundle from */
+export interface SyncPeer {
+  fingerprint: string;
+  profileName: string;
+  /** `createdAt` of the last bundle merged from it */
+  lastSyncedAt: string;
+  /** When that bundle was merged here (absent for peers synced before field merging) */
+  mergedAt?: string;
+}
+
+/**
+ * - new: never synced with this device before
+ * - known: same device and key as last time
+ * - changed: a device id seen before, but signed with a different key
+ */
+export type SenderTrust = 'new' | 'known' | 'changed';
+
+export interface SyncSender {
+  deviceId: string;
+  profileName: string;
+  /** Short code for the sender's key; matches "This device's code" on the sender */
+  fingerprint: string;
+  createdAt: string;
+  trust: SenderTrust;
+  encrypted: boolean;
+}
+
+export type SyncSide = MergeSide;
+
+/**
+ * A field changed on both devices since they last synced
+ */
+export interface SyncConflict {
+  /** `${store}:${id}:${field}`, the key for `ConflictChoices` */
+  key: string;
+  store: SyncStore;
+  /** e.g. "notes" or "data.item" (see merge.ts) */
+  field: string;
+  local: JournaledRecord;
+  incoming: JournaledRecord;
+  /** When each device last changed the field */
+  localAt: string;
+  incomingAt: string;
+  /** The version changed last */
+  suggested: SyncSide;
+}
+
+export type ConflictChoices = Record<string, SyncSide>;
+
+/**
+ * What merging a bundle will do, before conflicts are resolved
+ */
+export interface SyncPlan {
+  /** Records only the sender has */
+  added: number;
+  /** Records taking one or more fields from the sender (including ones deleted here that it changed since) */
+  updated: number;
+  /** Records that differ, but where this device's version of every field (or its deletion) wins */
+  kept: number;
+  unchanged: number;
+  /** Settings taken from the sender */
+  settings: number;
+  conflicts: SyncConflict[];
+}
+
+// ============================================================================
+// SIGNING
+// ============================================================================
+
+async function getIdentity(): Promise<SyncIdentity> {
+  const saved: SyncIdentity | undefined = await getMetadata(SYNC_IDENTITY_KEY);
+  if (saved) return saved;
+
+  // The private key is not extractable; the public key always is
+  const keys = await crypto.subtle.generateKey(KEY_ALGORITHM, false, ['sign', 'verify']);
+  const identity: SyncIdentity = {
+    publicKey: await crypto.subtle.exportKey('jwk', keys.publicKey),
+    privateKey: keys.privateKey,
+  };
+  await setMetadata(SYNC_IDENTITY_KEY, identity);
+  return identity;
+}
+
+/**
+ * Short, comparable code for a public key (e.g. "3f9a-21c0-7be4")
+ */
+async function fingerprintOf(publicKey: JsonWebKey): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(`${publicKey.x}.${publicKey.y}`)
+  );
+  const hex = [...new Uint8Array(digest).slice(0, 6)]
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+  return hex.match(/.{4}/g)!.join('-');
+}
+
+/**
+ * This device's sync code, shown on both devices so the household can check
+ * a bundle came from the device they expect
+ */
+export async function getSyncCode(): Promise<string> {
+  return fingerprintOf((await getIdentity()).publicKey);
+}
+
+/** Everything the signature covers */
+function signedText(bundle: Omit<SyncBundle, 'signature'>): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(
+    JSON.stringify([
+      bundle.format,
+      bundle.version,
+      bundle.deviceId,
+      bundle.profile.name,
+      bundle.profile.type,
+      bundle.createdAt,
+      bundle.publicKey.x,
+      bundle.publicKey.y,
+      bundle.encryption?.salt ?? null,
+      bundle.encryption?.iterations ?? null,
+      bundle.payload,
+    ])
+  );
+}
+
+async function getPeers(): Promise<Record<string, SyncPeer>> {
+  return (await getMetadata(SYNC_PEERS_KEY)) ?? {};
+}
+
+// ============================================================================
+// BUNDLES
+// ============================================================================
+
+/**
+ * Write a sync bundle of the active profile
+ *
+ * @param passphrase - Encrypt the bundle with this (required while the
+ *   passphrase lock is on, so data never leaves less protected than it is here)
+ */
+export async function createSyncBundle(passphrase?: string): Promise<SyncBundle> {
+  if (!passphrase && (await getLockState()).status !== 'off') {
+    throw new Error('Set a transfer passphrase - this profile is protected with a passphrase lock');
+  }
+  if (passphrase && passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Transfer passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+
+  const identity = await getIdentity();
+  const { todos, tables, annotations } = await exportAllData();
+  const data: SyncData = { todos, tables, annotations, metadata: await getUserMetadata() };
+  const json = JSON.stringify(data);
+  const encrypted = passphrase ? await encryptWithPassphrase(json, passphrase) : null;
+  const profile = getActiveProfile();
+
+  const unsigned: Omit<SyncBundle, 'signature'> = {
+    format: BUNDLE_FORMAT,
+    version: 1,
+    deviceId: getDeviceId(),
+    profile: { name: profile.name, type: profile.type },
+    createdAt: new Date().toISOString(),
+    publicKey: identity.publicKey,
+    ...(encrypted && { encryption: { salt: encrypted.salt, iterations: encrypted.iterations } }),
+    payload: encrypted ? encrypted.data : json,
+  };
+  const signature = await crypto.subtle.sign(SIGNATURE_ALGORITHM, identity.privateKey, signedText(unsigned));
+
+  return { ...unsigned, signature: toBase64(signature) };
+}
+
+export function isSyncBundle(payload: unknown): payload is SyncBundle {
+  if (typeof payload !== 'object' || payload === null) return false;
+  const bundle = payload as Partial<SyncBundle>;
+  return (
+    bundle.format === BUNDLE_FORMAT &&
+    bundle.version === 1 &&
+    typeof bundle.deviceId === 'string' &&
+    typeof bundle.profile?.name === 'string' &&
+    typeof bundle.profile.type === 'string' &&
+    bundle.profile.type in PROFILE_TYPE_LABELS &&
+    typeof bundle.createdAt === 'string' &&
+    typeof bundle.publicKey?.x === 'string' &&
+    typeof bundle.publicKey.y === 'string' &&
+    typeof bundle.payload === 'string' &&
+    typeof bundle.signature === 'string' &&
+    (bundle.encryption === undefined ||
+      (typeof bundle.encryption.salt === 'string' &&
+        typeof bundle.encryption.iterations === 'number' &&
+        isEncrypted(bundle.payload)))
+  );
+}
+
+/**
+ * Check a bundle's signature and say who sent it
+ *
+ * Throws if the bundle was altered or damaged after it was signed.
+ */
+export async function readSyncSender(bundle: SyncBundle): Promise<SyncSender> {
+  let valid = false;
+  try {
+    const publicKey = await crypto.subtle.importKey(
+      'jwk',
+      { kty: 'EC', crv: 'P-256', x: bundle.publicKey.x, y: bundle.publicKey.y },
+      KEY_ALGORITHM,
+      false,
+      ['verify']
+    );
+    valid = await crypto.subtle.verify(
+      SIGNATURE_ALGORITHM,
+      publicKey,
+      fromBase64(bundle.signature),
+      signedText(bundle)
+    );
+  } catch (error) {
+    console.warn('[Sync] Could not check bundle signature:', error);
+  }
+  if (!valid) {
+    throw new Error('This sync bundle was changed or damaged after it was created');
+  }
+
+  const fingerprint = await fingerprintOf(bundle.publicKey);
+  const peer = (await getPeers())[bundle.deviceId];
+  return {
+    deviceId: bundle.deviceId,
+    profileName: bundle.profile.name,
+    fingerprint,
+    createdAt: bundle.createdAt,
+    trust: !peer ? 'new' : peer.fingerprint === fingerprint ? 'known' : 'changed',
+    encrypted: bundle.encryption !== undefined,
+  };
+}
+
+function isSyncSetting(value: unknown): value is SyncSetting {
+  if (typeof value !== 'object' || value === null) return false;
+  const { key, updatedAt } = value as Partial<SyncSetting>;
+  return typeof key === 'string' && typeof updatedAt === 'string';
+}
+
+/**
+ * The records and settings in a bundle
+ *
+ * @returns null if the bundle is encrypted and the passphrase is wrong
+ */
+export async function openSyncBundle(bundle: SyncBundle, passphrase = ''): Promise<SyncData | null> {
+  const json = bundle.encryption
+    ? await decryptWithPassphrase({ ...bundle.encryption, data: bundle.payload }, passphrase)
+    : bundle.payload;
+  if (json === null) return null;
+
+  const parsed = JSON.parse(json);
+  const { data, errors } = validateExportedData({ ...parsed, archive: [], metadata: {} });
+  if (!data || !Array.isArray(parsed.metadata)) {
+    throw new Error(`Invalid sync bundle: ${errors.join('; ') || 'missing settings'}`);
+  }
+
+  return {
+    todos: data.todos,
+    tables: data.tables,
+    annotations: data.annotations,
+    metadata: parsed.metadata.filter(isSyncSetting),
+  };
+}
+
+// ============================================================================
+// MERGING
+// ============================================================================
+
+function conflictKey(store: SyncStore, id: string, field: string): string {
+  return `${store}:${id}:${field}`;
+}
+
+/**
+ * Compare a bundle with this device
+ *
+ * @returns The plan, the merged records that change here without a conflict,
+ *   the diffs of records with conflicts, and the settings to take
+ */
+async function compareWithLocal(
+  data: SyncData,
+  sender: SyncSender
+): Promise<{
+  plan: SyncPlan;
+  take: Record<SyncStore, JournaledRecord[]>;
+  conflicted: RecordDiff[];
+  settings: SyncSetting[];
+}> {
+  const local = await exportAllData();
+  const peer = sender.trust === 'known' ? (await getPeers())[sender.deviceId] : undefined;
+  const mergedAt = peer?.mergedAt;
+  const history = mergedAt ? await getRecordsAt(mergedAt) : new Map<string, JournaledRecord | null>();
+
+  // This device's version from just after the last merge, when it can be told
+  const baseOf = (store: SyncStore, current: JournaledRecord): JournaledRecord | null => {
+    const key = `${store}:${current.id}`;
+    if (history.has(key)) return history.get(key) ?? null;
+    // No history since: unchanged, unless the journal was pruned
+    return mergedAt && changedAt(current) <= mergedAt ? current : null;
+  };
+
+  const plan: SyncPlan = { added: 0, updated: 0, kept: 0, unchanged: 0, settings: 0, conflicts: [] };
+  const take: Record<SyncStore, JournaledRecord[]> = { todos: [], tables: [], annotations: [] };
+  const conflicted: RecordDiff[] = [];
+
+  SYNC_STORES.forEach((store) => {
+    const existing = new Map<string, JournaledRecord>(local[store].map((record) => [record.id, record]));
+
+    (data[store] as JournaledRecord[]).forEach((incoming) => {
+      const current = existing.get(incoming.id);
+      const base = history.get(`${store}:${incoming.id}`);
+      if (!current && base) {
+        // Deleted (or archived) here since the last merge: stays gone unless the sender changed it since
+        const diff = diffRecord(store, base, base, incoming);
+        if (diff.changes.some((change) => change.outcome === 'incoming')) {
+          plan.updated++;
+          take[store].push(mergeRecord(diff));
+        } else {
+          plan.kept++;
+        }
+        return;
+      }
+      if (!current) {
+        plan.added++;
+        take[store].push(incoming);
+        return;
+      }
+
+      // Without an earlier sync, every field that differs is a conflict
+      const diff = diffRecord(store, baseOf(store, current), current, incoming, peer?.lastSyncedAt);
+      const conflicts = getConflicts(diff);
+      if (diff.changes.length === 0) {
+        plan.unchanged++;
+      } else if (conflicts.length > 0) {
+        conflicted.push(diff);
+        plan.conflicts.push(
+          ...conflicts.map(({ field, localAt, incomingAt, suggested }: FieldChange) => ({
+            key: conflictKey(store, current.id, field),
+            store,
+            field,
+            local: current,
+            incoming,
+            localAt,
+            incomingAt,
+            suggested,
+          }))
+        );
+      } else {
+        const merged = mergeRecord(diff);
+        if (merged === current) {
+          plan.kept++;
+        } else {
+          plan.updated++;
+          take[store].push(merged);
+        }
+      }
+    });
+  });
+
+  const localSettings = new Map((await getUserMetadata()).map((item) => [item.key, item]));
+  const settings = data.metadata.filter((incoming) => {
+    const current = localSettings.get(incoming.key);
+    return (
+      !current ||
+      (incoming.updatedAt > current.updatedAt &&
+        JSON.stringify(incoming.value) !== JSON.stringify(current.value))
+    );
+  });
+  plan.settings = settings.length;
+
+  return { plan, take, conflicted, settings };
+}
+
+/**
+ * Describe what merging a bundle would change, without writing anything
+ */
+export async function planSync(data: SyncData, sender: SyncSender): Promise<SyncPlan> {
+  return (await compareWithLocal(data, sender)).plan;
+}
+
+/**
+ * Merge a bundle into the active profile
+ *
+ * Compared again at this point, so edits made while reviewing are respected.
+ * Conflicting fields without a choice get the suggested version. The merge is one
+ * undoable change, and the sender is remembered for the next sync.
+ */
+export async function applySync(
+  data: SyncData,
+  sender: SyncSender,
+  choices: ConflictChoices = {}
+): Promise<ImportSummary> {
+  const { take, conflicted, settings } = await compareWithLocal(data, sender);
+
+  conflicted.forEach((diff) => {
+    const store = diff.store as SyncStore;
+    const fieldChoices = Object.fromEntries(
+      getConflicts(diff).flatMap(({ field }) => {
+        const choice = choices[conflictKey(store, diff.local.id, field)];
+        return choice ? [[field, choice]] : [];
+      })
+    );
+    const merged = mergeRecord(diff, fieldChoices);
+    if (merged !== diff.local) take[store].push(merged);
+  });
+
+  const summary = await applySyncedData(
+    {
+      todos: take.todos as Todo[],
+      tables: take.tables as TableRow[],
+      annotations: take.annotations as Annotation[],
+      archive: [],
+      metadata: Object.fromEntries(settings.map((setting) => [setting.key, setting.value])),
+    },
+    `Sync from ${sender.profileName}`
+  );
+
+  const peers = await getPeers();
+  await setMetadata(SYNC_PEERS_KEY, {
+    ...peers,
+    [sender.deviceId]: {
+      fingerprint: sender.fingerprint,
+      profileName: sender.profileName,
+      lastSyncedAt: sender.createdAt,
+      mergedAt: new Date().toISOString(),
+    },
+  });
+
+  return summary;
+}
+
+// ============================================================================
+// QR TRANSFER
+// ============================================================================
+
+/**
+ * QR frame text: `RHTS1:<transfer id>:<index>:<total>:<base64 chunk>`
+ *
+ * The bundle is gzipped, base64-encoded and split so each code stays small
+ * enough for a phone camera to read quickly.
+ */
+const QR_FRAME_PREFIX = 'RHTS1';
+const QR_CHUNK_LENGTH = 600;
+
+export interface QrFrame {
+  id: string;
+  index: number;
+  total: number;
+  data: string;
+}
+
+/**
+ * Whether this browser can compress bundles for QR codes
+ */
+export function canUseQrTransfer(): boolean {
+  return typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+}
+
+async function transform(bytes: Uint8Array<ArrayBuffer>, stream: GenericTransformStream): Promise<Uint8Array> {
+  const output = new Blob([bytes]).stream().pipeThrough(stream as TransformStream<Uint8Array, Uint8Array>);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+/**
+ * Split a bundle into QR code texts, shown one after another
+ */
+export async function toQrFrames(bundle: SyncBundle): Promise<string[]> {
+  const compressed = await transform(
+    new TextEncoder().encode(JSON.stringify(bundle)),
+    new CompressionStream('gzip')
+  );
+  const encoded = toBase64(compressed);
+  const id = crypto.randomUUID().slice(0, 8);
+  const total = Math.ceil(encoded.length / QR_CHUNK_LENGTH);
+
+  return Array.from(
+    { length: total },
+    (_, index) =>
+      `${QR_FRAME_PREFIX}:${id}:${index}:${total}:${encoded.slice(index * QR_CHUNK_LENGTH, (index + 1) * QR_CHUNK_LENGTH)}`
+  );
+}
+
+/**
+ * Read a scanned QR code (null if it isn't a sync frame)
+ */
+export function parseQrFrame(text: string): QrFrame | null {
+  const [prefix, id, index, total, data] = text.split(':');
+  const frame = { id, index: Number(index), total: Number(total), data };
+  if (
+    prefix !== QR_FRAME_PREFIX ||
+    !id ||
+    !data ||
+    !Number.isInteger(frame.index) ||
+    !Number.isInteger(frame.total) ||
+    frame.index < 0 ||
+    frame.index >= frame.total
+  ) {
+    return null;
+  }
+  return frame;
+}
+
+/**
+ * Put a complete set of frames back together into the bundle JSON's value
+ */
+export async function fromQrFrames(frames: QrFrame[]): Promise<unknown> {
+  const encoded = [...frames]
+    .sort((a, b) => a.index - b.index)
+    .map((frame) => frame.data)
+    .join('');
+  const json = await transform(fromBase64(encoded), new DecompressionStream('gzip'));
+  return JSON.parse(new TextDecoder().decode(json));
+}
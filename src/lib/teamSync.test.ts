@@ -0,0 +1,153 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { memoryStorage } from '@/test/memoryStorage';
+import { connectTeamSync } from './teamSync';
+
+const TEAM_CODE = `space-id1.${'s'.repeat(43)}`;
+
+describe('connectTeamSync', () => {
+  beforeEach(() => {
+    vi.stubGlobal('window', { location: { origin: 'http://localhost:8787' } });
+    // Addresses that pass the checks get as far as the network
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('Failed to fetch')));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('only connects over https', async () => {
+    await expect(connectTeamSync('http://hub.example.org', TEAM_CODE)).rejects.toThrow(
+      'The server address must start with https://'
+    );
+    await expect(connectTeamSync('ftp://hub.example.org', TEAM_CODE)).rejects.toThrow(
+      'The server address must start with https://'
+    );
+  });
+
+  it('allows plain http to a local server', async () => {
+    await expect(connectTeamSync('http://localhost:8787', TEAM_CODE)).rejects.toThrow(
+      'Could not reach the sync server'
+    );
+  });
+
+  it('only connects to the origin serving the toolkit', async () => {
+    vi.stubGlobal('window', { location: { origin: 'https://toolkit.example.org' } });
+    await expect(connectTeamSync('https://toolkit.example.org/', TEAM_CODE)).rejects.toThrow(
+      'Could not reach the sync server'
+    );
+    await expect(connectTeamSync('https://elsewhere.example.org', TEAM_CODE)).rejects.toThrow(
+      'This toolkit can only sync with a server at https://toolkit.example.org'
+    );
+  });
+});
+
+interface PushedChange {
+  id: string;
+  payload: string;
+}
+
+/**
+ * A sync server that answers pulls with `pulls` and records every push, even failed ones
+ */
+function fakeServer(pulls: Array<{ seq: number; payload: string }> = []) {
+  const pushes: PushedChange[][] = [];
+  const pullQueries: string[] = [];
+  let failPushes = 0;
+
+  const fetch = vi.fn(async (url: string, init: RequestInit = {}) => {
+    const { pathname, searchParams } = new URL(url);
+    if (pathname.endsWith('/changes') && init.method === 'POST') {
+      pushes.push(JSON.parse(init.body as string).changes);
+      if (failPushes === 0) return Response.json({});
+      failPushes -= 1;
+      return new Response('', { status: 503 });
+    }
+    if (pathname.endsWith('/changes')) {
+      pullQueries.push(searchParams.get('after') as string);
+      const after = Number(searchParams.get('after'));
+      const changes = pulls.filter(({ seq }) => seq > after);
+      return Response.json({ changes, cursor: changes.at(-1)?.seq ?? after, more: false });
+    }
+    return Response.json({ name: 'Riverside Hub' });
+  });
+
+  return {
+    fetch,
+    pushes,
+    pullQueries,
+    failNextPush() {
+      failPushes += 1;
+    },
+  };
+}
+
+describe('syncWithTeam', () => {
+  let storage: typeof import('./storage');
+  let teamSync: typeof import('./teamSync');
+
+  beforeEach(async () => {
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+    vi.stubGlobal('localStorage', memoryStorage());
+    vi.stubGlobal('window', Object.assign(new EventTarget(), { location: { origin: 'http://localhost:8787' } }));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    storage = await import('./storage');
+    teamSync = await import('./teamSync');
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('pushes the first snapshot again under the same ids after a failure', async () => {
+    await storage.updateTodoNote('1-1-kits', 'water', 'Two gallons per person');
+    const server = fakeServer();
+    vi.stubGlobal('fetch', server.fetch);
+
+    server.failNextPush();
+    await teamSync.connectTeamSync('http://localhost:8787', TEAM_CODE);
+    expect((await teamSync.getTeamSyncStatus())?.lastError).toBe('The sync server could not be used (error 503)');
+    expect(await teamSync.syncWithTeam()).toEqual({ pushed: 1, pulled: 0 });
+
+    // The server may have stored the failed push, and ignores ids it already has
+    const [failed, retried] = server.pushes;
+    expect(failed.map(({ id }) => id)).toEqual(retried.map(({ id }) => id));
+    expect(retried[0].id).toMatch(/:snapshot:1:todos:1-1-kits-water$/);
+  });
+
+  it('stops pulling at a change it cannot read', async () => {
+    // Changes pushed from another device on the same team
+    await storage.updateTodoNote('1-1-kits', 'water', 'Two gallons per person');
+    await storage.updateTodoNote('1-1-kits', 'radio', 'Hand crank');
+    const sender = fakeServer();
+    vi.stubGlobal('fetch', sender.fetch);
+    await teamSync.connectTeamSync('http://localhost:8787', TEAM_CODE);
+    const [radio, water] = sender.pushes[0]
+      .sort((a, b) => a.id.localeCompare(b.id))
+      .map(({ payload }) => payload);
+
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+    storage = await import('./storage');
+    teamSync = await import('./teamSync');
+    const server = fakeServer([
+      { seq: 1, payload: water },
+      { seq: 2, payload: 'not a change' },
+      { seq: 3, payload: radio },
+    ]);
+    vi.stubGlobal('fetch', server.fetch);
+
+    await teamSync.connectTeamSync('http://localhost:8787', TEAM_CODE);
+    expect((await storage.getTodo('1-1-kits', 'water'))?.notes).toBe('Two gallons per person');
+    expect(await storage.getTodo('1-1-kits', 'radio')).toBeUndefined();
+    expect((await teamSync.getTeamSyncStatus())?.lastError).toMatch(/could not be read/);
+
+    // The next pull starts again at the unreadable change
+    await expect(teamSync.syncWithTeam()).rejects.toThrow(/could not be read/);
+    expect(server.pullQueries).toEqual(['0', '1']);
+  });
+});
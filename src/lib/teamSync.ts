@@ -0,0 +1,556 @@
+/**
+ * Team Sync
+ *
+ * Opt-in sync through a server a hub runs itself (the reference server is in
+ * `server/`), so a coordinator and their team can work on one shared plan.
+ * Nothing is sent until a profile is connected, and a connected profile keeps
+ * working offline - changes go up and come down whenever the server can be
+ * reached.
+ *
+ * ## Protocol (v1):
+ * Every request goes to `<server>/api/sync/v1/spaces/<space id>` with
+ * `Authorization: Bearer <token>`:
+ * - `GET` - `{ name }`; checks the team code
+ * - `POST /changes` with `{ origin, changes: [{ id, payload }] }` - push;
+ *   a change id the server already has is ignored, so retries are harmless
+ * - `GET /changes?after=<cursor>&exclude=<origin>&limit=<n>` - pull
+ *   `{ changes: [{ seq, payload }], cursor, more }`, oldest first
+ *
+ * ## Team codes:
+ * A team code is `<space id>.<secret>`, printed by the server when the space
+ * is created. The secret itself is never sent: the bearer token is a hash of
+ * it, and each change is encrypted (AES-GCM) with a key derived from it, so
+ * the server only ever stores ciphertext. On the device the secret is kept
+ * in the profile's metadata, encrypted with the passphrase lock's key while
+ * the lock is on, so a locked device can't sync (or be read) without it.
+ *
+ * ## Changes:
+ * Pushes send change journal entries (each record's before and after) from a
+ * cursor; the first push sends every record as it is. Pulled changes are
+ * merged field by field (see merge.ts) against the version the other device
+ * started from, the newer version winning any conflict, and journaled as
+ * automatic changes so they are never pushed back. A pulled change that
+ * can't be read stops the pull there (and is reported in `lastError`), so
+ * it is tried again rather than skipped.
+ */
+import {
+  COALESCE_WINDOW_MS,
+  JOURNAL_CHANGED_EVENT,
+  TEAM_SYNC_KEY,
+  applyRemoteChanges,
+  exportAllData,
+  getDeviceId,
+  getJournalAfter,
+  getJournalBounds,
+  getLockState,
+  getMetadata,
+  isSameContent,
+  openSecret,
+  sealSecret,
+  setMetadata,
+  validateExportedData,
+  type JournalChangedDetail,
+  type JournalEntry,
+  type JournaledRecord,
+  type JournaledStore,
+  type RemoteWrite,
+} from './storage';
+import { decryptText, encryptText } from './encryption';
+import { changedAt, diffRecord, mergeRecord } from './merge';
+import { getActiveProfile } from './profiles';
+
+const API_PATH = '/api/sync/v1/spaces';
+const TEAM_CODE_PATTERN = /^([A-Za-z0-9_-]{8,64})\.([A-Za-z0-9_-]{32,128})$/;
+/** Hosts a server may be reached on over plain http, for trying the reference server locally */
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+const PUSH_BATCH_SIZE = 200;
+const PULL_BATCH_SIZE = 500;
+/** How often a connected, open app syncs */
+const SYNC_INTERVAL_MS = 60 * 1000;
+/** Wait this long after an edit before pushing it, so a burst of typing goes at once */
+const PUSH_DELAY_MS = 10 * 1000;
+/** Label of the automatic changes pulls are journaled as */
+const PULL_LABEL = 'Team sync';
+
+/**
+ * A hub's sync server that isn't served with the toolkit (set at build time,
+ * see .env.example). The page's security policy only lets it connect to this
+ * origin and its own (see src/middleware/index.ts).
+ */
+export const TEAM_SYNC_ORIGIN: string | undefined = import.meta.env.PUBLIC_TEAM_SYNC_ORIGIN || undefined;
+
+/** Window event fired whenever the connection or its last sync changes */
+export const TEAM_SYNC_EVENT = 'team-sync-status';
+
+/**
+ * A profile's connection to a team sync server (device metadata, never exported)
+ */
+interface TeamSyncConfig {
+  /** Server address without a trailing slash, e.g. "https://hub.example.org" */
+  serverUrl: string;
+  spaceId: string;
+  /** The team code's secret, encrypted while the passphrase lock is on (see `sealSecret`) */
+  secret: string;
+  spaceName: string;
+  /** Random id for this connection; its own changes are left out of pulls */
+  origin: string;
+  /** Journal `seq` pushed up to (null: nothing pushed yet) */
+  pushCursor: number | null;
+  /** Server cursor pulled up to */
+  pullCursor: number;
+  lastSyncedAt?: string;
+  lastError?: string;
+}
+
+/**
+ * What the settings panel shows about a connection
+ */
+export interface TeamSyncStatus {
+  serverUrl: string;
+  spaceName: string;
+  lastSyncedAt?: string;
+  /** Why the last attempt failed; cleared by the next successful sync */
+  lastError?: string;
+}
+
+/**
+ * One journal entry as pushed to the server (encrypted into `payload`)
+ */
+interface TeamChange {
+  store: JournaledStore;
+  recordId: string;
+  before: JournaledRecord | null;
+  after: JournaledRecord | null;
+  at: string;
+  deviceId: string;
+}
+
+interface TeamKeys {
+  token: string;
+  key: CryptoKey;
+}
+
+/** A record's changes in one pull, from where the first started to where the last left it */
+interface PulledRecord {
+  store: JournaledStore;
+  id: string;
+  base: JournaledRecord | null;
+  after: JournaledRecord | null;
+}
+
+interface PullResponse {
+  changes: Array<{ seq: number; payload: string }>;
+  cursor: number;
+  more: boolean;
+}
+
+// ============================================================================
+// CONNECTION
+// ============================================================================
+
+async function getConfig(): Promise<TeamSyncConfig | null> {
+  return (await getMetadata(TEAM_SYNC_KEY)) ?? null;
+}
+
+/**
+ * Update the saved connection, unless it was disconnected (or replaced) meanwhile
+ */
+async function updateConfig(spaceId: string, changes: Partial<TeamSyncConfig>): Promise<void> {
+  const config = await getConfig();
+  if (config?.spaceId !== spaceId) return;
+  await setMetadata(TEAM_SYNC_KEY, { ...config, ...changes });
+}
+
+function announce(): void {
+  window.dispatchEvent(new Event(TEAM_SYNC_EVENT));
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * The bearer token and encryption key for a team code's secret
+ */
+async function deriveTeamKeys(spaceId: string, secret: string): Promise<TeamKeys> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), 'HKDF', false, [
+    'deriveKey',
+  ]);
+  const key = await crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: new TextEncoder().encode(spaceId),
+      info: new TextEncoder().encode('resilience-hub-sync:changes'),
+    },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+  return { token: await sha256Hex(`resilience-hub-sync:auth:${secret}`), key };
+}
+
+async function request<T>(
+  config: Pick<TeamSyncConfig, 'serverUrl' | 'spaceId'>,
+  token: string,
+  path = '',
+  init: RequestInit = {}
+): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(`${config.serverUrl}${API_PATH}/${encodeURIComponent(config.spaceId)}${path}`, {
+      ...init,
+      headers: {
+        Authorization: `Bearer ${token}`,
+        ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+      },
+      cache: 'no-store',
+    });
+  } catch {
+    throw new Error('Could not reach the sync server');
+  }
+
+  if (response.status === 401 || response.status === 404) {
+    throw new Error('The sync server did not accept this team code');
+  }
+  if (!response.ok) {
+    throw new Error(`The sync server could not be used (error ${response.status})`);
+  }
+  return response.json();
+}
+
+/**
+ * The active profile's connection, if it has one
+ */
+export async function getTeamSyncStatus(): Promise<TeamSyncStatus | null> {
+  const config = await getConfig();
+  if (!config) return null;
+  const { serverUrl, spaceName, lastSyncedAt, lastError } = config;
+  return { serverUrl, spaceName, lastSyncedAt, lastError };
+}
+
+/**
+ * Connect the active profile to a team's space and sync it for the first time
+ *
+ * Throws if the address or code is malformed, the server is neither
+ * `TEAM_SYNC_ORIGIN` nor the one serving the toolkit, or it turns the code
+ * down. Once connected, a failed first sync is kept in `lastError` and
+ * retried like any other.
+ */
+export async function connectTeamSync(serverAddress: string, teamCode: string): Promise<void> {
+  const match = TEAM_CODE_PATTERN.exec(teamCode.trim());
+  if (!match) {
+    throw new Error('That team code is incomplete - copy it again from your hub coordinator');
+  }
+
+  let url: URL;
+  try {
+    url = new URL(serverAddress.trim());
+  } catch {
+    throw new Error('Enter the server address, e.g. https://hub.example.org');
+  }
+  if (url.protocol !== 'https:' && !(url.protocol === 'http:' && LOCAL_HOSTS.includes(url.hostname))) {
+    throw new Error('The server address must start with https://');
+  }
+  if (url.origin !== window.location.origin && url.origin !== TEAM_SYNC_ORIGIN) {
+    throw new Error(
+      TEAM_SYNC_ORIGIN
+        ? `This toolkit can only sync with ${TEAM_SYNC_ORIGIN}`
+        : `This toolkit can only sync with a server at ${window.location.origin}`
+    );
+  }
+
+  const [, spaceId, secret] = match;
+  const serverUrl = `${url.origin}${url.pathname}`.replace(/\/+$/, '');
+  const { token } = await deriveTeamKeys(spaceId, secret);
+  const space = await request<{ name: string }>({ serverUrl, spaceId }, token);
+
+  const config: TeamSyncConfig = {
+    serverUrl,
+    spaceId,
+    secret: await sealSecret(secret),
+    spaceName: space.name,
+    origin: crypto.randomUUID(),
+    pushCursor: null,
+    pullCursor: 0,
+  };
+  await setMetadata(TEAM_SYNC_KEY, config);
+  announce();
+
+  await syncWithTeam().catch(() => {});
+}
+
+/**
+ * Stop syncing the active profile (its data stays on this device)
+ */
+export async function disconnectTeamSync(): Promise<void> {
+  await setMetadata(TEAM_SYNC_KEY, null);
+  announce();
+}
+
+// ============================================================================
+// PUSH AND PULL
+// ============================================================================
+
+function toTeamChange({ store, recordId, before, after, at, deviceId }: JournalEntry): TeamChange {
+  return { store, recordId, before, after, at, deviceId };
+}
+
+/**
+ * Every record as it is now, as changes from nothing
+ */
+async function snapshotChanges(): Promise<TeamChange[]> {
+  const data = await exportAllData();
+  const deviceId = getDeviceId();
+  const stores: JournaledStore[] = ['todos', 'tables', 'annotations', 'archive'];
+  return stores.flatMap((store) =>
+    (data[store] as JournaledRecord[]).map((record) => ({
+      store,
+      recordId: record.id,
+      before: null,
+      after: record,
+      at: changedAt(record),
+      deviceId,
+    }))
+  );
+}
+
+/**
+ * Send this profile's changes since the push cursor
+ *
+ * @returns How many changes were sent
+ */
+async function push(config: TeamSyncConfig, keys: TeamKeys): Promise<number> {
+  const bounds = await getJournalBounds();
+  const outgoing: Array<{ id: string; change: TeamChange }> = [];
+  let cursor = config.pushCursor;
+
+  // First push, or history not pushed yet was pruned: send every record as it is. The ids only
+  // change with the journal, so retrying a failed push doesn't send the records again.
+  if (cursor === null || (bounds && bounds.oldest > cursor + 1)) {
+    cursor = bounds?.newest ?? 0;
+    const snapshotId = `${config.origin}:snapshot:${cursor}`;
+    (await snapshotChanges()).forEach((change) =>
+      outgoing.push({ id: `${snapshotId}:${change.store}:${change.recordId}`, change })
+    );
+  }
+
+  // Typing can still merge into the newest entries; those go next time
+  const settled = new Date(Date.now() - COALESCE_WINDOW_MS).toISOString();
+  for (const entry of await getJournalAfter(cursor)) {
+    if (entry.at > settled) break;
+    cursor = entry.seq as number;
+    // Pulled changes came from the server, and every device reopens due items itself
+    if (entry.kind === 'system') continue;
+    outgoing.push({ id: `${config.origin}:${entry.seq}`, change: toTeamChange(entry) });
+  }
+
+  for (let start = 0; start < outgoing.length; start += PUSH_BATCH_SIZE) {
+    const changes = await Promise.all(
+      outgoing.slice(start, start + PUSH_BATCH_SIZE).map(async ({ id, change }) => ({
+        id,
+        payload: await encryptText(keys.key, JSON.stringify(change)),
+      }))
+    );
+    await request(config, keys.token, '/changes', {
+      method: 'POST',
+      body: JSON.stringify({ origin: config.origin, changes }),
+    });
+  }
+
+  await updateConfig(config.spaceId, { pushCursor: cursor });
+  return outgoing.length;
+}
+
+/**
+ * A record from another device, checked like one from a backup file
+ */
+function readRecord(store: JournaledStore, record: unknown): JournaledRecord | null {
+  if (record === null) return null;
+  const { data } = validateExportedData({
+    todos: [],
+    tables: [],
+    annotations: [],
+    archive: [],
+    metadata: {},
+    [store]: [record],
+  });
+  const valid = data?.[store] as JournaledRecord[] | undefined;
+  if (!valid?.[0]) throw new Error('Malformed record');
+  return valid[0];
+}
+
+/**
+ * Decrypt and check a pulled change
+ *
+ * @throws Error if it can't be decrypted or isn't a valid change
+ */
+async function readChange(key: CryptoKey, payload: string): Promise<TeamChange> {
+  const change = JSON.parse(await decryptText(key, payload)) as TeamChange;
+  if (!['todos', 'tables', 'annotations', 'archive'].includes(change.store)) {
+    throw new Error(`Unknown store "${change.store}"`);
+  }
+  const before = readRecord(change.store, change.before);
+  const after = readRecord(change.store, change.after);
+  if ((after ?? before)?.id !== change.recordId) throw new Error('Record id mismatch');
+  return { ...change, before, after };
+}
+
+/**
+ * The record to store for a pulled change, given the one stored here
+ *
+ * @param base - The record as the other device had it before its changes
+ * @param after - The record as the other device left it (null: deleted)
+ */
+function resolvePulled(
+  store: JournaledStore,
+  current: JournaledRecord | null,
+  base: JournaledRecord | null,
+  after: JournaledRecord | null
+): JournaledRecord | null {
+  if (!after) {
+    // Deleted there; kept here if it was changed here meanwhile
+    return current && base && !isSameContent(current, base) ? current : null;
+  }
+  if (!current) return after;
+  return mergeRecord(diffRecord(store, base, current, after));
+}
+
+/**
+ * Fetch and merge other devices' changes since the pull cursor
+ *
+ * @returns How many changes were merged
+ */
+async function pull(config: TeamSyncConfig, keys: TeamKeys): Promise<number> {
+  let cursor = config.pullCursor;
+  let pulled = 0;
+
+  for (;;) {
+    const query = new URLSearchParams({
+      after: String(cursor),
+      exclude: config.origin,
+      limit: String(PULL_BATCH_SIZE),
+    });
+    const response = await request<PullResponse>(config, keys.token, `/changes?${query}`);
+    const results = await Promise.allSettled(
+      response.changes.map(({ payload }) => readChange(keys.key, payload))
+    );
+
+    // Merge up to the first change that can't be read, and stop there so it isn't skipped
+    const unreadable = results.findIndex((result) => result.status === 'rejected');
+    const readable = unreadable === -1 ? results : results.slice(0, unreadable);
+    const changes = readable.map((result) => (result as PromiseFulfilledResult<TeamChange>).value);
+
+    // Several changes to one record merge as one
+    const byRecord = new Map<string, PulledRecord>();
+    changes.forEach((change) => {
+      const key = `${change.store}:${change.recordId}`;
+      const first = byRecord.get(key);
+      byRecord.set(key, {
+        store: change.store,
+        id: change.recordId,
+        base: first ? first.base : change.before,
+        after: change.after,
+      });
+    });
+
+    const writes: RemoteWrite[] = [...byRecord.values()].map(({ store, id, base, after }) => ({
+      store,
+      id,
+      value: (current) => resolvePulled(store, current, base, after),
+    }));
+    if (writes.length > 0) {
+      await applyRemoteChanges(writes, PULL_LABEL);
+    }
+
+    pulled += changes.length;
+    if (unreadable !== -1) {
+      if (unreadable > 0) {
+        await updateConfig(config.spaceId, { pullCursor: response.changes[unreadable - 1].seq });
+      }
+      throw new Error('A change from the sync server could not be read - check the team code with your coordinator', {
+        cause: (results[unreadable] as PromiseRejectedResult).reason,
+      });
+    }
+
+    cursor = response.cursor;
+    await updateConfig(config.spaceId, { pullCursor: cursor });
+    if (!response.more) return pulled;
+  }
+}
+
+/**
+ * Push this profile's changes and pull everyone else's, once
+ *
+ * Does nothing when the profile isn't connected or storage is locked. A
+ * failure is kept in the status (`lastError`) and thrown.
+ *
+ * @returns How many changes were pushed and pulled, or null if it didn't run
+ */
+export async function syncWithTeam(): Promise<{ pushed: number; pulled: number } | null> {
+  const config = await getConfig();
+  if (!config || (await getLockState()).status === 'locked') return null;
+
+  try {
+    const keys = await deriveTeamKeys(config.spaceId, await openSecret(config.secret));
+    const pushed = await push(config, keys);
+    const pulled = await pull(config, keys);
+    await updateConfig(config.spaceId, { lastSyncedAt: new Date().toISOString(), lastError: undefined });
+    return { pushed, pulled };
+  } catch (error) {
+    console.warn('[TeamSync] Sync failed:', error);
+    await updateConfig(config.spaceId, {
+      lastError: error instanceof Error ? error.message : 'Sync failed',
+    });
+    throw error;
+  } finally {
+    announce();
+  }
+}
+
+// ============================================================================
+// BACKGROUND SYNC
+// ============================================================================
+
+let started = false;
+
+/**
+ * Run `syncWithTeam`, one tab at a time (where the browser can coordinate tabs)
+ */
+function syncInBackground(): void {
+  const run = () => syncWithTeam().catch(() => {});
+  if (navigator.locks) {
+    navigator.locks
+      .request(`team-sync:${getActiveProfile().id}`, { ifAvailable: true }, (lock) => (lock ? run() : null))
+      .catch(() => {});
+  } else {
+    run();
+  }
+}
+
+/**
+ * Keep a connected profile in sync while the app is open
+ *
+ * Syncs on page load, every minute, shortly after each edit, when the
+ * connection comes back and when the service worker's background sync fires
+ * (see BaseLayout). Each sync first checks the profile is connected, so this
+ * is safe to call for every page.
+ */
+export function startTeamSync(): void {
+  if (started || typeof window === 'undefined') return;
+  started = true;
+
+  let pushTimer: number | undefined;
+  window.addEventListener(JOURNAL_CHANGED_EVENT, (event) => {
+    if ((event as CustomEvent<JournalChangedDetail>).detail.kind === 'system') return;
+    window.clearTimeout(pushTimer);
+    pushTimer = window.setTimeout(syncInBackground, PUSH_DELAY_MS);
+  });
+  window.addEventListener('online', syncInBackground);
+  document.addEventListener('background-sync', syncInBackground);
+  window.setInterval(syncInBackground, SYNC_INTERVAL_MS);
+
+  syncInBackground();
+}
@@ -0,0 +1,136 @@
+/**
+ * Checklist Manifest
+ *
+ * Lists every `<Todo>` on each section page, read from the page sources at
+ * build time. Storage only has records for items someone has touched, so
+ * progress needs this list to know how many items a section really has, and
+ * pages listing items from other sections (upcoming maintenance) need their
+ * text. Uses Node.js fs module which runs during Astro's static site generation.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { sectionRegistry } from '@/data/sections';
+
+/** Todo ids on each section page: section number → moduleKey → todo ids */
+export type TodoManifest = Record<string, Record<string, string[]>>;
+
+/** Short item text by todo record id (`${moduleKey}-${todoId}`) */
+export type TodoLabels = Record<string, string>;
+
+interface ManifestItem {
+  moduleKey: string;
+  id: string;
+  label: string;
+}
+
+const TODO_TAG = /<Todo\b([^>]*)>/g;
+const TODO_BOUNDARY = /<\/?Todo\b/g;
+const MAX_LABEL_LENGTH = 80;
+const ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+  '&nbsp;': ' ',
+};
+
+function readAttribute(attributes: string, name: string): string | undefined {
+  return attributes.match(new RegExp(`(?:^|\\s)${name}="([^"]*)"`))?.[1];
+}
+
+/**
+ * The item's lead text: everything before a nested list or `<Todo>`, tags
+ * stripped, shortened
+ */
+function readLabel(source: string, start: number): string {
+  TODO_BOUNDARY.lastIndex = start;
+  const end = TODO_BOUNDARY.exec(source)?.index ?? source.length;
+  const text = source
+    .slice(start, end)
+    .replace(/<(ul|ol)\b[\s\S]*$/, '')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&[#\w]+;/g, (entity) => ENTITIES[entity] ?? entity)
+    .replace(/\s+/g, ' ')
+    .trim();
+  return text.length > MAX_LABEL_LENGTH ? `${text.slice(0, MAX_LABEL_LENGTH).trimEnd()}…` : text;
+}
+
+async function readSectionTodos(
+  number: string,
+  pagePath: string,
+  moduleKeys: string[]
+): Promise<ManifestItem[]> {
+  const filePath = path.join(process.cwd(), 'src/pages', `${pagePath}.astro`);
+  const items: ManifestItem[] = [];
+  let source: string;
+
+  try {
+    source = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    console.warn(`Could not read checklist items for section ${number}:`, error);
+    return items;
+  }
+
+  for (const match of source.matchAll(TODO_TAG)) {
+    const attributes = match[1];
+    const id = readAttribute(attributes, 'id');
+    const moduleKey = readAttribute(attributes, 'moduleKey');
+
+    if (!id || !moduleKey) {
+      console.warn(`Skipping a <Todo> without a literal id/moduleKey in section ${number}`);
+      continue;
+    }
+    if (!moduleKeys.includes(moduleKey)) {
+      console.warn(
+        `Section ${number} uses moduleKey "${moduleKey}" which is missing from src/data/sections.ts`
+      );
+    }
+
+    if (!items.some((item) => item.moduleKey === moduleKey && item.id === id)) {
+      const label = readLabel(source, (match.index ?? 0) + match[0].length);
+      items.push({ moduleKey, id, label: label || id });
+    }
+  }
+
+  return items;
+}
+
+let sections: Promise<Array<[string, ManifestItem[]]>> | null = null;
+
+/** Read once per build and shared by every page that needs it */
+function readAllSections(): Promise<Array<[string, ManifestItem[]]>> {
+  sections ??= Promise.all(
+    sectionRegistry.map(async ({ number, path: pagePath, moduleKeys }) => {
+      const items = await readSectionTodos(number, pagePath, moduleKeys);
+      return [number, items] as [string, ManifestItem[]];
+    })
+  );
+  return sections;
+}
+
+/**
+ * Get the checklist manifest for every registered section
+ */
+export async function getTodoManifest(): Promise<TodoManifest> {
+  const manifest: TodoManifest = {};
+  for (const [number, items] of await readAllSections()) {
+    const todos: Record<string, string[]> = {};
+    items.forEach(({ moduleKey, id }) => (todos[moduleKey] ??= []).push(id));
+    manifest[number] = todos;
+  }
+  return manifest;
+}
+
+/**
+ * Get the text of every checklist item, for lists that show items outside
+ * their own page
+ */
+export async function getTodoLabels(): Promise<TodoLabels> {
+  const labels: TodoLabels = {};
+  for (const [, items] of await readAllSections()) {
+    items.forEach(({ moduleKey, id, label }) => (labels[`${moduleKey}-${id}`] = label));
+  }
+  return labels;
+}
@@ -23,14 +23,17 @@ export const onRequest: MiddlewareHandler = async (_context, next) => {
   const headers = response.headers;
 
   // Content Security Policy - Local-only app
-  // Allow resources from self and Umami analytics
+  // Allow resources from self and Umami analytics. A hub's team sync server
+  // (see src/lib/teamSync.ts) is either served from the same origin or set
+  // in PUBLIC_TEAM_SYNC_ORIGIN
+  const teamSyncOrigin = import.meta.env.PUBLIC_TEAM_SYNC_ORIGIN;
   const cspDirectives = [
     "default-src 'self'",
     "script-src 'self' 'unsafe-inline' 'unsafe-eval' https://cloud.umami.is", // unsafe-inline/eval needed for Astro hydration
     "style-src 'self' 'unsafe-inline' https://fonts.googleapis.com",
     "font-src 'self' https://fonts.gstatic.com",
     "img-src 'self' data: https: blob:",
-    "connect-src 'self' https://api-gateway.umami.dev",
+    `connect-src 'self' https://api-gateway.umami.dev${teamSyncOrigin ? ` ${teamSyncOrigin}` : ''}`,
     "frame-ancestors 'none'",
     "base-uri 'self'",
     "form-action 'self'",
@@ -49,9 +52,10 @@ export const onRequest: MiddlewareHandler = async (_context, next) => {
 
   // Control browser features
   // Note: interest-cohort removed as it's deprecated in modern browsers
+  // Camera: scanning device sync QR codes (DeviceSyncPanel)
   headers.set(
     'Permissions-Policy',
-    'camera=(), microphone=(), geolocation=(self)'
+    'camera=(self), microphone=(), geolocation=(self)'
   );
 
   // Strict Transport Security (HTTPS only)
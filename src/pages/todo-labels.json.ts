@@ -0,0 +1,12 @@
+/**
+ * Checklist item text by todo record id, for the service worker's
+ * maintenance reminders (public/sw.js), which can't read page content
+ */
+import type { APIRoute } from 'astro';
+import { getTodoLabels } from '@/lib/todoManifest';
+
+export const GET: APIRoute = async () => {
+  return new Response(JSON.stringify(await getTodoLabels()), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+};
@@ -0,0 +1,17 @@
+/**
+ * In-memory Web Storage, for tests that need localStorage or sessionStorage
+ * outside a browser (stub it in with `vi.stubGlobal`)
+ */
+export function memoryStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => [...items.keys()][index] ?? null,
+    removeItem: (key) => void items.delete(key),
+    setItem: (key, value) => void items.set(key, String(value)),
+  };
+}